@@ -0,0 +1,55 @@
+/**
+ * BreakoutCountdown Component
+ * Banner counting down until the breakout rooms close
+ */
+import { useEffect, useRef, useState } from 'react';
+import './BreakoutRooms.scss';
+
+interface BreakoutCountdownProps {
+  endsAt: number;
+  message: string;
+  onElapsed: () => void;
+}
+
+/**
+ * BreakoutCountdown component
+ * @param endsAt - Epoch milliseconds at which the rooms close
+ * @param message - Text shown before the remaining time
+ * @param onElapsed - Called once when the countdown reaches zero
+ */
+export default function BreakoutCountdown({
+  endsAt,
+  message,
+  onElapsed,
+}: BreakoutCountdownProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const onElapsedRef = useRef(onElapsed);
+
+  useEffect(() => {
+    onElapsedRef.current = onElapsed;
+  }, [onElapsed]);
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= endsAt) {
+        clearInterval(timer);
+        onElapsedRef.current();
+      }
+    }, 250);
+
+    return () => clearInterval(timer);
+  }, [endsAt]);
+
+  const remaining = Math.max(Math.ceil((endsAt - now) / 1000), 0);
+
+  return (
+    <div className="breakout-countdown" role="status" aria-live="polite">
+      {message}{' '}
+      <strong>
+        {Math.floor(remaining / 60)}:{String(remaining % 60).padStart(2, '0')}
+      </strong>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+/**
+ * BreakoutRooms Component
+ * Host panel to split a meeting into breakout rooms, move participants
+ * into them, message every room and call everyone back
+ */
+import { useState } from 'react';
+import type { Room } from '../../services/room.service';
+import {
+  BREAKOUT_CALLBACK_OPTIONS,
+  MAX_BREAKOUT_ROOMS,
+  type BreakoutAssignments,
+} from '../../lib/breakoutRooms';
+import './BreakoutRooms.scss';
+
+export interface BreakoutParticipant {
+  userId: string;
+  name: string;
+}
+
+interface BreakoutRoomsProps {
+  rooms: Room[];
+  participants: BreakoutParticipant[];
+  assignments: BreakoutAssignments;
+  isBusy: boolean;
+  isClosing: boolean;
+  onCreate: (count: number) => void;
+  onAssign: (userId: string, roomId: string) => void;
+  onShuffle: () => void;
+  onOpen: () => void;
+  onJoin: (roomId: string) => void;
+  onBroadcast: (message: string) => void;
+  onCallBack: (seconds: number) => void;
+}
+
+/**
+ * BreakoutRooms component
+ * @param rooms - Open breakout rooms of the meeting
+ * @param participants - Participants that can be assigned (host excluded)
+ * @param assignments - Room chosen for each participant
+ * @param isBusy - Disables actions while rooms are being created
+ * @param isClosing - Whether the call-back countdown is running
+ * @param onCreate - Create the given number of rooms
+ * @param onAssign - Assign a participant to a room ('' to unassign)
+ * @param onShuffle - Assign everyone at random
+ * @param onOpen - Move assigned participants into their rooms
+ * @param onJoin - Enter a breakout room as host
+ * @param onBroadcast - Send a message to every breakout room
+ * @param onCallBack - Bring everyone back after a countdown in seconds
+ */
+export default function BreakoutRooms({
+  rooms,
+  participants,
+  assignments,
+  isBusy,
+  isClosing,
+  onCreate,
+  onAssign,
+  onShuffle,
+  onOpen,
+  onJoin,
+  onBroadcast,
+  onCallBack,
+}: BreakoutRoomsProps) {
+  const [count, setCount] = useState(2);
+  const [message, setMessage] = useState('');
+  const [callBackSeconds, setCallBackSeconds] = useState(60);
+
+  if (rooms.length === 0) {
+    return (
+      <form
+        className="breakout-rooms breakout-rooms__create"
+        onSubmit={(e) => {
+          e.preventDefault();
+          onCreate(count);
+        }}
+      >
+        <p className="breakout-rooms__hint">
+          Divide a los participantes en grupos pequeños. Podrás volver a
+          reunirlos en la sala principal cuando quieras.
+        </p>
+        <label htmlFor="breakout-count">Número de salas</label>
+        <input
+          id="breakout-count"
+          type="number"
+          min={1}
+          max={MAX_BREAKOUT_ROOMS}
+          value={count}
+          onChange={(e) =>
+            setCount(
+              Math.min(Math.max(Number(e.target.value) || 1, 1), MAX_BREAKOUT_ROOMS)
+            )
+          }
+          disabled={isBusy}
+        />
+        <button type="submit" className="breakout-rooms__primary" disabled={isBusy}>
+          {isBusy ? 'Creando salas...' : 'Crear salas'}
+        </button>
+      </form>
+    );
+  }
+
+  const assignedCount = participants.filter((p) => assignments[p.userId]).length;
+
+  return (
+    <div className="breakout-rooms">
+      <section aria-labelledby="breakout-rooms-list">
+        <h3 id="breakout-rooms-list">Salas ({rooms.length})</h3>
+        <ul className="breakout-rooms__rooms">
+          {rooms.map((room) => {
+            const members = participants.filter(
+              (p) => assignments[p.userId] === room.id
+            );
+            return (
+              <li key={room.id} className="breakout-rooms__room">
+                <div>
+                  <span className="breakout-rooms__room-name">{room.name}</span>
+                  <span className="breakout-rooms__room-members">
+                    {members.length > 0
+                      ? members.map((p) => p.name).join(', ')
+                      : 'Sin participantes asignados'}
+                  </span>
+                </div>
+                <button
+                  type="button"
+                  className="breakout-rooms__secondary"
+                  onClick={() => onJoin(room.id)}
+                  disabled={isClosing}
+                >
+                  Entrar
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+
+      <section aria-labelledby="breakout-rooms-assign">
+        <div className="breakout-rooms__section-header">
+          <h3 id="breakout-rooms-assign">Asignar participantes</h3>
+          <button
+            type="button"
+            className="breakout-rooms__secondary"
+            onClick={onShuffle}
+            disabled={participants.length === 0 || isClosing}
+          >
+            Asignar al azar
+          </button>
+        </div>
+        {participants.length === 0 ? (
+          <p className="breakout-rooms__hint">
+            No hay participantes en la sala principal.
+          </p>
+        ) : (
+          <ul className="breakout-rooms__participants">
+            {participants.map((participant) => (
+              <li key={participant.userId}>
+                <label htmlFor={`breakout-assign-${participant.userId}`}>
+                  {participant.name}
+                </label>
+                <select
+                  id={`breakout-assign-${participant.userId}`}
+                  value={assignments[participant.userId] ?? ''}
+                  onChange={(e) => onAssign(participant.userId, e.target.value)}
+                  disabled={isClosing}
+                >
+                  <option value="">Sala principal</option>
+                  {rooms.map((room, index) => (
+                    <option key={room.id} value={room.id}>
+                      Sala {index + 1}
+                    </option>
+                  ))}
+                </select>
+              </li>
+            ))}
+          </ul>
+        )}
+        <button
+          type="button"
+          className="breakout-rooms__primary"
+          onClick={onOpen}
+          disabled={assignedCount === 0 || isClosing}
+        >
+          Mover a las salas ({assignedCount})
+        </button>
+      </section>
+
+      <form
+        aria-labelledby="breakout-rooms-broadcast"
+        onSubmit={(e) => {
+          e.preventDefault();
+          const content = message.trim();
+          if (!content) return;
+          onBroadcast(content);
+          setMessage('');
+        }}
+      >
+        <h3 id="breakout-rooms-broadcast">Mensaje para todas las salas</h3>
+        <textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder="Ej.: Quedan 5 minutos"
+          rows={2}
+          maxLength={300}
+          aria-label="Mensaje para todas las salas"
+        />
+        <button
+          type="submit"
+          className="breakout-rooms__secondary"
+          disabled={!message.trim()}
+        >
+          Enviar a todas las salas
+        </button>
+      </form>
+
+      <section aria-labelledby="breakout-rooms-close">
+        <h3 id="breakout-rooms-close">Cerrar salas</h3>
+        <div className="breakout-rooms__close">
+          <select
+            value={callBackSeconds}
+            onChange={(e) => setCallBackSeconds(Number(e.target.value))}
+            aria-label="Cuenta regresiva antes de cerrar"
+            disabled={isClosing}
+          >
+            {BREAKOUT_CALLBACK_OPTIONS.map((seconds) => (
+              <option key={seconds} value={seconds}>
+                {seconds < 60 ? `${seconds} segundos` : `${seconds / 60} min`}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="breakout-rooms__danger"
+            onClick={() => onCallBack(callBackSeconds)}
+            disabled={isClosing}
+          >
+            {isClosing ? 'Cerrando salas...' : 'Llamar a todos de vuelta'}
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+}
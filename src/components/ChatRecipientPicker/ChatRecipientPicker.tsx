@@ -0,0 +1,121 @@
+/**
+ * ChatRecipientPicker Component
+ * Chooses who a meeting chat message goes to: everyone, one participant
+ * or a custom group
+ */
+import type { ChatRecipients } from '../../lib/chatMessages';
+import './ChatRecipientPicker.scss';
+
+interface RecipientOption {
+  userId: string;
+  name: string;
+}
+
+interface ChatRecipientPickerProps {
+  participants: RecipientOption[];
+  value: ChatRecipients;
+  onChange: (recipients: ChatRecipients) => void;
+}
+
+const GROUP_VALUE = 'group';
+const PRIVATE_PREFIX = 'private:';
+
+/**
+ * ChatRecipientPicker component
+ * @param participants - Other participants that can receive messages
+ * @param value - Current recipients
+ * @param onChange - Called with the new recipients
+ */
+export default function ChatRecipientPicker({
+  participants,
+  value,
+  onChange,
+}: ChatRecipientPickerProps) {
+  const selectValue =
+    value.visibility === 'private'
+      ? `${PRIVATE_PREFIX}${value.targetIds[0]}`
+      : value.visibility === 'group'
+        ? GROUP_VALUE
+        : 'public';
+
+  const handleSelect = (next: string) => {
+    if (next === GROUP_VALUE) {
+      onChange({ visibility: 'group', targetIds: [] });
+    } else if (next.startsWith(PRIVATE_PREFIX)) {
+      onChange({
+        visibility: 'private',
+        targetIds: [next.slice(PRIVATE_PREFIX.length)],
+      });
+    } else {
+      onChange({ visibility: 'public', targetIds: [] });
+    }
+  };
+
+  const toggleMember = (userId: string) => {
+    const targetIds = value.targetIds.includes(userId)
+      ? value.targetIds.filter((id) => id !== userId)
+      : [...value.targetIds, userId];
+    onChange({ visibility: 'group', targetIds });
+  };
+
+  // Keep a private recipient who already left selectable so the choice
+  // doesn't silently switch to everyone
+  const privateTarget = value.visibility === 'private' ? value.targetIds[0] : null;
+  const hasPrivateTarget =
+    !privateTarget || participants.some((p) => p.userId === privateTarget);
+
+  return (
+    <div
+      className={`chat-recipients ${
+        value.visibility !== 'public' ? 'chat-recipients--private' : ''
+      }`}
+    >
+      <label className="chat-recipients__label">
+        Para:
+        <select
+          value={selectValue}
+          onChange={(e) => handleSelect(e.target.value)}
+          aria-label="Destinatarios del mensaje"
+        >
+          <option value="public">Todos</option>
+          {(participants.length > 0 || !hasPrivateTarget) && (
+            <optgroup label="Mensaje privado">
+              {participants.map((participant) => (
+                <option
+                  key={participant.userId}
+                  value={`${PRIVATE_PREFIX}${participant.userId}`}
+                >
+                  {participant.name}
+                </option>
+              ))}
+              {!hasPrivateTarget && (
+                <option value={`${PRIVATE_PREFIX}${privateTarget}`}>
+                  (Ya no está en la reunión)
+                </option>
+              )}
+            </optgroup>
+          )}
+          {participants.length > 1 && (
+            <option value={GROUP_VALUE}>Grupo personalizado…</option>
+          )}
+        </select>
+      </label>
+
+      {value.visibility === 'group' && (
+        <fieldset className="chat-recipients__group">
+          <legend>Miembros del grupo</legend>
+          {participants.map((participant) => (
+            <label key={participant.userId} className="chat-recipients__member">
+              <input
+                type="checkbox"
+                checked={value.targetIds.includes(participant.userId)}
+                onChange={() => toggleMember(participant.userId)}
+              />
+              {participant.name}
+            </label>
+          ))}
+        </fieldset>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+/**
+ * ConnectionInfoPanel Component
+ * Detailed WebRTC statistics for one participant's connection
+ */
+import type { PeerConnectionStats } from '../../lib/connectionStats';
+import { getConnectionQualityLabel } from '../../lib/connectionStats';
+import './ConnectionQuality.scss';
+
+interface ConnectionInfoPanelProps {
+  participantName: string;
+  stats?: PeerConnectionStats;
+  onClose: () => void;
+}
+
+/**
+ * Format a bitrate in kbps for display
+ * @param kbps - Bitrate in kilobits per second
+ */
+function formatBitrate(kbps: number): string {
+  return kbps >= 1000 ? `${(kbps / 1000).toFixed(1)} Mbps` : `${kbps} kbps`;
+}
+
+/**
+ * ConnectionInfoPanel component
+ * @param participantName - Name of the remote participant
+ * @param stats - Latest statistics for the connection, if any
+ * @param onClose - Callback to close the panel
+ */
+export default function ConnectionInfoPanel({
+  participantName,
+  stats,
+  onClose,
+}: ConnectionInfoPanelProps) {
+  return (
+    <div
+      className="connection-info-panel"
+      role="dialog"
+      aria-label={`Información de conexión de ${participantName}`}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onClose();
+      }}
+    >
+      <div className="connection-info-panel__header">
+        <h3>Información de conexión</h3>
+        <button
+          type="button"
+          className="connection-info-panel__close"
+          onClick={onClose}
+          aria-label="Cerrar información de conexión"
+          autoFocus
+        >
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M18 6L6 18M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {!stats ? (
+        <p className="connection-info-panel__empty">Recopilando estadísticas...</p>
+      ) : (
+        <dl className="connection-info-panel__list">
+          <dt>Calidad</dt>
+          <dd>{getConnectionQualityLabel(stats.quality)}</dd>
+          <dt>Latencia (RTT)</dt>
+          <dd>{stats.rtt === null ? '—' : `${stats.rtt} ms`}</dd>
+          <dt>Pérdida de paquetes</dt>
+          <dd>{stats.packetLoss}%</dd>
+          <dt>Jitter</dt>
+          <dd>{stats.jitter} ms</dd>
+          <dt>Recepción</dt>
+          <dd>{formatBitrate(stats.inboundBitrate)}</dd>
+          <dt>Envío</dt>
+          <dd>{formatBitrate(stats.outboundBitrate)}</dd>
+          <dt>Resolución</dt>
+          <dd>
+            {stats.resolution
+              ? `${stats.resolution.width}×${stats.resolution.height}` +
+                (stats.framesPerSecond ? ` @ ${Math.round(stats.framesPerSecond)} fps` : '')
+              : '—'}
+          </dd>
+        </dl>
+      )}
+    </div>
+  );
+}
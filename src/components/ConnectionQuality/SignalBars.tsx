@@ -0,0 +1,48 @@
+/**
+ * SignalBars Component
+ * Shows a peer's network quality as signal bars and opens the
+ * detailed connection info panel on click
+ */
+import type { ConnectionQuality } from '../../lib/connectionStats';
+import { getConnectionQualityLabel } from '../../lib/connectionStats';
+import './ConnectionQuality.scss';
+
+interface SignalBarsProps {
+  quality: ConnectionQuality;
+  expanded?: boolean;
+  onClick?: () => void;
+}
+
+/**
+ * SignalBars component
+ * @param quality - Quality level (0-4) = number of highlighted bars
+ * @param expanded - Whether the connection info panel is open
+ * @param onClick - Callback to toggle the connection info panel
+ */
+export default function SignalBars({
+  quality,
+  expanded = false,
+  onClick,
+}: SignalBarsProps) {
+  const label = `Calidad de conexión: ${getConnectionQualityLabel(quality)}`;
+
+  return (
+    <button
+      type="button"
+      className={`signal-bars signal-bars--q${quality}`}
+      onClick={onClick}
+      aria-label={label}
+      aria-expanded={expanded}
+      title={label}
+    >
+      {[1, 2, 3, 4].map((bar) => (
+        <span
+          key={bar}
+          className={`signal-bars__bar ${bar <= quality ? 'signal-bars__bar--on' : ''}`}
+          style={{ height: `${bar * 25}%` }}
+          aria-hidden="true"
+        />
+      ))}
+    </button>
+  );
+}
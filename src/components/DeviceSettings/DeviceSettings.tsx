@@ -0,0 +1,116 @@
+/**
+ * DeviceSettings Component
+ * Camera, microphone and speaker pickers
+ */
+import type {
+  AvailableMediaDevices,
+  MediaDevicePreferences,
+} from '../../lib/mediaDevices';
+import {
+  getDeviceLabel,
+  supportsAudioOutputSelection,
+} from '../../lib/mediaDevices';
+import './DeviceSettings.scss';
+
+interface DeviceSettingsProps {
+  devices: AvailableMediaDevices;
+  preferences: MediaDevicePreferences;
+  onChange: (kind: keyof MediaDevicePreferences, deviceId: string) => void;
+  disabled?: boolean;
+}
+
+interface DeviceFieldProps {
+  id: string;
+  label: string;
+  options: MediaDeviceInfo[];
+  value?: string;
+  onChange: (deviceId: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Single device select with an empty state
+ */
+function DeviceField({
+  id,
+  label,
+  options,
+  value,
+  onChange,
+  disabled = false,
+}: DeviceFieldProps) {
+  return (
+    <div className="device-settings__field">
+      <label htmlFor={id}>{label}</label>
+      <select
+        id={id}
+        value={value && options.some((d) => d.deviceId === value) ? value : ''}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled || options.length === 0}
+      >
+        {options.length === 0 ? (
+          <option value="">No se encontraron dispositivos</option>
+        ) : (
+          <>
+            <option value="">Predeterminado del sistema</option>
+            {options.map((device, index) => (
+              <option key={device.deviceId} value={device.deviceId}>
+                {getDeviceLabel(device, index)}
+              </option>
+            ))}
+          </>
+        )}
+      </select>
+    </div>
+  );
+}
+
+/**
+ * DeviceSettings component
+ * @param devices - Available devices grouped by kind
+ * @param preferences - Currently selected devices
+ * @param onChange - Callback when the user picks a device
+ * @param disabled - Disable every picker (e.g. while switching)
+ */
+export default function DeviceSettings({
+  devices,
+  preferences,
+  onChange,
+  disabled = false,
+}: DeviceSettingsProps) {
+  return (
+    <div className="device-settings">
+      <DeviceField
+        id="device-settings-camera"
+        label="Cámara"
+        options={devices.videoInputs}
+        value={preferences.videoInputId}
+        onChange={(deviceId) => onChange('videoInputId', deviceId)}
+        disabled={disabled}
+      />
+      <DeviceField
+        id="device-settings-microphone"
+        label="Micrófono"
+        options={devices.audioInputs}
+        value={preferences.audioInputId}
+        onChange={(deviceId) => onChange('audioInputId', deviceId)}
+        disabled={disabled}
+      />
+      {supportsAudioOutputSelection() ? (
+        <DeviceField
+          id="device-settings-speaker"
+          label="Altavoz"
+          options={devices.audioOutputs}
+          value={preferences.audioOutputId}
+          onChange={(deviceId) => onChange('audioOutputId', deviceId)}
+          disabled={disabled}
+        />
+      ) : (
+        <p className="device-settings__hint">
+          Tu navegador no permite elegir el altavoz; se usa el predeterminado
+          del sistema.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -112,10 +112,10 @@ const Footer: React.FC = () => {
 
               <h3>¿Puedo grabar mis reuniones?</h3>
               <p>
-                Sí, la función de grabación está disponible en todos los planes
-                de pago. Las grabaciones se guardan en la nube y están
-                disponibles por 30 días. Puedes descargarlas en cualquier
-                momento.
+                Sí, el anfitrión puede grabar la reunión desde la barra de
+                controles. La grabación se realiza en tu navegador y, al
+                detenerla, se descarga como archivo WebM. Todos los
+                participantes ven un aviso mientras se está grabando.
               </p>
 
               <h3>¿Qué requisitos técnicos necesito?</h3>
@@ -0,0 +1,79 @@
+/**
+ * HandRaiseQueue Component
+ * Ordered speaking list for hosts: call on the next person or lower hands
+ */
+import './HandRaiseQueue.scss';
+
+export interface RaisedHand {
+  userId: string;
+  raisedAt: number;
+}
+
+interface HandRaiseQueueProps {
+  hands: RaisedHand[];
+  getName: (userId: string) => string;
+  onCallNext: () => void;
+  onLower: (userId: string) => void;
+}
+
+/**
+ * HandRaiseQueue component
+ * @param hands - Raised hands, oldest first
+ * @param getName - Resolves a participant's display name
+ * @param onCallNext - Give the floor to the first person in the queue
+ * @param onLower - Lower a single participant's hand
+ */
+export default function HandRaiseQueue({
+  hands,
+  getName,
+  onCallNext,
+  onLower,
+}: HandRaiseQueueProps) {
+  if (hands.length === 0) return null;
+
+  return (
+    <section className="hand-queue" aria-labelledby="hand-queue-title">
+      <div className="hand-queue__header">
+        <h3 id="hand-queue-title">Manos levantadas ({hands.length})</h3>
+        <button
+          type="button"
+          className="hand-queue__next"
+          onClick={onCallNext}
+          title={`Dar la palabra a ${getName(hands[0].userId)}`}
+        >
+          Dar la palabra
+        </button>
+      </div>
+      <ol className="hand-queue__list">
+        {hands.map((hand, index) => (
+          <li key={hand.userId} className="hand-queue__item">
+            <span className="hand-queue__position" aria-hidden="true">
+              {index + 1}
+            </span>
+            <span className="hand-queue__name">{getName(hand.userId)}</span>
+            <time
+              className="hand-queue__time"
+              dateTime={new Date(hand.raisedAt).toISOString()}
+            >
+              {new Date(hand.raisedAt).toLocaleTimeString('es-ES', {
+                hour: '2-digit',
+                minute: '2-digit',
+              })}
+            </time>
+            <button
+              type="button"
+              className="hand-queue__lower"
+              onClick={() => onLower(hand.userId)}
+              aria-label={`Bajar la mano de ${getName(hand.userId)}`}
+              title="Bajar mano"
+            >
+              <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M18 6L6 18M6 6l12 12" />
+              </svg>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
@@ -0,0 +1,156 @@
+/**
+ * MentionAutocomplete Component
+ * Suggests people to mention while "@name" is typed in a chat composer.
+ * Listens to the composer itself, so the composer keeps its own handlers.
+ */
+import { useCallback, useEffect, useState, type RefObject } from 'react';
+import {
+  filterMentionCandidates,
+  getMentionQuery,
+  insertMention,
+  type MentionCandidate,
+  type MentionQuery,
+} from '../../lib/chatMentions';
+import './MentionAutocomplete.scss';
+
+interface MentionAutocompleteProps {
+  inputRef: RefObject<HTMLTextAreaElement | null>;
+  getCandidates: () => MentionCandidate[];
+  onSelect: (value: string, candidate: MentionCandidate) => void;
+}
+
+interface Suggestions {
+  mention: MentionQuery;
+  caret: number;
+  candidates: MentionCandidate[];
+}
+
+// Keys that move the caret without typing
+const CARET_KEYS = ['ArrowLeft', 'ArrowRight', 'Home', 'End'];
+
+/**
+ * MentionAutocomplete component
+ * @param inputRef - The composer textarea
+ * @param getCandidates - People who can be mentioned right now
+ * @param onSelect - Called with the new draft and the picked person
+ */
+export default function MentionAutocomplete({
+  inputRef,
+  getCandidates,
+  onSelect,
+}: MentionAutocompleteProps) {
+  const [suggestions, setSuggestions] = useState<Suggestions | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const select = useCallback(
+    (candidate: MentionCandidate) => {
+      const input = inputRef.current;
+      if (!input || !suggestions) return;
+      const draft = insertMention(
+        input.value,
+        suggestions.mention,
+        suggestions.caret,
+        candidate.name
+      );
+      onSelect(draft.value, candidate);
+      setSuggestions(null);
+
+      // Put the caret after the mention once React has rendered the draft
+      requestAnimationFrame(() => {
+        input.focus();
+        input.setSelectionRange(draft.caret, draft.caret);
+      });
+    },
+    [inputRef, onSelect, suggestions]
+  );
+
+  useEffect(() => {
+    const input = inputRef.current;
+    if (!input) return;
+
+    const update = () => {
+      const caret = input.selectionStart ?? input.value.length;
+      const mention =
+        input.selectionStart === input.selectionEnd
+          ? getMentionQuery(input.value, caret)
+          : null;
+      const candidates = mention
+        ? filterMentionCandidates(getCandidates(), mention.query)
+        : [];
+      setSuggestions(mention && candidates.length > 0 ? { mention, caret, candidates } : null);
+      setActiveIndex(0);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!suggestions) return;
+      const count = suggestions.candidates.length;
+      switch (e.key) {
+        case 'ArrowDown':
+          e.preventDefault();
+          setActiveIndex((index) => (index + 1) % count);
+          break;
+        case 'ArrowUp':
+          e.preventDefault();
+          setActiveIndex((index) => (index - 1 + count) % count);
+          break;
+        case 'Enter':
+        case 'Tab':
+          if (e.shiftKey) return;
+          // Pick the person instead of sending the message
+          e.preventDefault();
+          select(suggestions.candidates[Math.min(activeIndex, count - 1)]);
+          break;
+        case 'Escape':
+          e.preventDefault();
+          setSuggestions(null);
+          break;
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (CARET_KEYS.includes(e.key)) update();
+    };
+
+    const close = () => setSuggestions(null);
+
+    input.addEventListener('input', update);
+    input.addEventListener('click', update);
+    input.addEventListener('keyup', handleKeyUp);
+    input.addEventListener('keydown', handleKeyDown);
+    input.addEventListener('blur', close);
+
+    return () => {
+      input.removeEventListener('input', update);
+      input.removeEventListener('click', update);
+      input.removeEventListener('keyup', handleKeyUp);
+      input.removeEventListener('keydown', handleKeyDown);
+      input.removeEventListener('blur', close);
+    };
+  }, [inputRef, getCandidates, suggestions, activeIndex, select]);
+
+  if (!suggestions) return null;
+
+  return (
+    <ul className="mention-autocomplete" role="listbox" aria-label="Mencionar a">
+      {suggestions.candidates.map((candidate, index) => (
+        <li
+          key={candidate.userId}
+          role="option"
+          aria-selected={index === activeIndex}
+          className={`mention-autocomplete__option ${index === activeIndex ? 'mention-autocomplete__option--active' : ''}`}
+          // Keep focus in the composer
+          onMouseDown={(e) => {
+            e.preventDefault();
+            select(candidate);
+          }}
+          onMouseEnter={() => setActiveIndex(index)}
+        >
+          <span className="mention-autocomplete__avatar" aria-hidden="true">
+            {candidate.name.charAt(0).toUpperCase()}
+          </span>
+          <span className="mention-autocomplete__name">{candidate.name}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
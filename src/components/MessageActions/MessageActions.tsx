@@ -0,0 +1,123 @@
+/**
+ * MessageActions Component
+ * "More options" menu on a chat message with reply, edit and delete
+ * entries
+ */
+import { useEffect, useRef, useState } from 'react';
+import './MessageActions.scss';
+
+interface MessageActionsProps {
+  canEdit: boolean;
+  canDelete: boolean;
+  onEdit: () => void;
+  onDelete: () => void;
+  onReply?: () => void;
+  onReplyInThread?: () => void;
+}
+
+/**
+ * MessageActions component
+ * @param canEdit - Show the edit entry (own messages only)
+ * @param canDelete - Show the delete entry (own messages, or any for hosts)
+ * @param onEdit - Start editing the message
+ * @param onDelete - Ask to delete the message
+ * @param onReply - Start a quoted reply; entry hidden when omitted
+ * @param onReplyInThread - Start a thread reply; entry hidden when omitted
+ */
+export default function MessageActions({
+  canEdit,
+  canDelete,
+  onEdit,
+  onDelete,
+  onReply,
+  onReplyInThread,
+}: MessageActionsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click or Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('pointerdown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  if (!canEdit && !canDelete && !onReply && !onReplyInThread) return null;
+
+  const choose = (action: () => void) => {
+    setIsOpen(false);
+    action();
+  };
+
+  return (
+    <div className="message-actions" ref={containerRef}>
+      <button
+        type="button"
+        className="message-actions__toggle"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-label="Opciones del mensaje"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+          <circle cx="5" cy="12" r="2" />
+          <circle cx="12" cy="12" r="2" />
+          <circle cx="19" cy="12" r="2" />
+        </svg>
+      </button>
+      {isOpen && (
+        <ul className="message-actions__menu" role="menu">
+          {onReply && (
+            <li role="none">
+              <button type="button" role="menuitem" onClick={() => choose(onReply)}>
+                Responder
+              </button>
+            </li>
+          )}
+          {onReplyInThread && (
+            <li role="none">
+              <button
+                type="button"
+                role="menuitem"
+                onClick={() => choose(onReplyInThread)}
+              >
+                Responder en hilo
+              </button>
+            </li>
+          )}
+          {canEdit && (
+            <li role="none">
+              <button type="button" role="menuitem" onClick={() => choose(onEdit)}>
+                Editar
+              </button>
+            </li>
+          )}
+          {canDelete && (
+            <li role="none">
+              <button
+                type="button"
+                role="menuitem"
+                className="message-actions__danger"
+                onClick={() => choose(onDelete)}
+              >
+                Eliminar
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+/**
+ * MessageEditForm Component
+ * Inline editor that replaces a chat message's text while it is edited
+ */
+import { useState, type FormEvent } from 'react';
+import './MessageActions.scss';
+
+interface MessageEditFormProps {
+  initialContent: string;
+  isSaving: boolean;
+  onSave: (content: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * MessageEditForm component
+ * @param initialContent - Current text of the message
+ * @param isSaving - Disables the form while the change is being saved
+ * @param onSave - Called with the trimmed new text
+ * @param onCancel - Leave the message unchanged
+ */
+export default function MessageEditForm({
+  initialContent,
+  isSaving,
+  onSave,
+  onCancel,
+}: MessageEditFormProps) {
+  const [content, setContent] = useState(initialContent);
+  const trimmed = content.trim();
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!trimmed) return;
+    if (trimmed === initialContent.trim()) {
+      onCancel();
+      return;
+    }
+    onSave(trimmed);
+  };
+
+  return (
+    <form className="message-edit-form" onSubmit={handleSubmit}>
+      <input
+        type="text"
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') onCancel();
+        }}
+        disabled={isSaving}
+        aria-label="Editar mensaje"
+        autoFocus
+      />
+      <div className="message-edit-form__actions">
+        <button type="button" onClick={onCancel} disabled={isSaving}>
+          Cancelar
+        </button>
+        <button
+          type="submit"
+          className="message-edit-form__save"
+          disabled={isSaving || !trimmed}
+        >
+          {isSaving ? 'Guardando...' : 'Guardar'}
+        </button>
+      </div>
+    </form>
+  );
+}
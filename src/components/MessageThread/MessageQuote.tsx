@@ -0,0 +1,38 @@
+/**
+ * MessageQuote Component
+ * Excerpt of the original message shown above a reply; clicking it
+ * jumps to the original
+ */
+import './MessageThread.scss';
+
+interface MessageQuoteProps {
+  author: string | null;
+  excerpt: string | null;
+  onJump: () => void;
+}
+
+/**
+ * MessageQuote component
+ * @param author - Author of the original, or null when it isn't loaded
+ * @param excerpt - Start of the original text, or null when it isn't loaded
+ * @param onJump - Scroll to the original message
+ */
+export default function MessageQuote({ author, excerpt, onJump }: MessageQuoteProps) {
+  return (
+    <button
+      type="button"
+      className="message-quote"
+      onClick={onJump}
+      title="Ir al mensaje original"
+    >
+      {author && excerpt !== null ? (
+        <>
+          <span className="message-quote__author">{author}</span>
+          <span className="message-quote__text">{excerpt}</span>
+        </>
+      ) : (
+        <span className="message-quote__text">Respuesta a un mensaje anterior</span>
+      )}
+    </button>
+  );
+}
@@ -0,0 +1,85 @@
+/**
+ * MessageThread Component
+ * Reply count under a chat message and the collapsible thread of
+ * replies to it
+ */
+import type { ReactNode } from 'react';
+import './MessageThread.scss';
+
+export interface ThreadReply {
+  id: string;
+  author: string;
+  time: string;
+  edited?: boolean;
+  /** Text of the reply, or an editor while it is being edited */
+  body: ReactNode;
+  /** Options menu of the reply */
+  actions?: ReactNode;
+}
+
+interface MessageThreadProps {
+  replyCount: number;
+  replies: ThreadReply[];
+  isOpen: boolean;
+  onToggle: () => void;
+  onReply: () => void;
+}
+
+/**
+ * MessageThread component
+ * @param replyCount - All replies to the message, quoted and threaded
+ * @param replies - Thread replies, oldest first
+ * @param isOpen - Whether the thread is expanded
+ * @param onToggle - Expand or collapse the thread
+ * @param onReply - Start a new reply in the thread
+ */
+export default function MessageThread({
+  replyCount,
+  replies,
+  isOpen,
+  onToggle,
+  onReply,
+}: MessageThreadProps) {
+  if (replyCount === 0) return null;
+
+  const label = `${replyCount} ${replyCount === 1 ? 'respuesta' : 'respuestas'}`;
+
+  if (replies.length === 0) {
+    return <span className="message-thread__count">{label}</span>;
+  }
+
+  return (
+    <div className="message-thread">
+      <button
+        type="button"
+        className="message-thread__toggle"
+        onClick={onToggle}
+        aria-expanded={isOpen}
+      >
+        {isOpen ? 'Ocultar hilo' : label}
+      </button>
+      {isOpen && (
+        <>
+          <ol className="message-thread__list">
+            {replies.map((reply) => (
+              <li key={reply.id} id={`chat-message-${reply.id}`}>
+                <div className="message-thread__meta">
+                  <strong>{reply.author}</strong>
+                  <span>
+                    {reply.time}
+                    {reply.edited && ' (editado)'}
+                  </span>
+                  {reply.actions}
+                </div>
+                {reply.body}
+              </li>
+            ))}
+          </ol>
+          <button type="button" className="message-thread__reply" onClick={onReply}>
+            Responder en el hilo
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
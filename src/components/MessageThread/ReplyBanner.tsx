@@ -0,0 +1,61 @@
+/**
+ * ReplyBanner Component
+ * Shown above the chat input while replying: the message being answered
+ * and whether the reply is quoted or goes into a thread
+ */
+import type { ReplyMode } from '../../lib/chatThreads';
+import './MessageThread.scss';
+
+interface ReplyBannerProps {
+  author: string;
+  excerpt: string;
+  mode: ReplyMode;
+  onModeChange: (mode: ReplyMode) => void;
+  onCancel: () => void;
+}
+
+/**
+ * ReplyBanner component
+ * @param author - Author of the message being answered
+ * @param excerpt - Start of its text
+ * @param mode - Quoted reply or thread reply
+ * @param onModeChange - Switch between quoted and thread reply
+ * @param onCancel - Stop replying
+ */
+export default function ReplyBanner({
+  author,
+  excerpt,
+  mode,
+  onModeChange,
+  onCancel,
+}: ReplyBannerProps) {
+  return (
+    <div className="reply-banner" role="status">
+      <div className="reply-banner__info">
+        <span className="reply-banner__title">
+          {mode === 'thread' ? 'Respondiendo en el hilo de' : 'Respondiendo a'}{' '}
+          <strong>{author}</strong>
+        </span>
+        <span className="reply-banner__excerpt">{excerpt}</span>
+      </div>
+      <label className="reply-banner__mode">
+        <input
+          type="checkbox"
+          checked={mode === 'thread'}
+          onChange={(e) => onModeChange(e.target.checked ? 'thread' : 'quote')}
+        />
+        En hilo
+      </label>
+      <button
+        type="button"
+        className="reply-banner__cancel"
+        onClick={onCancel}
+        aria-label="Cancelar respuesta"
+      >
+        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M18 6L6 18M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+/**
+ * ParticipantModeration Component
+ * Host menu on a participant row: ask to unmute, mute, turn off camera,
+ * remove, and promote/demote co-hosts
+ */
+import { useEffect, useRef, useState } from 'react';
+import './ParticipantModeration.scss';
+
+export type ModerationAction = 'ask_unmute' | 'mute' | 'camera_off' | 'remove';
+
+interface ParticipantModerationProps {
+  name: string;
+  micOn: boolean;
+  cameraOn: boolean;
+  isCoHost?: boolean;
+  onAction: (action: ModerationAction) => void;
+  onToggleCoHost?: () => void;
+}
+
+/**
+ * ParticipantModeration component
+ * @param name - Participant display name (used in labels)
+ * @param micOn - Whether the participant's microphone is on
+ * @param cameraOn - Whether the participant's camera is on
+ * @param isCoHost - Whether the participant is a co-host
+ * @param onAction - Called with the action picked from the menu
+ * @param onToggleCoHost - Promote/demote the participant (creator only)
+ */
+export default function ParticipantModeration({
+  name,
+  micOn,
+  cameraOn,
+  isCoHost = false,
+  onAction,
+  onToggleCoHost,
+}: ParticipantModerationProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleEscape);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [isOpen]);
+
+  const pick = (action: ModerationAction) => {
+    setIsOpen(false);
+    onAction(action);
+  };
+
+  return (
+    <div className="participant-moderation" ref={containerRef}>
+      <button
+        type="button"
+        className="participant-moderation__toggle"
+        onClick={() => setIsOpen((prev) => !prev)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-label={`Opciones de moderación para ${name}`}
+        title="Moderar"
+      >
+        <svg viewBox="0 0 24 24" fill="currentColor">
+          <circle cx="12" cy="5" r="2" />
+          <circle cx="12" cy="12" r="2" />
+          <circle cx="12" cy="19" r="2" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <ul className="participant-moderation__menu" role="menu">
+          {micOn ? (
+            <li role="none">
+              <button type="button" role="menuitem" onClick={() => pick('mute')}>
+                Silenciar micrófono
+              </button>
+            </li>
+          ) : (
+            <li role="none">
+              <button
+                type="button"
+                role="menuitem"
+                onClick={() => pick('ask_unmute')}
+              >
+                Pedir que active el micrófono
+              </button>
+            </li>
+          )}
+          {cameraOn && (
+            <li role="none">
+              <button
+                type="button"
+                role="menuitem"
+                onClick={() => pick('camera_off')}
+              >
+                Apagar cámara
+              </button>
+            </li>
+          )}
+          {onToggleCoHost && (
+            <li role="none">
+              <button
+                type="button"
+                role="menuitem"
+                onClick={() => {
+                  setIsOpen(false);
+                  onToggleCoHost();
+                }}
+              >
+                {isCoHost ? 'Quitar como coanfitrión' : 'Hacer coanfitrión'}
+              </button>
+            </li>
+          )}
+          <li role="none">
+            <button
+              type="button"
+              role="menuitem"
+              className="danger"
+              onClick={() => pick('remove')}
+            >
+              Quitar de la reunión
+            </button>
+          </li>
+        </ul>
+      )}
+    </div>
+  );
+}
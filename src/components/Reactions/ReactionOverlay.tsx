@@ -0,0 +1,51 @@
+/**
+ * ReactionOverlay Component
+ * Floating emoji reactions drawn on top of a participant's video tile
+ */
+import { getReactionOption } from '../../lib/reactions';
+import './Reactions.scss';
+
+export interface ActiveReaction {
+  id: number;
+  userId: string;
+  emoji: string;
+}
+
+interface ReactionOverlayProps {
+  reactions: ActiveReaction[];
+  participantName: string;
+}
+
+/**
+ * ReactionOverlay component
+ * @param reactions - Reactions currently shown for this participant
+ * @param participantName - Name announced to screen readers
+ */
+export default function ReactionOverlay({
+  reactions,
+  participantName,
+}: ReactionOverlayProps) {
+  const latest = reactions[reactions.length - 1];
+
+  return (
+    <div className="reaction-overlay">
+      {reactions.map((reaction) => (
+        <span
+          key={reaction.id}
+          className="reaction-overlay__emoji"
+          // Spread reactions horizontally so bursts don't stack on each other
+          style={{ left: `${15 + ((reaction.id * 37) % 70)}%` }}
+          aria-hidden="true"
+        >
+          {reaction.emoji}
+        </span>
+      ))}
+      <span className="visually-hidden" aria-live="polite">
+        {latest &&
+          `${participantName} reaccionó: ${
+            getReactionOption(latest.emoji)?.label ?? latest.emoji
+          }`}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * ReactionPicker Component
+ * Row of emoji buttons shown above the meeting controls
+ */
+import { useEffect, useRef } from 'react';
+import { REACTIONS } from '../../lib/reactions';
+import './Reactions.scss';
+
+interface ReactionPickerProps {
+  onSelect: (emoji: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * ReactionPicker component
+ * @param onSelect - Callback with the chosen emoji
+ * @param onClose - Callback to close the picker (Escape key)
+ */
+export default function ReactionPicker({ onSelect, onClose }: ReactionPickerProps) {
+  const firstButtonRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    firstButtonRef.current?.focus();
+  }, []);
+
+  return (
+    <div
+      className="reaction-picker"
+      role="group"
+      aria-label="Reacciones"
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onClose();
+      }}
+    >
+      {REACTIONS.map((reaction, index) => (
+        <button
+          key={reaction.emoji}
+          ref={index === 0 ? firstButtonRef : undefined}
+          type="button"
+          className="reaction-picker__btn"
+          onClick={() => onSelect(reaction.emoji)}
+          aria-label={reaction.label}
+          title={reaction.label}
+        >
+          <span aria-hidden="true">{reaction.emoji}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
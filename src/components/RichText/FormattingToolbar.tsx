@@ -0,0 +1,85 @@
+/**
+ * FormattingToolbar Component
+ * Buttons that insert chat Markdown around the selected text of the
+ * message composer, and a toggle for the formatted preview
+ */
+import type { RefObject } from 'react';
+import { applyFormat, type FormatAction } from '../../lib/chatMarkdown';
+import './RichText.scss';
+
+interface FormattingToolbarProps {
+  inputRef: RefObject<HTMLTextAreaElement | null>;
+  value: string;
+  onChange: (value: string) => void;
+  isPreviewing: boolean;
+  onTogglePreview: () => void;
+  disabled?: boolean;
+}
+
+const ACTIONS: { action: FormatAction; label: string; icon: string }[] = [
+  { action: 'bold', label: 'Negrita', icon: 'B' },
+  { action: 'italic', label: 'Cursiva', icon: 'I' },
+  { action: 'code', label: 'Código', icon: '</>' },
+  { action: 'code_block', label: 'Bloque de código', icon: '{ }' },
+  { action: 'bullet_list', label: 'Lista', icon: '•' },
+  { action: 'numbered_list', label: 'Lista numerada', icon: '1.' },
+];
+
+/**
+ * FormattingToolbar component
+ * @param inputRef - The composer textarea, for its selection
+ * @param value - Current draft
+ * @param onChange - Called with the formatted draft
+ * @param isPreviewing - Whether the preview is shown
+ * @param onTogglePreview - Show or hide the preview
+ * @param disabled - Disables every button
+ */
+export default function FormattingToolbar({
+  inputRef,
+  value,
+  onChange,
+  isPreviewing,
+  onTogglePreview,
+  disabled = false,
+}: FormattingToolbarProps) {
+  const handleFormat = (action: FormatAction) => {
+    const input = inputRef.current;
+    const start = input?.selectionStart ?? value.length;
+    const end = input?.selectionEnd ?? value.length;
+    const draft = applyFormat(value, start, end, action);
+    onChange(draft.value);
+
+    // Restore focus and select the formatted text once React has rendered it
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(draft.selectionStart, draft.selectionEnd);
+    });
+  };
+
+  return (
+    <div className="formatting-toolbar" role="toolbar" aria-label="Formato del mensaje">
+      {ACTIONS.map(({ action, label, icon }) => (
+        <button
+          key={action}
+          type="button"
+          className={`formatting-toolbar__button formatting-toolbar__button--${action}`}
+          onClick={() => handleFormat(action)}
+          disabled={disabled}
+          aria-label={label}
+          title={label}
+        >
+          {icon}
+        </button>
+      ))}
+      <button
+        type="button"
+        className="formatting-toolbar__preview"
+        onClick={onTogglePreview}
+        disabled={disabled}
+        aria-pressed={isPreviewing}
+      >
+        {isPreviewing ? 'Editar' : 'Vista previa'}
+      </button>
+    </div>
+  );
+}
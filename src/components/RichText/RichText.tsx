@@ -0,0 +1,84 @@
+/**
+ * RichText Component
+ * Renders a chat message written in the chat Markdown subset. Text only
+ * ever becomes React text nodes, never HTML.
+ */
+import type { ReactNode } from 'react';
+import { parseMarkdown, type InlineNode } from '../../lib/chatMarkdown';
+import './RichText.scss';
+
+interface RichTextProps {
+  text: string;
+  className?: string;
+  currentUserId?: string;
+}
+
+const renderInline = (nodes: InlineNode[], currentUserId?: string): ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'bold':
+        return <strong key={index}>{renderInline(node.children, currentUserId)}</strong>;
+      case 'italic':
+        return <em key={index}>{renderInline(node.children, currentUserId)}</em>;
+      case 'code':
+        return <code key={index}>{node.text}</code>;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer">
+            {node.text}
+          </a>
+        );
+      case 'mention':
+        return (
+          <span
+            key={index}
+            className={`mention ${node.userId === currentUserId ? 'mention--self' : ''}`}
+          >
+            @{node.name}
+          </span>
+        );
+      case 'break':
+        return <br key={index} />;
+    }
+  });
+
+/**
+ * RichText component
+ * @param text - Raw message text
+ * @param className - Extra class for the wrapper
+ * @param currentUserId - Highlights mentions of this user more strongly
+ */
+export default function RichText({ text, className = '', currentUserId }: RichTextProps) {
+  return (
+    <div className={`rich-text ${className}`}>
+      {parseMarkdown(text).map((block, index) => {
+        switch (block.type) {
+          case 'paragraph':
+            return <p key={index}>{renderInline(block.children, currentUserId)}</p>;
+          case 'code_block':
+            return (
+              <pre key={index}>
+                <code data-language={block.language ?? undefined}>{block.text}</code>
+              </pre>
+            );
+          case 'list':
+            return block.ordered ? (
+              <ol key={index} start={block.start}>
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}>{renderInline(item, currentUserId)}</li>
+                ))}
+              </ol>
+            ) : (
+              <ul key={index}>
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}>{renderInline(item, currentUserId)}</li>
+                ))}
+              </ul>
+            );
+        }
+      })}
+    </div>
+  );
+}
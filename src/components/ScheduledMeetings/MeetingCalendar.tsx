@@ -0,0 +1,156 @@
+/**
+ * MeetingCalendar Component
+ * Week and month grid of scheduled meetings with navigation between
+ * periods
+ */
+import {
+  getMeetingsOnDay,
+  getMonthWeeks,
+  getScheduledStart,
+  getWeekDays,
+  isSameDay,
+  shiftCalendarDate,
+  type CalendarView,
+} from '../../lib/schedule';
+import type { ScheduledMeeting } from '../../lib/recurrence';
+import './ScheduledMeetings.scss';
+
+interface MeetingCalendarProps {
+  rooms: ScheduledMeeting[];
+  view: CalendarView;
+  date: Date;
+  today: Date;
+  isLoading: boolean;
+  onViewChange: (view: CalendarView) => void;
+  onDateChange: (date: Date) => void;
+  onSelectMeeting: (room: ScheduledMeeting) => void;
+}
+
+const WEEKDAY_LABELS = ['Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb', 'Dom'];
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * MeetingCalendar component
+ * @param rooms - Scheduled meetings and occurrences inside the visible period
+ * @param view - Week or month layout
+ * @param date - Any day inside the visible period
+ * @param today - Current day, highlighted in the grid
+ * @param isLoading - Whether meetings for the period are being fetched
+ * @param onViewChange - Switch between week and month
+ * @param onDateChange - Move to another period
+ * @param onSelectMeeting - Called when a meeting is clicked
+ */
+export default function MeetingCalendar({
+  rooms,
+  view,
+  date,
+  today,
+  isLoading,
+  onViewChange,
+  onDateChange,
+  onSelectMeeting,
+}: MeetingCalendarProps) {
+  const weeks = view === 'week' ? [getWeekDays(date)] : getMonthWeeks(date);
+
+  const title =
+    view === 'week'
+      ? `Semana del ${weeks[0][0].toLocaleDateString('es-ES', {
+          day: 'numeric',
+          month: 'long',
+        })}`
+      : date.toLocaleDateString('es-ES', { month: 'long', year: 'numeric' });
+
+  const renderDay = (day: Date) => {
+    const meetings = getMeetingsOnDay(rooms, day);
+    const classes = ['meeting-calendar__day'];
+    if (isSameDay(day, today)) classes.push('meeting-calendar__day--today');
+    if (view === 'month' && day.getMonth() !== date.getMonth()) {
+      classes.push('meeting-calendar__day--outside');
+    }
+
+    return (
+      <li key={day.toISOString()} className={classes.join(' ')}>
+        <span className="meeting-calendar__day-number">
+          {view === 'week'
+            ? day.toLocaleDateString('es-ES', { weekday: 'short', day: 'numeric' })
+            : day.getDate()}
+        </span>
+        <ul className="meeting-calendar__events">
+          {meetings.map((room) => (
+            <li key={`${room.id}:${room.occurrenceId ?? ''}`}>
+              <button
+                type="button"
+                className="meeting-calendar__event"
+                onClick={() => onSelectMeeting(room)}
+                title={room.name}
+              >
+                <strong>{formatTime(getScheduledStart(room)!)}</strong>{' '}
+                {room.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </li>
+    );
+  };
+
+  return (
+    <div className="meeting-calendar" aria-busy={isLoading}>
+      <div className="meeting-calendar__toolbar">
+        <div className="meeting-calendar__nav">
+          <button
+            type="button"
+            onClick={() => onDateChange(shiftCalendarDate(view, date, -1))}
+            aria-label={view === 'week' ? 'Semana anterior' : 'Mes anterior'}
+          >
+            ‹
+          </button>
+          <button type="button" onClick={() => onDateChange(today)}>
+            Hoy
+          </button>
+          <button
+            type="button"
+            onClick={() => onDateChange(shiftCalendarDate(view, date, 1))}
+            aria-label={view === 'week' ? 'Semana siguiente' : 'Mes siguiente'}
+          >
+            ›
+          </button>
+        </div>
+        <h3 className="meeting-calendar__title">{title}</h3>
+        <div className="meeting-calendar__views" role="group" aria-label="Vista del calendario">
+          <button
+            type="button"
+            aria-pressed={view === 'week'}
+            onClick={() => onViewChange('week')}
+          >
+            Semana
+          </button>
+          <button
+            type="button"
+            aria-pressed={view === 'month'}
+            onClick={() => onViewChange('month')}
+          >
+            Mes
+          </button>
+        </div>
+      </div>
+
+      <ul className="meeting-calendar__weekdays" aria-hidden="true">
+        {WEEKDAY_LABELS.map((label) => (
+          <li key={label}>{label}</li>
+        ))}
+      </ul>
+
+      {weeks.map((week) => (
+        <ul
+          key={week[0].toISOString()}
+          className={`meeting-calendar__week meeting-calendar__week--${view}`}
+        >
+          {week.map(renderDay)}
+        </ul>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+/**
+ * RecurrenceFields Component
+ * "Repeat" controls of the schedule form: frequency, interval, weekdays
+ * and when the series ends
+ */
+import {
+  WEEKDAY_CODES,
+  WEEKDAY_NAMES,
+  describeRecurrence,
+  getWeekdayCode,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+} from '../../lib/recurrence';
+import { toDateInputValue } from '../../lib/schedule';
+import './ScheduledMeetings.scss';
+
+interface RecurrenceFieldsProps {
+  rule: RecurrenceRule | null;
+  firstStart: Date | null;
+  disabled: boolean;
+  onChange: (rule: RecurrenceRule | null) => void;
+}
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'día(s)',
+  WEEKLY: 'semana(s)',
+  MONTHLY: 'mes(es)',
+};
+
+/**
+ * RecurrenceFields component
+ * @param rule - Current rule, or null for a one-off meeting
+ * @param firstStart - Start of the first occurrence, for defaults and summary
+ * @param disabled - Disables every control
+ * @param onChange - Called with the new rule (null to stop repeating)
+ */
+export default function RecurrenceFields({
+  rule,
+  firstStart,
+  disabled,
+  onChange,
+}: RecurrenceFieldsProps) {
+  const endMode = rule?.until ? 'until' : rule?.count ? 'count' : 'never';
+
+  const handleFrequencyChange = (value: string) => {
+    if (!value) {
+      onChange(null);
+      return;
+    }
+    const freq = value as RecurrenceFrequency;
+    onChange({
+      freq,
+      interval: rule?.interval || 1,
+      byDay:
+        freq === 'WEEKLY' && firstStart ? [getWeekdayCode(firstStart)] : undefined,
+      until: rule?.until ?? null,
+      count: rule?.count ?? null,
+    });
+  };
+
+  const toggleDay = (code: (typeof WEEKDAY_CODES)[number]) => {
+    if (!rule) return;
+    const days = rule.byDay || [];
+    const next = days.includes(code)
+      ? days.filter((day) => day !== code)
+      : [...days, code];
+    // A weekly series needs at least one day
+    if (next.length === 0) return;
+    onChange({ ...rule, byDay: next });
+  };
+
+  const handleEndModeChange = (mode: string) => {
+    if (!rule) return;
+    if (mode === 'until') {
+      const until = new Date(firstStart ?? new Date());
+      until.setMonth(until.getMonth() + 3);
+      until.setHours(23, 59, 59, 0);
+      onChange({ ...rule, until, count: null });
+    } else if (mode === 'count') {
+      onChange({ ...rule, until: null, count: 10 });
+    } else {
+      onChange({ ...rule, until: null, count: null });
+    }
+  };
+
+  return (
+    <fieldset className="recurrence-fields" disabled={disabled}>
+      <legend>Repetir</legend>
+
+      <div className="recurrence-fields__row">
+        <select
+          aria-label="Frecuencia"
+          value={rule?.freq || ''}
+          onChange={(e) => handleFrequencyChange(e.target.value)}
+        >
+          <option value="">No se repite</option>
+          <option value="DAILY">Diariamente</option>
+          <option value="WEEKLY">Semanalmente</option>
+          <option value="MONTHLY">Mensualmente</option>
+        </select>
+
+        {rule && (
+          <label className="recurrence-fields__interval">
+            cada
+            <input
+              type="number"
+              min={1}
+              max={30}
+              value={rule.interval}
+              onChange={(e) =>
+                onChange({
+                  ...rule,
+                  interval: Math.min(30, Math.max(1, Number(e.target.value) || 1)),
+                })
+              }
+            />
+            {FREQUENCY_UNITS[rule.freq]}
+          </label>
+        )}
+      </div>
+
+      {rule?.freq === 'WEEKLY' && (
+        <div className="recurrence-fields__days" role="group" aria-label="Días de la semana">
+          {WEEKDAY_CODES.map((code) => (
+            <button
+              key={code}
+              type="button"
+              aria-pressed={!!rule.byDay?.includes(code)}
+              aria-label={WEEKDAY_NAMES[code]}
+              onClick={() => toggleDay(code)}
+            >
+              {WEEKDAY_NAMES[code][0].toUpperCase()}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {rule && (
+        <div className="recurrence-fields__row">
+          <select
+            aria-label="Fin de la serie"
+            value={endMode}
+            onChange={(e) => handleEndModeChange(e.target.value)}
+          >
+            <option value="never">Sin fecha de fin</option>
+            <option value="until">Hasta el</option>
+            <option value="count">Después de</option>
+          </select>
+
+          {endMode === 'until' && rule.until && (
+            <input
+              type="date"
+              aria-label="Última fecha"
+              value={toDateInputValue(rule.until)}
+              min={firstStart ? toDateInputValue(firstStart) : undefined}
+              onChange={(e) => {
+                const [year, month, day] = e.target.value.split('-').map(Number);
+                if (!year) return;
+                onChange({ ...rule, until: new Date(year, month - 1, day, 23, 59, 59) });
+              }}
+            />
+          )}
+
+          {endMode === 'count' && (
+            <label className="recurrence-fields__interval">
+              <input
+                type="number"
+                min={2}
+                max={365}
+                value={rule.count ?? 10}
+                onChange={(e) =>
+                  onChange({
+                    ...rule,
+                    count: Math.min(365, Math.max(2, Number(e.target.value) || 2)),
+                  })
+                }
+              />
+              reuniones
+            </label>
+          )}
+        </div>
+      )}
+
+      {rule && (
+        <p className="recurrence-fields__summary">
+          {describeRecurrence(rule, firstStart)}
+        </p>
+      )}
+    </fieldset>
+  );
+}
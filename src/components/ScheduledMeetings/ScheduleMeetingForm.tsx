@@ -0,0 +1,255 @@
+/**
+ * ScheduleMeetingForm Component
+ * Form to plan a meeting for a later date: title, day, start time,
+ * duration, optional password, privacy and repetition. Also used to edit
+ * a scheduled meeting, a whole recurring series or a single occurrence.
+ */
+import { useState, type FormEvent } from 'react';
+import {
+  DEFAULT_DURATION_MINUTES,
+  DURATION_OPTIONS,
+  combineDateAndTime,
+  formatTimeUntil,
+  toDateInputValue,
+} from '../../lib/schedule';
+import {
+  formatRecurrenceRule,
+  parseRecurrenceRule,
+  type RecurrenceRule,
+} from '../../lib/recurrence';
+import RecurrenceFields from './RecurrenceFields';
+import './ScheduledMeetings.scss';
+
+export interface ScheduleMeetingData {
+  name: string;
+  startsAt: Date;
+  durationMinutes: number;
+  password: string;
+  isPrivate: boolean;
+  recurrence: string | null;
+}
+
+/**
+ * What the form creates or edits. Occurrences only change title, time
+ * and duration; the password can only be set when creating.
+ */
+export type ScheduleFormMode = 'create' | 'series' | 'occurrence';
+
+interface ScheduleMeetingFormProps {
+  defaultName: string;
+  mode?: ScheduleFormMode;
+  initialValues?: Partial<Omit<ScheduleMeetingData, 'password'>>;
+  isSubmitting: boolean;
+  onSubmit: (data: ScheduleMeetingData) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Date and time input values for the next full hour
+ */
+function nextFullHour(): Date {
+  const start = new Date();
+  start.setHours(start.getHours() + 1, 0, 0, 0);
+  return start;
+}
+
+/**
+ * Value for an `<input type="time">` showing the given time
+ */
+function toTimeInputValue(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(
+    date.getMinutes()
+  ).padStart(2, '0')}`;
+}
+
+/**
+ * ScheduleMeetingForm component
+ * @param defaultName - Title suggested for the meeting
+ * @param mode - Create a meeting, or edit a series/meeting or one occurrence
+ * @param initialValues - Current values when editing
+ * @param isSubmitting - Disables the form while the meeting is being created
+ * @param onSubmit - Called with the validated meeting data
+ * @param onCancel - Close the form without scheduling
+ */
+export default function ScheduleMeetingForm({
+  defaultName,
+  mode = 'create',
+  initialValues,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}: ScheduleMeetingFormProps) {
+  const [initialStart] = useState(() => initialValues?.startsAt ?? nextFullHour());
+  const [name, setName] = useState(initialValues?.name ?? defaultName);
+  const [date, setDate] = useState(toDateInputValue(initialStart));
+  const [time, setTime] = useState(toTimeInputValue(initialStart));
+  const [durationMinutes, setDurationMinutes] = useState(
+    initialValues?.durationMinutes ?? DEFAULT_DURATION_MINUTES
+  );
+  const [password, setPassword] = useState('');
+  const [isPrivate, setIsPrivate] = useState(initialValues?.isPrivate ?? false);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(() =>
+    parseRecurrenceRule(initialValues?.recurrence)
+  );
+  const [error, setError] = useState('');
+
+  const startsAt = combineDateAndTime(date, time);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      setError('Escribe un título para la reunión');
+      return;
+    }
+
+    if (!startsAt) {
+      setError('Elige una fecha y una hora válidas');
+      return;
+    }
+
+    // A series that already started may keep its original first date
+    const startChanged = startsAt.getTime() !== initialStart.getTime();
+    if ((mode !== 'series' || startChanged) && startsAt.getTime() <= Date.now()) {
+      setError('La reunión debe programarse en el futuro');
+      return;
+    }
+
+    if (recurrence?.until && recurrence.until < startsAt) {
+      setError('La serie debe terminar después de la primera reunión');
+      return;
+    }
+
+    setError('');
+    onSubmit({
+      name: name.trim(),
+      startsAt,
+      durationMinutes,
+      password: password.trim(),
+      isPrivate,
+      recurrence:
+        mode === 'occurrence' || !recurrence ? null : formatRecurrenceRule(recurrence),
+    });
+  };
+
+  return (
+    <form className="schedule-form" onSubmit={handleSubmit} noValidate>
+      <label htmlFor="schedule-name">Título</label>
+      <input
+        id="schedule-name"
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        maxLength={100}
+        disabled={isSubmitting}
+        required
+      />
+
+      <div className="schedule-form__row">
+        <div>
+          <label htmlFor="schedule-date">Fecha</label>
+          <input
+            id="schedule-date"
+            type="date"
+            value={date}
+            min={mode === 'series' ? undefined : toDateInputValue(new Date())}
+            onChange={(e) => setDate(e.target.value)}
+            disabled={isSubmitting}
+            required
+          />
+        </div>
+        <div>
+          <label htmlFor="schedule-time">Hora</label>
+          <input
+            id="schedule-time"
+            type="time"
+            value={time}
+            onChange={(e) => setTime(e.target.value)}
+            disabled={isSubmitting}
+            required
+          />
+        </div>
+        <div>
+          <label htmlFor="schedule-duration">Duración</label>
+          <select
+            id="schedule-duration"
+            value={durationMinutes}
+            onChange={(e) => setDurationMinutes(Number(e.target.value))}
+            disabled={isSubmitting}
+          >
+            {DURATION_OPTIONS.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {formatTimeUntil(minutes * 60 * 1000)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {mode !== 'occurrence' && (
+        <RecurrenceFields
+          rule={recurrence}
+          firstStart={startsAt}
+          disabled={isSubmitting}
+          onChange={setRecurrence}
+        />
+      )}
+
+      {mode === 'create' && (
+        <>
+          <label htmlFor="schedule-password">Contraseña (opcional)</label>
+          <input
+            id="schedule-password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="new-password"
+            disabled={isSubmitting}
+          />
+        </>
+      )}
+
+      {mode !== 'occurrence' && (
+        <label className="schedule-form__checkbox">
+          <input
+            type="checkbox"
+            checked={isPrivate}
+            onChange={(e) => setIsPrivate(e.target.checked)}
+            disabled={isSubmitting}
+          />
+          Reunión privada (solo con invitación)
+        </label>
+      )}
+
+      {error && (
+        <p className="schedule-form__error" role="alert">
+          {error}
+        </p>
+      )}
+
+      <div className="schedule-form__actions">
+        <button
+          type="button"
+          className="schedule-form__secondary"
+          onClick={onCancel}
+          disabled={isSubmitting}
+        >
+          Cancelar
+        </button>
+        <button
+          type="submit"
+          className="schedule-form__primary"
+          disabled={isSubmitting}
+        >
+          {mode === 'create'
+            ? isSubmitting
+              ? 'Programando...'
+              : 'Programar reunión'
+            : isSubmitting
+              ? 'Guardando...'
+              : 'Guardar cambios'}
+        </button>
+      </div>
+    </form>
+  );
+}
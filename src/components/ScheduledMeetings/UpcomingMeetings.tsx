@@ -0,0 +1,166 @@
+/**
+ * UpcomingMeetings Component
+ * List of the next scheduled meetings with a countdown, join,
+ * copy-link and calendar invite actions. Organizers can also edit or
+ * cancel their meetings; recurring series show one item per occurrence.
+ */
+import {
+  DEFAULT_DURATION_MINUTES,
+  formatTimeUntil,
+  getScheduledEnd,
+  getScheduledStart,
+  isTooEarlyToJoin,
+} from '../../lib/schedule';
+import {
+  describeRecurrence,
+  getSeriesTimeZone,
+  parseRecurrenceRule,
+  type ScheduledMeeting,
+} from '../../lib/recurrence';
+import './ScheduledMeetings.scss';
+
+interface UpcomingMeetingsProps {
+  rooms: ScheduledMeeting[];
+  now: number;
+  currentUserId?: string;
+  onJoin: (room: ScheduledMeeting) => void;
+  onCopyLink: (room: ScheduledMeeting) => void;
+  onDownloadInvite: (room: ScheduledMeeting) => void;
+  onEdit: (room: ScheduledMeeting) => void;
+  onCancel: (room: ScheduledMeeting) => void;
+}
+
+/**
+ * UpcomingMeetings component
+ * @param rooms - Scheduled meetings that have not finished yet
+ * @param now - Current time in epoch milliseconds
+ * @param currentUserId - Logged in user, who may start their own meetings early
+ * @param onJoin - Open the lobby of a meeting
+ * @param onCopyLink - Copy the invitation link of a meeting
+ * @param onDownloadInvite - Download the meeting as an `.ics` invite
+ * @param onEdit - Change a meeting (organizer only)
+ * @param onCancel - Cancel a meeting (organizer only)
+ */
+export default function UpcomingMeetings({
+  rooms,
+  now,
+  currentUserId,
+  onJoin,
+  onCopyLink,
+  onDownloadInvite,
+  onEdit,
+  onCancel,
+}: UpcomingMeetingsProps) {
+  if (rooms.length === 0) {
+    return (
+      <div className="upcoming-meetings__empty">
+        <p>No tienes reuniones programadas.</p>
+        <p>Usa «Programar» para agendar tu próxima reunión</p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="upcoming-meetings">
+      {rooms.map((room) => {
+        const start = getScheduledStart(room)!;
+        const end = getScheduledEnd(room)!;
+        const isOwner = String(room.creatorId) === String(currentUserId);
+        const inProgress = start.getTime() <= now && now < end.getTime();
+        const canJoin = isOwner || !isTooEarlyToJoin(room, now);
+        const rule = room.series ? parseRecurrenceRule(room.series.recurrence) : null;
+
+        return (
+          <li
+            key={`${room.id}:${room.occurrenceId ?? ''}`}
+            className="upcoming-meetings__item"
+          >
+            <div className="upcoming-meetings__info">
+              <h3>{room.name}</h3>
+              <span>
+                {start.toLocaleDateString('es-ES', {
+                  weekday: 'long',
+                  day: 'numeric',
+                  month: 'long',
+                })}
+                {' · '}
+                {start.toLocaleTimeString('es-ES', {
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+                {' · '}
+                {formatTimeUntil(
+                  (room.durationMinutes || DEFAULT_DURATION_MINUTES) * 60 * 1000
+                )}
+              </span>
+              <span className="upcoming-meetings__status">
+                {inProgress
+                  ? 'En curso'
+                  : `Empieza en ${formatTimeUntil(start.getTime() - now)}`}
+                {room.private && ' · Privada'}
+                {room.hasPassword && ' · Con contraseña'}
+              </span>
+              {rule && (
+                <span className="upcoming-meetings__recurrence">
+                  {describeRecurrence(
+                    rule,
+                    getScheduledStart(room.series!),
+                    getSeriesTimeZone(room.series!)
+                  )}
+                </span>
+              )}
+            </div>
+            <div className="upcoming-meetings__actions">
+              {isOwner && (
+                <>
+                  <button
+                    type="button"
+                    className="upcoming-meetings__secondary"
+                    onClick={() => onEdit(room)}
+                  >
+                    Editar
+                  </button>
+                  <button
+                    type="button"
+                    className="upcoming-meetings__danger"
+                    onClick={() => onCancel(room)}
+                  >
+                    Cancelar
+                  </button>
+                </>
+              )}
+              <button
+                type="button"
+                className="upcoming-meetings__secondary"
+                onClick={() => onDownloadInvite(room)}
+                title="Descargar invitación (.ics) para Outlook o Google Calendar"
+              >
+                Añadir al calendario
+              </button>
+              <button
+                type="button"
+                className="upcoming-meetings__secondary"
+                onClick={() => onCopyLink(room)}
+              >
+                Copiar enlace
+              </button>
+              <button
+                type="button"
+                className="upcoming-meetings__primary"
+                onClick={() => onJoin(room)}
+                disabled={!canJoin}
+                title={
+                  canJoin
+                    ? undefined
+                    : 'Podrás entrar unos minutos antes de la hora de inicio'
+                }
+              >
+                {isOwner && !inProgress ? 'Iniciar' : 'Unirse'}
+              </button>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
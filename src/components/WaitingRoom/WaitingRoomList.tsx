@@ -0,0 +1,74 @@
+/**
+ * WaitingRoomList Component
+ * People waiting to be let into the meeting, with admit/deny controls for hosts
+ */
+import './WaitingRoomList.scss';
+
+export interface WaitingUser {
+  userId: string;
+  name: string;
+  requestedAt: number;
+}
+
+interface WaitingRoomListProps {
+  users: WaitingUser[];
+  onAdmit: (userId: string) => void;
+  onDeny: (userId: string) => void;
+  onAdmitAll: () => void;
+}
+
+/**
+ * WaitingRoomList component
+ * @param users - Waiting users, oldest request first
+ * @param onAdmit - Let a single user in
+ * @param onDeny - Turn a single user away
+ * @param onAdmitAll - Let everyone in
+ */
+export default function WaitingRoomList({
+  users,
+  onAdmit,
+  onDeny,
+  onAdmitAll,
+}: WaitingRoomListProps) {
+  if (users.length === 0) return null;
+
+  return (
+    <section className="waiting-room" aria-labelledby="waiting-room-title">
+      <div className="waiting-room__header">
+        <h3 id="waiting-room-title">En espera ({users.length})</h3>
+        {users.length > 1 && (
+          <button
+            type="button"
+            className="waiting-room__admit-all"
+            onClick={onAdmitAll}
+          >
+            Admitir a todos
+          </button>
+        )}
+      </div>
+      <ul className="waiting-room__list">
+        {users.map((waiting) => (
+          <li key={waiting.userId} className="waiting-room__item">
+            <span className="waiting-room__name">{waiting.name}</span>
+            <button
+              type="button"
+              className="waiting-room__deny"
+              onClick={() => onDeny(waiting.userId)}
+              aria-label={`Rechazar a ${waiting.name}`}
+            >
+              Rechazar
+            </button>
+            <button
+              type="button"
+              className="waiting-room__admit"
+              onClick={() => onAdmit(waiting.userId)}
+              aria-label={`Admitir a ${waiting.name}`}
+            >
+              Admitir
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,17 @@
+/**
+ * useAudioLevel Hook
+ * Live audio level (0-1) of a media stream's microphone track
+ */
+import { useEffect, useState } from 'react';
+import { createAudioLevelMonitor } from '../lib/audioLevel';
+
+export function useAudioLevel(stream: MediaStream | null): number {
+  const [level, setLevel] = useState(0);
+
+  useEffect(() => {
+    if (!stream || stream.getAudioTracks().length === 0) return;
+    return createAudioLevelMonitor(stream, setLevel);
+  }, [stream]);
+
+  return stream && stream.getAudioTracks().length > 0 ? level : 0;
+}
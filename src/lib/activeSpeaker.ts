@@ -0,0 +1,231 @@
+/**
+ * Active Speaker Detection
+ *
+ * Watches the audio level of every participant and reports who is talking
+ * and who the dominant speaker is. Both states use hysteresis so the UI
+ * does not flicker on short pauses or overlapping voices:
+ * - a participant stays "speaking" for a moment after their level drops
+ * - another participant only becomes dominant after being the loudest
+ *   speaker for a while
+ */
+
+import { createAudioLevelMonitor } from "./audioLevel";
+
+/**
+ * Level (0-1) above which a participant counts as speaking
+ */
+const SPEAKING_THRESHOLD = 0.12;
+
+/**
+ * Time a participant keeps the speaking state after going quiet
+ */
+const SPEAKING_HOLD_MS = 600;
+
+/**
+ * Time a participant must be the loudest speaker before taking over
+ * as dominant speaker
+ */
+const DOMINANT_SWITCH_MS = 1500;
+
+/**
+ * Weight of the previous level when smoothing readings
+ */
+const LEVEL_SMOOTHING = 0.6;
+
+/**
+ * Time between two level readings / evaluations
+ */
+const EVALUATE_INTERVAL_MS = 100;
+
+/**
+ * Speaking state reported to the UI
+ */
+export interface ActiveSpeakerState {
+  speakingIds: string[];
+  dominantSpeakerId: string | null;
+}
+
+/**
+ * Audio level bookkeeping for one participant
+ */
+interface MonitoredSpeaker {
+  trackId: string;
+  canBeDominant: boolean;
+  level: number;
+  lastSpokeAt: number;
+  stop: () => void;
+}
+
+/**
+ * Active Speaker Detector class
+ * Monitors one audio track per participant through a shared AudioContext
+ */
+class ActiveSpeakerDetector {
+  private audioContext: AudioContext | null = null;
+  private speakers: Map<string, MonitoredSpeaker> = new Map();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private state: ActiveSpeakerState = {
+    speakingIds: [],
+    dominantSpeakerId: null,
+  };
+  private candidateId: string | null = null;
+  private candidateSince = 0;
+  private onChange: (state: ActiveSpeakerState) => void;
+
+  /**
+   * @param onChange - Called whenever the speaking set or the dominant
+   *                   speaker changes
+   */
+  constructor(onChange: (state: ActiveSpeakerState) => void) {
+    this.onChange = onChange;
+  }
+
+  /**
+   * Start (or keep) monitoring a participant's audio
+   *
+   * Calling this again with the same audio track is a no-op, so it is safe
+   * to call every time a stream is updated.
+   *
+   * @param userId - The participant the stream belongs to
+   * @param stream - Stream carrying the participant's microphone
+   * @param canBeDominant - Whether the participant may become dominant
+   *                        speaker (false for the local user)
+   */
+  track(
+    userId: string,
+    stream: MediaStream | null,
+    canBeDominant: boolean = true
+  ): void {
+    const audioTrack = stream?.getAudioTracks()[0];
+    if (!audioTrack) return;
+
+    const current = this.speakers.get(userId);
+    if (current?.trackId === audioTrack.id) return;
+    current?.stop();
+
+    if (!this.audioContext) {
+      this.audioContext = new AudioContext();
+    }
+    // Contexts created before a user gesture start suspended
+    if (this.audioContext.state === "suspended") {
+      this.audioContext.resume().catch(() => {
+        // Resumed on the next gesture
+      });
+    }
+
+    const speaker: MonitoredSpeaker = {
+      trackId: audioTrack.id,
+      canBeDominant,
+      level: 0,
+      lastSpokeAt: 0,
+      stop: () => {},
+    };
+
+    try {
+      speaker.stop = createAudioLevelMonitor(
+        new MediaStream([audioTrack]),
+        (level) => {
+          speaker.level =
+            speaker.level * LEVEL_SMOOTHING + level * (1 - LEVEL_SMOOTHING);
+        },
+        EVALUATE_INTERVAL_MS,
+        this.audioContext
+      );
+    } catch (error) {
+      console.warn(`[SPEAKER] ⚠️ Could not monitor audio for ${userId}:`, error);
+      this.speakers.delete(userId);
+      return;
+    }
+
+    this.speakers.set(userId, speaker);
+
+    if (!this.timer) {
+      this.timer = setInterval(() => this.evaluate(), EVALUATE_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Stop monitoring a participant (e.g. when they leave)
+   *
+   * @param userId - The participant to forget
+   */
+  untrack(userId: string): void {
+    const speaker = this.speakers.get(userId);
+    if (!speaker) return;
+
+    speaker.stop();
+    this.speakers.delete(userId);
+    this.evaluate();
+  }
+
+  /**
+   * Stop every monitor and release the audio context
+   */
+  dispose(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.speakers.forEach((speaker) => speaker.stop());
+    this.speakers.clear();
+    this.audioContext?.close().catch(() => {
+      // Already closed
+    });
+    this.audioContext = null;
+  }
+
+  /**
+   * Update the speaking set and dominant speaker from the latest levels
+   */
+  private evaluate(): void {
+    const now = Date.now();
+    const speakingIds: string[] = [];
+    let loudestId: string | null = null;
+    let loudestLevel = 0;
+
+    for (const [userId, speaker] of this.speakers) {
+      if (speaker.level >= SPEAKING_THRESHOLD) {
+        speaker.lastSpokeAt = now;
+      }
+      if (!speaker.lastSpokeAt || now - speaker.lastSpokeAt > SPEAKING_HOLD_MS) {
+        continue;
+      }
+
+      speakingIds.push(userId);
+      if (speaker.canBeDominant && speaker.level > loudestLevel) {
+        loudestLevel = speaker.level;
+        loudestId = userId;
+      }
+    }
+
+    let dominantSpeakerId = this.state.dominantSpeakerId;
+    if (dominantSpeakerId && !this.speakers.has(dominantSpeakerId)) {
+      dominantSpeakerId = null;
+    }
+
+    if (loudestId && loudestId !== dominantSpeakerId) {
+      if (this.candidateId !== loudestId) {
+        this.candidateId = loudestId;
+        this.candidateSince = now;
+      }
+      // Take over right away when there is no dominant speaker yet
+      if (!dominantSpeakerId || now - this.candidateSince >= DOMINANT_SWITCH_MS) {
+        dominantSpeakerId = loudestId;
+        this.candidateId = null;
+      }
+    } else {
+      this.candidateId = null;
+    }
+
+    const speakingChanged =
+      speakingIds.length !== this.state.speakingIds.length ||
+      speakingIds.some((id) => !this.state.speakingIds.includes(id));
+
+    if (speakingChanged || dominantSpeakerId !== this.state.dominantSpeakerId) {
+      this.state = { speakingIds, dominantSpeakerId };
+      this.onChange(this.state);
+    }
+  }
+}
+
+export { ActiveSpeakerDetector };
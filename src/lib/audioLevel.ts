@@ -0,0 +1,64 @@
+/**
+ * Audio Level Monitoring
+ *
+ * Measures the loudness of a stream's audio track with a Web Audio
+ * `AnalyserNode`. Used for the microphone meter in the pre-join lobby and
+ * for active speaker detection in meetings.
+ */
+
+/**
+ * Default time between two level readings
+ */
+const LEVEL_INTERVAL_MS = 100;
+
+/**
+ * RMS value that is shown as a full meter. Speech rarely goes above this,
+ * so scaling by it makes normal talking fill most of the meter.
+ */
+const FULL_SCALE_RMS = 0.25;
+
+/**
+ * Start measuring the audio level of a stream
+ *
+ * @param stream - Stream with at least one audio track
+ * @param onLevel - Called on every reading with a level between 0 and 1
+ * @param intervalMs - Time between two readings
+ * @param sharedContext - Audio context to reuse when monitoring several
+ *                        streams. It is left open when the monitor stops.
+ * @returns Function that stops the monitor (and closes its own context)
+ */
+export function createAudioLevelMonitor(
+  stream: MediaStream,
+  onLevel: (level: number) => void,
+  intervalMs: number = LEVEL_INTERVAL_MS,
+  sharedContext?: AudioContext
+): () => void {
+  const audioContext = sharedContext ?? new AudioContext();
+  const source = audioContext.createMediaStreamSource(stream);
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 512;
+  analyser.smoothingTimeConstant = 0.3;
+  source.connect(analyser);
+
+  const samples = new Float32Array(analyser.fftSize);
+
+  const timer = setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (const sample of samples) {
+      sum += sample * sample;
+    }
+    const rms = Math.sqrt(sum / samples.length);
+    onLevel(Math.min(rms / FULL_SCALE_RMS, 1));
+  }, intervalMs);
+
+  return () => {
+    clearInterval(timer);
+    source.disconnect();
+    if (!sharedContext) {
+      audioContext.close().catch(() => {
+        // Already closed
+      });
+    }
+  };
+}
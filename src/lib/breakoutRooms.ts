@@ -0,0 +1,62 @@
+/**
+ * Breakout Rooms
+ *
+ * Helpers for splitting a meeting into child rooms (`Room.parentRoomId`):
+ * which child rooms are still open and how participants are spread over
+ * them. Moving people around is driven by the host over the chat socket.
+ */
+
+import type { Room } from "../services/room.service";
+
+/**
+ * Most breakout rooms a host can open at once
+ */
+export const MAX_BREAKOUT_ROOMS = 20;
+
+/**
+ * Countdown options (seconds) offered when calling everyone back
+ */
+export const BREAKOUT_CALLBACK_OPTIONS = [10, 30, 60, 120];
+
+/**
+ * Breakout room assigned to each participant (user ID -> room ID)
+ */
+export type BreakoutAssignments = Record<string, string>;
+
+/**
+ * Get the breakout rooms of a meeting that have not been closed
+ *
+ * @param room - The parent meeting
+ */
+export function getOpenBreakoutRooms(room: Room): Room[] {
+  return (room.subRooms ?? []).filter(
+    (subRoom) => !subRoom.endedAt && !subRoom.deletedAt
+  );
+}
+
+/**
+ * Spread participants evenly over the rooms in random order
+ *
+ * @param userIds - Participants to assign
+ * @param roomIds - Breakout rooms to fill
+ * @returns The room chosen for every participant
+ */
+export function assignRandomly(
+  userIds: string[],
+  roomIds: string[]
+): BreakoutAssignments {
+  if (roomIds.length === 0) return {};
+
+  // Fisher–Yates shuffle, then deal participants out round-robin
+  const shuffled = [...userIds];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  const assignments: BreakoutAssignments = {};
+  shuffled.forEach((userId, index) => {
+    assignments[userId] = roomIds[index % roomIds.length];
+  });
+  return assignments;
+}
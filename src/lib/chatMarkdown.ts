@@ -0,0 +1,341 @@
+/**
+ * Chat Markdown
+ *
+ * A small Markdown subset for chat messages: **bold**, *italic*,
+ * `inline code`, ``` code blocks ```, "-" and "1." lists, auto-linked
+ * URLs, :emoji: shortcodes and @mentions (see chatMentions). Messages are parsed into a tree of plain
+ * nodes that `RichText` renders as React elements, so message text never
+ * reaches the DOM as HTML and only http(s) links are produced.
+ */
+
+export type InlineNode =
+  | { type: "text"; text: string }
+  | { type: "bold"; children: InlineNode[] }
+  | { type: "italic"; children: InlineNode[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; text: string }
+  | { type: "mention"; userId: string; name: string }
+  | { type: "break" };
+
+export type BlockNode =
+  | { type: "paragraph"; children: InlineNode[] }
+  | { type: "code_block"; language: string | null; text: string }
+  | { type: "list"; ordered: boolean; start: number; items: InlineNode[][] };
+
+/**
+ * Supported :shortcode: emoji
+ */
+export const EMOJI_SHORTCODES: Record<string, string> = {
+  smile: "😄",
+  grin: "😁",
+  joy: "😂",
+  wink: "😉",
+  blush: "😊",
+  heart_eyes: "😍",
+  thinking: "🤔",
+  neutral_face: "😐",
+  sweat_smile: "😅",
+  cry: "😢",
+  sob: "😭",
+  angry: "😠",
+  scream: "😱",
+  sunglasses: "😎",
+  thumbsup: "👍",
+  "+1": "👍",
+  thumbsdown: "👎",
+  "-1": "👎",
+  clap: "👏",
+  wave: "👋",
+  pray: "🙏",
+  ok_hand: "👌",
+  muscle: "💪",
+  eyes: "👀",
+  heart: "❤️",
+  fire: "🔥",
+  star: "⭐",
+  tada: "🎉",
+  rocket: "🚀",
+  bulb: "💡",
+  warning: "⚠️",
+  check: "✅",
+  x: "❌",
+  question: "❓",
+  coffee: "☕",
+  100: "💯",
+};
+
+const FENCE = /^\s*```\s*([\w+-]*)\s*$/;
+const UNORDERED_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+
+// Inline code, mention tokens, bold, italic and bare URLs, in that order
+// of precedence. Underscore emphasis must not touch word characters, so
+// snake_case and URLs with underscores stay as they are.
+const INLINE_TOKEN = new RegExp(
+  [
+    "`([^`\\n]+)`",
+    "@\\[([^\\]\\n]+)\\]\\(([\\w-]+)\\)",
+    "\\*\\*(?=\\S)([\\s\\S]*?\\S)\\*\\*",
+    "(?<!\\w)__(?=\\S)([\\s\\S]*?\\S)__(?!\\w)",
+    "\\*(?=[^\\s*])([\\s\\S]*?[^\\s*])\\*",
+    "(?<!\\w)_(?=[^\\s_])([\\s\\S]*?[^\\s_])_(?!\\w)",
+    "((?:https?:\\/\\/|www\\.)[^\\s<>\"]+)",
+  ].join("|"),
+  "i"
+);
+
+const EMOJI_TOKEN = /:([a-z0-9_+-]+):/g;
+
+/**
+ * Replace :shortcode: emoji, leaving unknown shortcodes untouched
+ */
+export function replaceEmojiShortcodes(text: string): string {
+  return text.replace(EMOJI_TOKEN, (match, code: string) =>
+    Object.prototype.hasOwnProperty.call(EMOJI_SHORTCODES, code.toLowerCase())
+      ? EMOJI_SHORTCODES[code.toLowerCase()]
+      : match
+  );
+}
+
+/**
+ * Split a matched URL from punctuation that ends the sentence, e.g. the
+ * "." in "see https://example.com." or an unbalanced ")"
+ */
+function trimUrl(raw: string): { url: string; rest: string } {
+  let url = raw;
+  while (url.length > 0) {
+    const last = url[url.length - 1];
+    if (/[.,;:!?'"]/.test(last)) {
+      url = url.slice(0, -1);
+    } else if (
+      last === ")" &&
+      (url.match(/\(/g) || []).length < (url.match(/\)/g) || []).length
+    ) {
+      url = url.slice(0, -1);
+    } else {
+      break;
+    }
+  }
+  return { url, rest: raw.slice(url.length) };
+}
+
+/**
+ * Link target for a URL found in a message, or null unless it is a
+ * well-formed http(s) address
+ */
+export function toSafeHref(url: string): string | null {
+  const candidate = /^www\./i.test(url) ? `https://${url}` : url;
+  try {
+    const parsed = new URL(candidate);
+    return parsed.protocol === "http:" || parsed.protocol === "https:"
+      ? parsed.href
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Add text to a node list, merging with a preceding text node
+ */
+function pushText(nodes: InlineNode[], text: string) {
+  if (!text) return;
+  const last = nodes[nodes.length - 1];
+  if (last?.type === "text") last.text += text;
+  else nodes.push({ type: "text", text });
+}
+
+/**
+ * Parse inline formatting of a single line
+ */
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let rest = text;
+
+  while (rest) {
+    const match = INLINE_TOKEN.exec(rest);
+    if (!match) {
+      pushText(nodes, replaceEmojiShortcodes(rest));
+      break;
+    }
+
+    pushText(nodes, replaceEmojiShortcodes(rest.slice(0, match.index)));
+    const [
+      whole,
+      code,
+      mentionName,
+      mentionUserId,
+      bold,
+      boldAlt,
+      italic,
+      italicAlt,
+      rawUrl,
+    ] = match;
+
+    if (code !== undefined) {
+      nodes.push({ type: "code", text: code });
+    } else if (mentionName !== undefined) {
+      nodes.push({ type: "mention", userId: mentionUserId, name: mentionName });
+    } else if (bold !== undefined || boldAlt !== undefined) {
+      nodes.push({ type: "bold", children: parseInline(bold ?? boldAlt) });
+    } else if (italic !== undefined || italicAlt !== undefined) {
+      nodes.push({ type: "italic", children: parseInline(italic ?? italicAlt) });
+    } else if (rawUrl !== undefined) {
+      const { url, rest: trailing } = trimUrl(rawUrl);
+      const href = toSafeHref(url);
+      if (href) nodes.push({ type: "link", href, text: url });
+      else pushText(nodes, url);
+      pushText(nodes, trailing);
+    }
+
+    rest = rest.slice(match.index + whole.length);
+  }
+
+  return nodes;
+}
+
+/**
+ * Parse a message into blocks
+ */
+export function parseMarkdown(source: string): BlockNode[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: BlockNode[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length === 0) return;
+    const children: InlineNode[] = [];
+    paragraph.forEach((line, index) => {
+      if (index > 0) children.push({ type: "break" });
+      children.push(...parseInline(line));
+    });
+    blocks.push({ type: "paragraph", children });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      // An unclosed fence runs to the end of the message
+      while (++i < lines.length && !FENCE.test(lines[i])) code.push(lines[i]);
+      blocks.push({
+        type: "code_block",
+        language: fence[1] || null,
+        text: code.join("\n"),
+      });
+      continue;
+    }
+
+    const unordered = line.match(UNORDERED_ITEM);
+    const ordered = line.match(ORDERED_ITEM);
+    if (unordered || ordered) {
+      flushParagraph();
+      const isOrdered = !unordered;
+      const previous = blocks[blocks.length - 1];
+      const item = parseInline(unordered ? unordered[1] : ordered![2]);
+      const isContinuation =
+        previous?.type === "list" &&
+        previous.ordered === isOrdered &&
+        i > 0 &&
+        (UNORDERED_ITEM.test(lines[i - 1]) || ORDERED_ITEM.test(lines[i - 1]));
+      if (isContinuation) {
+        previous.items.push(item);
+      } else {
+        blocks.push({
+          type: "list",
+          ordered: isOrdered,
+          start: ordered ? Number(ordered[1]) : 1,
+          items: [item],
+        });
+      }
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+export type FormatAction =
+  | "bold"
+  | "italic"
+  | "code"
+  | "code_block"
+  | "bullet_list"
+  | "numbered_list";
+
+/**
+ * Text and selection of the composer after applying a format
+ */
+export interface FormattedDraft {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const WRAPPERS: Partial<Record<FormatAction, [string, string, string]>> = {
+  // [before, after, placeholder when nothing is selected]
+  bold: ["**", "**", "negrita"],
+  italic: ["*", "*", "cursiva"],
+  code: ["`", "`", "código"],
+  code_block: ["```\n", "\n```", "código"],
+};
+
+/**
+ * Apply a toolbar format to the selected text of the composer
+ *
+ * @param value - Current draft
+ * @param selectionStart - Start of the selection
+ * @param selectionEnd - End of the selection
+ * @param action - Format to apply
+ * @returns The new draft with the formatted text selected
+ */
+export function applyFormat(
+  value: string,
+  selectionStart: number,
+  selectionEnd: number,
+  action: FormatAction
+): FormattedDraft {
+  const before = value.slice(0, selectionStart);
+  const selected = value.slice(selectionStart, selectionEnd);
+  const after = value.slice(selectionEnd);
+
+  const wrapper = WRAPPERS[action];
+  if (wrapper) {
+    const [open, close, placeholder] = wrapper;
+    // Code blocks need their fences on lines of their own
+    const lead =
+      action === "code_block" && before && !before.endsWith("\n") ? "\n" : "";
+    const text = selected || placeholder;
+    const start = before.length + lead.length + open.length;
+    return {
+      value: `${before}${lead}${open}${text}${close}${after}`,
+      selectionStart: start,
+      selectionEnd: start + text.length,
+    };
+  }
+
+  // Lists: prefix every selected line, or start a new item
+  const lineStart = before.lastIndexOf("\n") + 1;
+  const block = value.slice(lineStart, selectionEnd);
+  const prefixed = block
+    .split("\n")
+    .map((line, index) =>
+      action === "numbered_list" ? `${index + 1}. ${line}` : `- ${line}`
+    )
+    .join("\n");
+  const result = `${value.slice(0, lineStart)}${prefixed}${after}`;
+  const end = lineStart + prefixed.length;
+  return { value: result, selectionStart: end, selectionEnd: end };
+}
@@ -0,0 +1,135 @@
+/**
+ * Chat Mentions
+ *
+ * While composing, a mention reads as "@Name". When the message is sent
+ * each mention picked from the autocomplete is stored as a token,
+ * "@[Name](userId)", so it still points at the right person after a
+ * rename and can be highlighted and notified by user ID.
+ */
+
+/**
+ * Someone who can be mentioned
+ */
+export interface MentionCandidate {
+  userId: string;
+  name: string;
+}
+
+/**
+ * The "@query" being typed at the caret
+ */
+export interface MentionQuery {
+  /** Index of the "@" */
+  start: number;
+  query: string;
+}
+
+// Longest name fragment looked up after "@"
+const MAX_QUERY_LENGTH = 30;
+const MAX_SUGGESTIONS = 6;
+
+export const MENTION_TOKEN = /@\[([^\]\n]+)\]\(([\w-]+)\)/g;
+
+const normalize = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Find the mention being typed right before the caret, if any. The "@"
+ * must start a word, and the query may hold single spaces so full names
+ * can be typed.
+ */
+export function getMentionQuery(value: string, caret: number): MentionQuery | null {
+  const before = value.slice(0, caret);
+  const start = before.lastIndexOf("@");
+  if (start === -1 || caret - start - 1 > MAX_QUERY_LENGTH) return null;
+  if (start > 0 && !/\s/.test(before[start - 1])) return null;
+
+  const query = before.slice(start + 1);
+  if (/\n|\s{2}|^\s|[@[\]()]/.test(query)) return null;
+  return { start, query };
+}
+
+/**
+ * Candidates whose name, or any word of it, starts with the query
+ * (accents and case ignored)
+ */
+export function filterMentionCandidates(
+  candidates: MentionCandidate[],
+  query: string
+): MentionCandidate[] {
+  const needle = normalize(query);
+  return candidates
+    .filter(({ name }) => {
+      const haystack = normalize(name);
+      return (
+        haystack.startsWith(needle) ||
+        haystack.split(/\s+/).some((word) => word.startsWith(needle))
+      );
+    })
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Replace the "@query" being typed with the picked name
+ *
+ * @returns The new draft and the caret position after the mention
+ */
+export function insertMention(
+  value: string,
+  mention: MentionQuery,
+  caret: number,
+  name: string
+): { value: string; caret: number } {
+  const inserted = `@${name} `;
+  const after = value.slice(caret).replace(/^\s/, "");
+  return {
+    value: `${value.slice(0, mention.start)}${inserted}${after}`,
+    caret: mention.start + inserted.length,
+  };
+}
+
+/**
+ * Turn the "@Name" mentions picked while composing into tokens
+ *
+ * @param text - The draft
+ * @param mentions - People picked from the autocomplete for this draft
+ */
+export function encodeMentions(text: string, mentions: MentionCandidate[]): string {
+  const unique = mentions.filter(
+    (mention, index) =>
+      mentions.findIndex((other) => other.userId === mention.userId) === index
+  );
+  // Longest names first so "@Ana María" isn't taken for "@Ana"
+  return [...unique]
+    .sort((a, b) => b.name.length - a.name.length)
+    .reduce(
+      (result, { userId, name }) =>
+        result.replace(
+          new RegExp(`(^|\\s)@${escapeRegExp(name)}(?![\\p{L}\\p{N}_])`, "gu"),
+          (_match, lead: string) =>
+            `${lead}@[${name.replace(/[[\]]/g, "")}](${userId})`
+        ),
+      text
+    );
+}
+
+/**
+ * User IDs mentioned in a sent message
+ */
+export function getMentionedUserIds(text: string): string[] {
+  return Array.from(text.matchAll(MENTION_TOKEN), (match) => match[2]);
+}
+
+/**
+ * Message text with mention tokens shown as "@Name", for toasts and
+ * excerpts
+ */
+export function stripMentionTokens(text: string): string {
+  return text.replace(MENTION_TOKEN, "@$1");
+}
@@ -0,0 +1,139 @@
+/**
+ * Chat Messages
+ *
+ * Helpers for meeting chat messages. Messages go to everyone
+ * (`public`), to one participant (`private`, `target` is a user ID) or
+ * to a chosen group (`group`, `target` is a list of user IDs). Only the
+ * sender and the targets may see a private or group message.
+ */
+
+import type { Message, MessageCursor } from "../services/message.service";
+import { addDays, isSameDay } from "./schedule";
+
+/**
+ * Messages fetched per history page
+ */
+export const MESSAGES_PAGE_SIZE = 50;
+
+/**
+ * Who a message is sent to
+ */
+export interface ChatRecipients {
+  visibility: Message["visibility"];
+  /** Empty for public messages */
+  targetIds: string[];
+}
+
+export const EVERYONE: ChatRecipients = { visibility: "public", targetIds: [] };
+
+/**
+ * Read the target user IDs of a message, whatever shape the server sent
+ */
+export function getMessageTargetIds(message: Pick<Message, "target">): string[] {
+  const { target } = message;
+  if (target === null || target === undefined || target === "") return [];
+  const ids = Array.isArray(target) ? target : [target];
+  return ids.map((id) => String(id));
+}
+
+/**
+ * Whether a message should be shown to a user
+ *
+ * @param message - The message
+ * @param userId - The current user
+ */
+export function isMessageVisibleTo(
+  message: Pick<Message, "userId" | "visibility" | "target">,
+  userId?: string | null
+): boolean {
+  if (!message.visibility || message.visibility === "public") return true;
+  if (!userId) return false;
+  if (String(message.userId) === String(userId)) return true;
+  return getMessageTargetIds(message).includes(String(userId));
+}
+
+/**
+ * Payload fields to send to the chat server for the chosen recipients
+ */
+export function toMessageTarget(
+  recipients: ChatRecipients
+): Pick<Message, "visibility" | "target"> {
+  if (recipients.visibility === "private") {
+    return { visibility: "private", target: recipients.targetIds[0] };
+  }
+  if (recipients.visibility === "group") {
+    return { visibility: "group", target: recipients.targetIds };
+  }
+  return { visibility: "public", target: null };
+}
+
+/**
+ * Whether a message was edited after it was sent. The backend sets
+ * `updatedAt` on creation too, so only a later timestamp counts.
+ */
+export function isMessageEdited(
+  message: Pick<Message, "createdAt" | "updatedAt">
+): boolean {
+  if (!message.updatedAt) return false;
+  if (!message.createdAt) return true;
+  return (
+    new Date(message.updatedAt).getTime() - new Date(message.createdAt).getTime() >
+    1000
+  );
+}
+
+/**
+ * Merge a page of messages into the list without duplicating the ones
+ * already delivered over the socket, oldest first
+ *
+ * @param current - Messages on screen
+ * @param incoming - Messages from `getRoomMessages`, in any order
+ */
+export function mergeMessages(current: Message[], incoming: Message[]): Message[] {
+  const known = new Set(current.map((message) => message.id));
+  const added = incoming.filter((message) => !known.has(message.id));
+  if (added.length === 0) return current;
+
+  const time = (message: Message) =>
+    message.createdAt
+      ? new Date(message.createdAt).getTime()
+      : Number.MAX_SAFE_INTEGER;
+  // Stable sort keeps messages without a timestamp in arrival order
+  return [...added, ...current].sort((a, b) => time(a) - time(b));
+}
+
+/**
+ * Cursor for the page of history before a fetched page: its oldest
+ * message, ties on `createdAt` broken by ID
+ *
+ * @param page - Messages from `getRoomMessages`, in any order
+ * @returns The cursor, or null when no message has a timestamp
+ */
+export function getHistoryCursor(page: Message[]): MessageCursor | null {
+  let oldest: MessageCursor | null = null;
+  for (const message of page) {
+    if (!message.createdAt) continue;
+    const time = new Date(message.createdAt).getTime();
+    const oldestTime = oldest ? new Date(oldest.createdAt).getTime() : Infinity;
+    if (time < oldestTime || (time === oldestTime && message.id < oldest!.id)) {
+      oldest = { createdAt: message.createdAt, id: message.id };
+    }
+  }
+  return oldest;
+}
+
+/**
+ * Label of the separator above the first message of a day: "Hoy",
+ * "Ayer" or the full date
+ */
+export function formatMessageDay(date: Date, now: Date = new Date()): string {
+  if (isSameDay(date, now)) return "Hoy";
+  if (isSameDay(date, addDays(now, -1))) return "Ayer";
+  const label = date.toLocaleDateString("es-ES", {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: date.getFullYear() === now.getFullYear() ? undefined : "numeric",
+  });
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
@@ -0,0 +1,76 @@
+/**
+ * Chat Replies and Threads
+ *
+ * A reply keeps a reference to the message it answers in `parentId`.
+ * Quoted replies (`replyMode: "quote"`) stay in the main conversation
+ * with an excerpt of the original; thread replies (`"thread"`) are shown
+ * in a collapsible thread under the original instead. Works for both the
+ * meeting chat and the global chat message shapes.
+ */
+
+import { stripMentionTokens } from "./chatMentions";
+
+export type ReplyMode = "quote" | "thread";
+
+/**
+ * Fields a message needs to take part in replies
+ */
+export interface ThreadableMessage {
+  id?: string;
+  parentId?: string | null;
+  replyMode?: ReplyMode | null;
+}
+
+// Characters of the original message shown in a quote
+const QUOTE_EXCERPT_LENGTH = 100;
+
+/**
+ * Number of replies (quoted and threaded) to each message, by ID
+ */
+export function getReplyCounts(messages: ThreadableMessage[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const message of messages) {
+    if (!message.parentId) continue;
+    counts.set(message.parentId, (counts.get(message.parentId) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Thread replies to a message, in conversation order
+ */
+export function getThreadReplies<T extends ThreadableMessage>(
+  messages: T[],
+  parentId: string
+): T[] {
+  return messages.filter(
+    (message) => message.parentId === parentId && message.replyMode === "thread"
+  );
+}
+
+/**
+ * Whether a message belongs inside a thread rather than the main
+ * conversation. Thread replies whose original isn't loaded (e.g. it is in
+ * an older page of history) stay in the main conversation so they aren't
+ * lost.
+ */
+export function isShownInThread(
+  message: ThreadableMessage,
+  loadedIds: Set<string>
+): boolean {
+  return (
+    message.replyMode === "thread" &&
+    !!message.parentId &&
+    loadedIds.has(message.parentId)
+  );
+}
+
+/**
+ * Single-line excerpt of a message for quotes and reply banners
+ */
+export function getQuoteExcerpt(content: string): string {
+  const text = stripMentionTokens(content).replace(/\s+/g, " ").trim();
+  return text.length > QUOTE_EXCERPT_LENGTH
+    ? `${text.slice(0, QUOTE_EXCERPT_LENGTH - 1)}…`
+    : text;
+}
@@ -0,0 +1,184 @@
+/**
+ * WebRTC Connection Statistics
+ *
+ * Turns raw `RTCPeerConnection.getStats()` reports into the metrics shown
+ * in the meeting UI: bitrate, packet loss, jitter, round-trip time and
+ * received video resolution, plus a 0–4 quality level for signal bars.
+ *
+ * Bitrate and packet loss are rates, so each computation needs the counters
+ * from the previous sample of the same connection.
+ */
+
+/**
+ * Network quality level (number of signal bars)
+ * 0 = no data, 1 = poor, 2 = fair, 3 = good, 4 = excellent
+ */
+export type ConnectionQuality = 0 | 1 | 2 | 3 | 4;
+
+/**
+ * Metrics derived for one peer connection
+ */
+export interface PeerConnectionStats {
+  userId: string;
+  timestamp: number;
+  inboundBitrate: number; // kbps
+  outboundBitrate: number; // kbps
+  packetLoss: number; // percent over the last interval
+  jitter: number; // ms
+  rtt: number | null; // ms
+  resolution: { width: number; height: number } | null;
+  framesPerSecond: number | null;
+  quality: ConnectionQuality;
+}
+
+/**
+ * Cumulative counters kept between two samples
+ */
+export interface StatsSample {
+  timestamp: number;
+  bytesReceived: number;
+  bytesSent: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+/**
+ * Derive a quality level from round-trip time and packet loss
+ *
+ * @param rtt - Round-trip time in ms, or null when unknown
+ * @param packetLoss - Packet loss in percent
+ * @returns The number of signal bars to show
+ */
+export function getConnectionQuality(
+  rtt: number | null,
+  packetLoss: number
+): ConnectionQuality {
+  if (rtt === null) return 0;
+  if (rtt < 150 && packetLoss < 1) return 4;
+  if (rtt < 300 && packetLoss < 3) return 3;
+  if (rtt < 500 && packetLoss < 8) return 2;
+  return 1;
+}
+
+/**
+ * Human readable label for a quality level
+ *
+ * @param quality - The quality level
+ * @returns Spanish label used in the UI
+ */
+export function getConnectionQualityLabel(quality: ConnectionQuality): string {
+  switch (quality) {
+    case 4:
+      return "Excelente";
+    case 3:
+      return "Buena";
+    case 2:
+      return "Regular";
+    case 1:
+      return "Débil";
+    default:
+      return "Sin datos";
+  }
+}
+
+/**
+ * Parse a stats report into connection metrics
+ *
+ * @param userId - The remote user the connection belongs to
+ * @param report - Result of `RTCPeerConnection.getStats()`
+ * @param previous - Counters from the previous sample, if any
+ * @returns The derived metrics and the counters to keep for the next sample
+ */
+export function parseStatsReport(
+  userId: string,
+  report: RTCStatsReport,
+  previous: StatsSample | null
+): { stats: PeerConnectionStats; sample: StatsSample } {
+  const sample: StatsSample = {
+    timestamp: Date.now(),
+    bytesReceived: 0,
+    bytesSent: 0,
+    packetsReceived: 0,
+    packetsLost: 0,
+  };
+  let jitter = 0;
+  let rtt: number | null = null;
+  let resolution: PeerConnectionStats["resolution"] = null;
+  let framesPerSecond: number | null = null;
+  let selectedPairId: string | null = null;
+
+  report.forEach((stat) => {
+    if (stat.type === "transport" && stat.selectedCandidatePairId) {
+      selectedPairId = stat.selectedCandidatePairId;
+    }
+  });
+
+  report.forEach((stat) => {
+    switch (stat.type) {
+      case "inbound-rtp": {
+        sample.bytesReceived += stat.bytesReceived ?? 0;
+        sample.packetsReceived += stat.packetsReceived ?? 0;
+        sample.packetsLost += stat.packetsLost ?? 0;
+        jitter = Math.max(jitter, (stat.jitter ?? 0) * 1000);
+
+        if (stat.kind === "video" && stat.frameWidth && stat.frameHeight) {
+          resolution = { width: stat.frameWidth, height: stat.frameHeight };
+          framesPerSecond = stat.framesPerSecond ?? null;
+        }
+        break;
+      }
+      case "outbound-rtp":
+        sample.bytesSent += stat.bytesSent ?? 0;
+        break;
+      case "candidate-pair": {
+        const isSelected = selectedPairId
+          ? stat.id === selectedPairId
+          : stat.nominated && stat.state === "succeeded";
+        if (isSelected && typeof stat.currentRoundTripTime === "number") {
+          rtt = stat.currentRoundTripTime * 1000;
+        }
+        break;
+      }
+    }
+  });
+
+  let inboundBitrate = 0;
+  let outboundBitrate = 0;
+  let packetLoss = 0;
+
+  if (previous) {
+    const seconds = (sample.timestamp - previous.timestamp) / 1000;
+    if (seconds > 0) {
+      inboundBitrate = Math.max(
+        ((sample.bytesReceived - previous.bytesReceived) * 8) / 1000 / seconds,
+        0
+      );
+      outboundBitrate = Math.max(
+        ((sample.bytesSent - previous.bytesSent) * 8) / 1000 / seconds,
+        0
+      );
+    }
+
+    const lost = sample.packetsLost - previous.packetsLost;
+    const received = sample.packetsReceived - previous.packetsReceived;
+    if (lost > 0 && lost + received > 0) {
+      packetLoss = (lost / (lost + received)) * 100;
+    }
+  }
+
+  return {
+    stats: {
+      userId,
+      timestamp: sample.timestamp,
+      inboundBitrate: Math.round(inboundBitrate),
+      outboundBitrate: Math.round(outboundBitrate),
+      packetLoss: Math.round(packetLoss * 10) / 10,
+      jitter: Math.round(jitter),
+      rtt: rtt === null ? null : Math.round(rtt),
+      resolution,
+      framesPerSecond,
+      quality: getConnectionQuality(rtt, packetLoss),
+    },
+    sample,
+  };
+}
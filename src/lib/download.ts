@@ -0,0 +1,24 @@
+/**
+ * File Downloads
+ *
+ * Hands data generated in the browser (recordings, calendar invites) to
+ * the user as a file download.
+ */
+
+/**
+ * Offer a blob to the user as a file download
+ *
+ * @param blob - Content of the file
+ * @param fileName - Name of the downloaded file
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Give the browser time to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+}
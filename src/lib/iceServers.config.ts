@@ -0,0 +1,233 @@
+/**
+ * ICE Server Configuration
+ *
+ * Resolves the STUN/TURN servers used by every `RTCPeerConnection`.
+ *
+ * Sources, merged in this order:
+ * 1. Servers returned by the backend (`GET /webrtc/ice-servers`) when
+ *    `VITE_ICE_SERVERS_FROM_API=true`. These usually carry short‑lived TURN
+ *    credentials, so they are cached until shortly before they expire.
+ * 2. A static TURN server from `VITE_ICE_SERVER_URL`,
+ *    `VITE_ICE_SERVER_USERNAME` and `VITE_ICE_SERVER_CREDENTIAL`
+ *    (handy for a local coturn container).
+ * 3. Extra STUN servers from `VITE_STUN_SERVER_URLS` (comma separated),
+ *    or the public Google STUN servers when none are configured.
+ */
+
+import { getIceServerConfig } from "../services/webrtc.service";
+
+/**
+ * Public STUN servers used when no STUN server is configured
+ */
+const DEFAULT_STUN_SERVERS: RTCIceServer[] = [
+  { urls: "stun:stun.l.google.com:19302" },
+  { urls: "stun:stun1.l.google.com:19302" },
+];
+
+/**
+ * Refresh backend credentials this long before they expire
+ */
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+/**
+ * Retry delay when the backend cannot provide ICE servers
+ */
+const RETRY_DELAY_MS = 30 * 1000;
+
+/**
+ * Shortest time between two refreshes, so very short-lived credentials
+ * cannot make every new connection call the backend
+ */
+const MIN_REFRESH_DELAY_MS = RETRY_DELAY_MS;
+
+const ICE_SERVERS_FROM_API =
+  import.meta.env.VITE_ICE_SERVERS_FROM_API === "true";
+
+let cachedServers: RTCIceServer[] | null = null;
+let cachedAt: number | null = null;
+// When the backend credentials expire; null when they do not
+let cacheExpiresAt: number | null = null;
+// When to ask the backend again after a failed request
+let retryAt: number | null = null;
+let pendingRequest: Promise<RTCIceServer[]> | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Split a comma separated env value into trimmed, non-empty entries.
+ */
+function parseList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Build the static server list defined through `VITE_*` variables.
+ *
+ * @returns TURN/STUN servers from the environment, with the default STUN
+ *          servers when no STUN server is configured.
+ */
+function getEnvIceServers(): RTCIceServer[] {
+  const servers: RTCIceServer[] = [];
+
+  const turnUrls = parseList(import.meta.env.VITE_ICE_SERVER_URL).map((url) =>
+    /^turns?:/.test(url) ? url : `turn:${url}`
+  );
+  const turnUsername = import.meta.env.VITE_ICE_SERVER_USERNAME;
+  const turnCredential = import.meta.env.VITE_ICE_SERVER_CREDENTIAL;
+
+  if (turnUrls.length > 0 && turnUsername && turnCredential) {
+    servers.push({
+      urls: turnUrls,
+      username: turnUsername,
+      credential: turnCredential,
+    });
+  }
+
+  const stunUrls = parseList(import.meta.env.VITE_STUN_SERVER_URLS);
+  if (stunUrls.length > 0) {
+    servers.push({ urls: stunUrls });
+  } else {
+    servers.push(...DEFAULT_STUN_SERVERS);
+  }
+
+  return servers;
+}
+
+/**
+ * Fetch ICE servers from the backend and update the cache.
+ *
+ * Falls back to the environment list when the request fails, and retries
+ * sooner than a normal credential refresh.
+ */
+async function loadIceServers(): Promise<RTCIceServer[]> {
+  const envServers = getEnvIceServers();
+  const response = await getIceServerConfig();
+
+  if (response.error || !response.data?.iceServers?.length) {
+    console.warn(
+      "[ICE] ⚠️ Could not load ICE servers from backend, using env config:",
+      response.error
+    );
+    cachedServers = envServers;
+    cachedAt = Date.now();
+    cacheExpiresAt = null;
+    retryAt = cachedAt + RETRY_DELAY_MS;
+    return cachedServers;
+  }
+
+  const { iceServers, ttl, expiresAt } = response.data;
+
+  if (expiresAt) {
+    cacheExpiresAt = new Date(expiresAt).getTime();
+  } else if (ttl) {
+    cacheExpiresAt = Date.now() + ttl * 1000;
+  } else {
+    cacheExpiresAt = null;
+  }
+
+  cachedServers = [...iceServers, ...envServers];
+  cachedAt = Date.now();
+  retryAt = null;
+  console.log(
+    `[ICE] ✅ Loaded ${iceServers.length} ICE server(s) from backend` +
+      (cacheExpiresAt
+        ? `, valid until ${new Date(cacheExpiresAt).toISOString()}`
+        : "")
+  );
+
+  return cachedServers;
+}
+
+/**
+ * When the cached list should next be fetched again: the retry deadline
+ * after a failure, or shortly before the credentials expire.
+ *
+ * @returns The timestamp, or null when the cache never goes stale
+ */
+function getNextRefreshAt(): number | null {
+  if (retryAt !== null) return retryAt;
+  if (cacheExpiresAt === null || cachedAt === null) return null;
+  return Math.max(
+    cacheExpiresAt - REFRESH_MARGIN_MS,
+    cachedAt + MIN_REFRESH_DELAY_MS
+  );
+}
+
+/**
+ * Check whether cached credentials are missing or due for a refresh.
+ */
+function isCacheStale(): boolean {
+  if (!cachedServers) return true;
+  const refreshAt = getNextRefreshAt();
+  return refreshAt !== null && Date.now() >= refreshAt;
+}
+
+/**
+ * Get the ICE servers to use for a new peer connection.
+ *
+ * Concurrent callers share a single backend request.
+ *
+ * @param forceRefresh - Ignore the cache and fetch new credentials
+ * @returns The list of STUN/TURN servers
+ */
+export async function getIceServers(
+  forceRefresh: boolean = false
+): Promise<RTCIceServer[]> {
+  if (!ICE_SERVERS_FROM_API) {
+    return getEnvIceServers();
+  }
+
+  if (!forceRefresh && !isCacheStale()) {
+    return cachedServers!;
+  }
+
+  if (!pendingRequest) {
+    pendingRequest = loadIceServers().finally(() => {
+      pendingRequest = null;
+    });
+  }
+
+  return pendingRequest;
+}
+
+/**
+ * Keep backend credentials fresh while a meeting is active.
+ *
+ * Schedules a refresh shortly before the cached credentials expire (or a
+ * retry when the backend could not provide them) and hands the new list to `onRefresh` so existing peer connections can be
+ * reconfigured.
+ *
+ * @param onRefresh - Called with the new server list after every refresh
+ */
+export function startIceServerRefresh(
+  onRefresh: (servers: RTCIceServer[]) => void
+): void {
+  stopIceServerRefresh();
+
+  const refreshAt = getNextRefreshAt();
+  if (!ICE_SERVERS_FROM_API || refreshAt === null) {
+    return;
+  }
+
+  const delay = Math.max(refreshAt - Date.now(), MIN_REFRESH_DELAY_MS);
+  console.log(`[ICE] Next credential refresh in ${Math.round(delay / 1000)}s`);
+
+  refreshTimer = setTimeout(async () => {
+    refreshTimer = null;
+    const servers = await getIceServers(true);
+    onRefresh(servers);
+    startIceServerRefresh(onRefresh);
+  }, delay);
+}
+
+/**
+ * Cancel the scheduled credential refresh, if any.
+ */
+export function stopIceServerRefresh(): void {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+}
@@ -0,0 +1,339 @@
+import ICAL from "ical.js";
+import { describe, expect, it } from "vitest";
+import type { Room } from "../services/room.service";
+import { buildMeetingCalendar, getIcsRoomSchedule, parseIcs } from "./ics";
+import { expandOccurrences } from "./recurrence";
+
+const ORIGIN = "https://charlaton.example";
+const NOW = new Date("2026-01-15T10:00:00Z");
+
+const oneOff: Room = {
+  id: "room-1",
+  name: "Revisión; trimestral, equipo \\ ventas\nsegunda línea",
+  creatorId: "user-1",
+  hasPassword: true,
+  scheduleAt: "2026-02-10T15:30:00.000Z",
+  durationMinutes: 45,
+};
+
+// Weekly on Mondays and Thursdays at 09:00 New York time, across the
+// start of DST there (2026-03-08): 14:00Z before, 13:00Z after
+const series: Room = {
+  id: "series-1",
+  name: "Reunión semanal de producto",
+  creatorId: "user-1",
+  scheduleAt: "2026-03-02T14:00:00.000Z",
+  durationMinutes: 30,
+  recurrence: "FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,TH;COUNT=8",
+  recurrenceTimeZone: "America/New_York",
+  recurrenceExceptions: [
+    { occurrenceId: "2026-03-05T14:00:00.000Z", cancelled: true },
+    {
+      occurrenceId: "2026-03-12T13:00:00.000Z",
+      name: "Reunión movida",
+      scheduleAt: "2026-03-13T15:00:00.000Z",
+      durationMinutes: 60,
+    },
+  ],
+};
+
+/**
+ * Parse a calendar with ical.js, registering its VTIMEZONEs so TZID
+ * times resolve through them
+ */
+function parseWithIcal(text: string) {
+  const calendar = new ICAL.Component(ICAL.parse(text));
+  for (const zone of calendar.getAllSubcomponents("vtimezone")) {
+    ICAL.TimezoneService.register(zone);
+  }
+  return calendar;
+}
+
+function getIcalEvents(calendar: ICAL.Component) {
+  return calendar.getAllSubcomponents("vevent").map((vevent) => new ICAL.Event(vevent));
+}
+
+/**
+ * Occurrences of a recurring event as ical.js expands them, with its
+ * RECURRENCE-ID events applied
+ */
+function expandWithIcal(calendar: ICAL.Component) {
+  const events = getIcalEvents(calendar);
+  const master = events.find((event) => !event.isRecurrenceException())!;
+  for (const event of events) {
+    if (event.isRecurrenceException()) master.relateException(event);
+  }
+
+  const occurrences = [];
+  const iterator = master.iterator();
+  for (let next = iterator.next(); next; next = iterator.next()) {
+    const details = master.getOccurrenceDetails(next);
+    occurrences.push({
+      occurrenceId: details.recurrenceId.toJSDate().toISOString(),
+      name: details.item.summary,
+      scheduleAt: details.startDate.toJSDate().toISOString(),
+      end: details.endDate.toJSDate().toISOString(),
+    });
+  }
+  return occurrences;
+}
+
+describe("buildMeetingCalendar", () => {
+  it("folds lines to 75 octets with CRLF endings", () => {
+    const text = buildMeetingCalendar(
+      [{ ...oneOff, name: "Planificación 🚀 ".repeat(12) }],
+      ORIGIN,
+      NOW
+    );
+
+    expect(text.endsWith("\r\n")).toBe(true);
+    expect(text.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/);
+    const lines = text.split("\r\n").slice(0, -1);
+    for (const line of lines) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(lines.some((line) => line.startsWith(" "))).toBe(true);
+
+    const [event] = getIcalEvents(parseWithIcal(text));
+    expect(event.summary).toBe("Planificación 🚀 ".repeat(12));
+  });
+
+  it("escapes text so a parser reads it back unchanged", () => {
+    const text = buildMeetingCalendar([oneOff], ORIGIN, NOW);
+    const [event] = getIcalEvents(parseWithIcal(text));
+
+    expect(event.summary).toBe(oneOff.name);
+    expect(event.description).toContain(`${ORIGIN}/join/room-1`);
+    expect(event.description).toContain("protegida con contraseña");
+    expect(event.location).toBe(`${ORIGIN}/join/room-1`);
+  });
+
+  it("writes one-off meetings in UTC", () => {
+    const text = buildMeetingCalendar([oneOff], ORIGIN, NOW);
+    expect(text).toContain("\r\nDTSTART:20260210T153000Z\r\n");
+    expect(text).toContain("\r\nDTEND:20260210T161500Z\r\n");
+    expect(text).not.toContain("BEGIN:VTIMEZONE");
+
+    const [event] = getIcalEvents(parseWithIcal(text));
+    expect(event.uid).toBe("room-1@charlaton");
+    expect(event.startDate.toJSDate().toISOString()).toBe(oneOff.scheduleAt);
+    expect(event.endDate.toJSDate().toISOString()).toBe("2026-02-10T16:15:00.000Z");
+  });
+
+  it("writes a series with TZID, RRULE, EXDATE and RECURRENCE-ID", () => {
+    const text = buildMeetingCalendar([series], ORIGIN, NOW);
+
+    expect(text).toContain("\r\nDTSTART;TZID=America/New_York:20260302T090000\r\n");
+    expect(text).toContain("\r\nDTEND;TZID=America/New_York:20260302T093000\r\n");
+    expect(text).toContain("\r\nRRULE:FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,TH;COUNT=8\r\n");
+    expect(text).toContain("\r\nEXDATE;TZID=America/New_York:20260305T090000\r\n");
+    expect(text).toContain("\r\nRECURRENCE-ID;TZID=America/New_York:20260312T090000\r\n");
+    expect(text.indexOf("BEGIN:VTIMEZONE")).toBeLessThan(text.indexOf("BEGIN:VEVENT"));
+
+    const calendar = parseWithIcal(text);
+    const [zone] = calendar.getAllSubcomponents("vtimezone");
+    expect(zone.getFirstPropertyValue("tzid")).toBe("America/New_York");
+
+    const expected = expandOccurrences(
+      series,
+      new Date("2026-01-01T00:00:00Z"),
+      new Date("2027-01-01T00:00:00Z")
+    ).map((occurrence) => ({
+      occurrenceId: occurrence.occurrenceId,
+      name: occurrence.name,
+      scheduleAt: occurrence.scheduleAt,
+      end: new Date(
+        new Date(occurrence.scheduleAt!).getTime() + occurrence.durationMinutes! * 60000
+      ).toISOString(),
+    }));
+    expect(expected).toHaveLength(7);
+    expect(expandWithIcal(calendar)).toEqual(expected);
+  });
+
+  it("exports every occurrence of a series as the series, once", () => {
+    const occurrences = expandOccurrences(
+      series,
+      new Date("2026-03-01T00:00:00Z"),
+      new Date("2026-04-01T00:00:00Z")
+    );
+    const text = buildMeetingCalendar([oneOff, ...occurrences], ORIGIN, NOW);
+
+    expect(text.match(/^RRULE:FREQ=WEEKLY/gm)).toHaveLength(1);
+    expect(text.match(/^BEGIN:VTIMEZONE/gm)).toHaveLength(1);
+    expect(getIcalEvents(parseWithIcal(text))).toHaveLength(3);
+  });
+
+  it("writes a zone without DST as a single observance", () => {
+    const text = buildMeetingCalendar(
+      [{ ...series, recurrenceTimeZone: "Asia/Tokyo", recurrenceExceptions: [] }],
+      ORIGIN,
+      NOW
+    );
+    expect(text).toContain("\r\nDTSTART;TZID=Asia/Tokyo:20260302T230000\r\n");
+    expect(text).not.toContain("BEGIN:DAYLIGHT");
+
+    const [first] = expandWithIcal(parseWithIcal(text));
+    expect(first.scheduleAt).toBe(series.scheduleAt);
+  });
+});
+
+describe("parseIcs", () => {
+  it("reads back what buildMeetingCalendar writes", () => {
+    const events = parseIcs(buildMeetingCalendar([oneOff, series], ORIGIN, NOW));
+    expect(events).toHaveLength(3);
+
+    const [meeting, master, moved] = events;
+    expect(meeting.summary).toBe(oneOff.name);
+    expect(meeting.description).toContain(`${ORIGIN}/join/room-1`);
+    expect(meeting.start.toISOString()).toBe(oneOff.scheduleAt);
+    expect(meeting.timeZone).toBe("UTC");
+    expect(meeting.allDay).toBe(false);
+
+    expect(master.timeZone).toBe("America/New_York");
+    expect(master.excludedDates.map((date) => date.toISOString())).toEqual([
+      "2026-03-05T14:00:00.000Z",
+    ]);
+    expect(moved.uid).toBe(master.uid);
+    expect(moved.recurrenceId?.toISOString()).toBe("2026-03-12T13:00:00.000Z");
+
+    expect(getIcsRoomSchedule(meeting, events)).toEqual({
+      name: oneOff.name,
+      scheduleAt: oneOff.scheduleAt,
+      durationMinutes: oneOff.durationMinutes,
+    });
+    expect(getIcsRoomSchedule(master, events)).toEqual({
+      name: series.name,
+      scheduleAt: series.scheduleAt,
+      durationMinutes: series.durationMinutes,
+      recurrence: series.recurrence,
+      recurrenceTimeZone: series.recurrenceTimeZone,
+      recurrenceExceptions: series.recurrenceExceptions,
+    });
+  });
+
+  it("resolves a non-IANA TZID through the file's VTIMEZONE", () => {
+    const text = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//Microsoft Corporation//Outlook 16.0 MIMEDIR//EN",
+      "BEGIN:VTIMEZONE",
+      "TZID:W. Europe Standard Time",
+      "BEGIN:STANDARD",
+      "DTSTART:16010101T030000",
+      "TZOFFSETFROM:+0200",
+      "TZOFFSETTO:+0100",
+      "RRULE:FREQ=YEARLY;BYDAY=-1SU;BYMONTH=10",
+      "END:STANDARD",
+      "BEGIN:DAYLIGHT",
+      "DTSTART:16010101T020000",
+      "TZOFFSETFROM:+0100",
+      "TZOFFSETTO:+0200",
+      "RRULE:FREQ=YEARLY;BYDAY=-1SU;BYMONTH=3",
+      "END:DAYLIGHT",
+      "END:VTIMEZONE",
+      "BEGIN:VEVENT",
+      "UID:winter",
+      "SUMMARY:Invierno",
+      "DTSTART;TZID=W. Europe Standard Time:20260210T100000",
+      "DTEND;TZID=W. Europe Standard Time:20260210T110000",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "UID:summer",
+      "SUMMARY:Verano",
+      "DTSTART;TZID=\"W. Europe Standard Time\":20260710T100000",
+      "DURATION:PT1H30M",
+      "END:VEVENT",
+      "END:VCALENDAR",
+      "",
+    ].join("\r\n");
+
+    const [winter, summer] = parseIcs(text);
+    expect(winter.start.toISOString()).toBe("2026-02-10T09:00:00.000Z");
+    expect(winter.end?.toISOString()).toBe("2026-02-10T10:00:00.000Z");
+    expect(summer.start.toISOString()).toBe("2026-07-10T08:00:00.000Z");
+    expect(summer.end?.toISOString()).toBe("2026-07-10T09:30:00.000Z");
+
+    // ical.js reads the same instants from the same file
+    const icalStarts = getIcalEvents(parseWithIcal(text)).map((event) =>
+      event.startDate.toJSDate().toISOString()
+    );
+    expect(icalStarts).toEqual([winter.start.toISOString(), summer.start.toISOString()]);
+  });
+
+  it("resolves an IANA TZID without a VTIMEZONE", () => {
+    const [event] = parseIcs(
+      [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VEVENT",
+        "SUMMARY:Madrid",
+        "DTSTART;TZID=Europe/Madrid:20260710T100000",
+        "RRULE:FREQ=WEEKLY;INTERVAL=2",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\r\n")
+    );
+    expect(event.start.toISOString()).toBe("2026-07-10T08:00:00.000Z");
+    expect(event.timeZone).toBe("Europe/Madrid");
+    expect(getIcsRoomSchedule(event, [event])).toMatchObject({
+      recurrence: "FREQ=WEEKLY;INTERVAL=2",
+      recurrenceTimeZone: "Europe/Madrid",
+      recurrenceExceptions: [],
+    });
+  });
+
+  it("imports all-day events at local midnight", () => {
+    const [event] = parseIcs(
+      [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VEVENT",
+        "SUMMARY:Jornada de formación",
+        "DTSTART;VALUE=DATE:20260310",
+        "DTEND;VALUE=DATE:20260311",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\n")
+    );
+    expect(event.allDay).toBe(true);
+    expect(event.timeZone).toBeUndefined();
+    expect(event.start.getTime()).toBe(new Date(2026, 2, 10).getTime());
+    expect(event.end?.getTime()).toBe(new Date(2026, 2, 11).getTime());
+    expect(getIcsRoomSchedule(event, [event]).durationMinutes).toBe(24 * 60);
+  });
+
+  it("unfolds and unescapes text from other calendars", () => {
+    const [event] = parseIcs(
+      [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VEVENT",
+        "SUMMARY:Demo\\, revisión\\; y ",
+        "\tcierre \\\\ final",
+        "DESCRIPTION:Línea uno\\nLínea dos",
+        "DTSTART:20260310T090000Z",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\r\n")
+    );
+    expect(event.summary).toBe("Demo, revisión; y cierre \\ final");
+    expect(event.description).toBe("Línea uno\nLínea dos");
+    expect(event.end).toBeNull();
+  });
+
+  it("imports unsupported rules as a single meeting", () => {
+    const [event] = parseIcs(
+      [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VEVENT",
+        "SUMMARY:Segundo martes",
+        "DTSTART:20260310T090000Z",
+        "RRULE:FREQ=MONTHLY;BYDAY=2TU",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\r\n")
+    );
+    expect(getIcsRoomSchedule(event, [event])).not.toHaveProperty("recurrence");
+  });
+
+  it("rejects files that are not calendars", () => {
+    expect(() => parseIcs("nombre,fecha\nDemo,2026-03-10")).toThrow();
+  });
+});
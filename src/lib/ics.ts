@@ -0,0 +1,775 @@
+/**
+ * iCalendar (RFC 5545) Invites
+ *
+ * Export scheduled meetings as `.ics` files that Outlook, Google Calendar
+ * and Apple Calendar can open, and read `.ics` files back to create
+ * meetings in bulk.
+ *
+ * One-off meetings are written in UTC (`...Z`). A recurring series is
+ * written as one event with an RRULE on the wall clock of its time zone
+ * (`DTSTART;TZID=...` plus a generated VTIMEZONE), cancelled occurrences
+ * as EXDATEs and changed ones as extra events with a RECURRENCE-ID.
+ * Imported times may be UTC, floating (local), or tied to a TZID: IANA
+ * names are resolved with `Intl`, anything else (e.g. the Windows zone
+ * names Outlook uses) with the file's own VTIMEZONE.
+ */
+
+import type { RecurrenceException, RoomScheduleChanges } from "../services/room.service";
+import { downloadBlob } from "./download";
+import {
+  formatRecurrenceRule,
+  getSeriesTimeZone,
+  parseRecurrenceRule,
+  type ScheduledMeeting,
+} from "./recurrence";
+import { DEFAULT_DURATION_MINUTES, getScheduledEnd, getScheduledStart } from "./schedule";
+import {
+  getLocalTimeZone,
+  getTimeZoneOffset,
+  getWallClock,
+  isValidTimeZone,
+  wallClockToDate,
+  wallClockToUtcMs,
+  type WallClock,
+} from "./timeZones";
+
+/**
+ * A meeting read from an `.ics` file
+ */
+export interface IcsEvent {
+  uid?: string;
+  summary: string;
+  description?: string;
+  start: Date;
+  /** Null when the event has neither DTEND nor DURATION */
+  end: Date | null;
+  /** Date-only events (no time of day) */
+  allDay: boolean;
+  /** RRULE value of a recurring event */
+  recurrence?: string;
+  /** Time zone of DTSTART: its IANA TZID, or "UTC"; unset when floating */
+  timeZone?: string;
+  /** EXDATE values: occurrences left out of the series */
+  excludedDates: Date[];
+  /** Set on events that change one occurrence of a series (same UID) */
+  recurrenceId?: Date;
+}
+
+const PRODUCT_ID = "-//Charlaton//Reuniones//ES";
+const MAX_LINE_OCTETS = 75;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+// RRULE parts meetings can repeat on; anything else (BYMONTHDAY,
+// BYSETPOS, "2TU"...) would be misread, so such events import once
+const SUPPORTED_RULE_PART =
+  /^(FREQ=(DAILY|WEEKLY|MONTHLY)|INTERVAL=\d+|UNTIL=\d{8}(T\d{6}Z?)?|COUNT=\d+|WKST=(SU|MO|TU|WE|TH|FR|SA)|BYDAY=(SU|MO|TU|WE|TH|FR|SA)(,(SU|MO|TU|WE|TH|FR|SA))*)$/i;
+
+/* ------------------------------------------------------------------ */
+/* Export                                                              */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Escape a TEXT value (RFC 5545 §3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line to at most 75 octets per line (RFC 5545 §3.1),
+ * never splitting a multi-byte UTF-8 character
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+/**
+ * Format a date as a UTC DATE-TIME, e.g. 20250301T143000Z
+ */
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Format wall-clock time as a local DATE-TIME, e.g. 20250301T093000
+ */
+function formatLocalDateTime(fields: WallClock): string {
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  return (
+    `${pad(fields.year, 4)}${pad(fields.month)}${pad(fields.day)}` +
+    `T${pad(fields.hour)}${pad(fields.minute)}${pad(fields.second)}`
+  );
+}
+
+/**
+ * Format a UTC offset in ms as e.g. "+0100" or "-0530"
+ */
+function formatUtcOffset(ms: number): string {
+  const minutes = Math.round(Math.abs(ms) / MINUTE_MS);
+  const hours = String(Math.floor(minutes / 60)).padStart(2, "0");
+  return `${ms < 0 ? "-" : "+"}${hours}${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/**
+ * VTIMEZONE for an IANA zone (RFC 5545 §3.6.5), with the DST changes of
+ * `year` written as yearly "nth weekday of the month" rules. Zones
+ * without DST get a single STANDARD observance.
+ *
+ * @param timeZone - IANA zone
+ * @param year - Year the rules are read from and start in; use one
+ *               before the first event so its offset is covered
+ */
+function buildTimeZone(timeZone: string, year: number): string[] {
+  const offsetAt = (utcMs: number) => getTimeZoneOffset(utcMs, timeZone);
+  const observances: string[] = [];
+
+  // Find each offset change day by day, then to the minute
+  const yearEnd = Date.UTC(year + 1, 0, 1);
+  for (let day = Date.UTC(year, 0, 1); day < yearEnd; day += DAY_MS) {
+    if (offsetAt(day) === offsetAt(day + DAY_MS)) continue;
+
+    let before = day;
+    let after = day + DAY_MS;
+    while (after - before > MINUTE_MS) {
+      const middle = before + Math.floor((after - before) / 2 / MINUTE_MS) * MINUTE_MS;
+      if (offsetAt(middle) === offsetAt(day)) before = middle;
+      else after = middle;
+    }
+
+    const offsetFrom = offsetAt(before);
+    const offsetTo = offsetAt(after);
+    // The onset is written in the wall-clock time before the change
+    const onset = new Date(after + offsetFrom);
+    const dayOfMonth = onset.getUTCDate();
+    const daysInMonth = new Date(
+      Date.UTC(onset.getUTCFullYear(), onset.getUTCMonth() + 1, 0)
+    ).getUTCDate();
+    const week = dayOfMonth + 7 > daysInMonth ? -1 : Math.ceil(dayOfMonth / 7);
+    const kind = offsetTo > offsetFrom ? "DAYLIGHT" : "STANDARD";
+
+    observances.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatUtcDateTime(onset).replace("Z", "")}`,
+      `TZOFFSETFROM:${formatUtcOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatUtcOffset(offsetTo)}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${onset.getUTCMonth() + 1};BYDAY=${week}${WEEKDAYS[onset.getUTCDay()]}`,
+      `END:${kind}`
+    );
+  }
+
+  if (observances.length === 0) {
+    const offset = formatUtcOffset(offsetAt(Date.UTC(year, 0, 1)));
+    observances.push(
+      "BEGIN:STANDARD",
+      "DTSTART:19700101T000000",
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      "END:STANDARD"
+    );
+  }
+
+  return ["BEGIN:VTIMEZONE", `TZID:${timeZone}`, ...observances, "END:VTIMEZONE"];
+}
+
+/**
+ * Link that opens the lobby of a meeting
+ */
+export function getMeetingJoinLink(roomId: string, origin: string): string {
+  return `${origin}/join/${roomId}`;
+}
+
+/**
+ * Summary, description and link properties of a meeting's event
+ */
+function getEventDetails(room: ScheduledMeeting, name: string, origin: string): string[] {
+  const link = getMeetingJoinLink(room.id, origin);
+  const description = [
+    `Únete a la reunión: ${link}`,
+    `ID de la reunión: ${room.id}`,
+    room.hasPassword
+      ? "Esta reunión está protegida con contraseña. Pídesela al organizador."
+      : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return [
+    `SUMMARY:${escapeText(name)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `LOCATION:${escapeText(link)}`,
+    `URL:${link}`,
+    `CLASS:${room.private ? "PRIVATE" : "PUBLIC"}`,
+    "STATUS:CONFIRMED",
+  ];
+}
+
+/**
+ * Build an `.ics` calendar with one event per scheduled meeting
+ *
+ * Rooms without `scheduleAt` are skipped, and occurrences of a recurring
+ * series are exported as their whole series, once. The password itself
+ * is never exported; protected meetings only get a hint to ask the
+ * organizer.
+ *
+ * @param rooms - Meetings to include
+ * @param origin - Origin of the app, used for join links
+ * @param now - Timestamp written as DTSTAMP
+ * @returns The calendar, with CRLF line endings
+ */
+export function buildMeetingCalendar(
+  rooms: ScheduledMeeting[],
+  origin: string,
+  now: Date = new Date()
+): string {
+  const events: string[] = [];
+  // First year each time zone is used in
+  const timeZones = new Map<string, number>();
+
+  const meetings = rooms
+    .map((room) => room.series ?? room)
+    .filter((room, index, all) => all.findIndex((other) => other.id === room.id) === index);
+
+  for (const room of meetings) {
+    const start = getScheduledStart(room);
+    const end = getScheduledEnd(room);
+    if (!start || !end) continue;
+
+    const uid = `UID:${room.id}@charlaton`;
+    const stamp = `DTSTAMP:${formatUtcDateTime(now)}`;
+    const rule = parseRecurrenceRule(room.recurrence);
+
+    if (!rule) {
+      events.push(
+        "BEGIN:VEVENT",
+        uid,
+        stamp,
+        `DTSTART:${formatUtcDateTime(start)}`,
+        `DTEND:${formatUtcDateTime(end)}`,
+        ...getEventDetails(room, room.name, origin),
+        "END:VEVENT"
+      );
+      continue;
+    }
+
+    const timeZone = getSeriesTimeZone(room);
+    const year = getWallClock(start, timeZone).year;
+    timeZones.set(timeZone, Math.min(year, timeZones.get(timeZone) ?? year));
+    const local = (date: Date) =>
+      `;TZID=${timeZone}:${formatLocalDateTime(getWallClock(date, timeZone))}`;
+
+    const exceptions = room.recurrenceExceptions || [];
+    const cancelled = exceptions.filter((exception) => exception.cancelled);
+    events.push(
+      "BEGIN:VEVENT",
+      uid,
+      stamp,
+      `DTSTART${local(start)}`,
+      `DTEND${local(end)}`,
+      `RRULE:${formatRecurrenceRule(rule)}`,
+      ...(cancelled.length > 0
+        ? [
+            `EXDATE;TZID=${timeZone}:${cancelled
+              .map((exception) =>
+                formatLocalDateTime(getWallClock(new Date(exception.occurrenceId), timeZone))
+              )
+              .join(",")}`,
+          ]
+        : []),
+      ...getEventDetails(room, room.name, origin),
+      "END:VEVENT"
+    );
+
+    // Changed occurrences replace theirs in the series
+    const seriesDuration = end.getTime() - start.getTime();
+    for (const exception of exceptions) {
+      if (exception.cancelled) continue;
+      const originalStart = new Date(exception.occurrenceId);
+      const occurrenceStart = exception.scheduleAt
+        ? new Date(exception.scheduleAt)
+        : originalStart;
+      const occurrenceEnd = new Date(
+        occurrenceStart.getTime() +
+          (exception.durationMinutes ? exception.durationMinutes * MINUTE_MS : seriesDuration)
+      );
+      events.push(
+        "BEGIN:VEVENT",
+        uid,
+        stamp,
+        `RECURRENCE-ID${local(originalStart)}`,
+        `DTSTART${local(occurrenceStart)}`,
+        `DTEND${local(occurrenceEnd)}`,
+        ...getEventDetails(room, exception.name || room.name, origin),
+        "END:VEVENT"
+      );
+    }
+  }
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...Array.from(timeZones, ([timeZone, year]) => buildTimeZone(timeZone, year - 1)).flat(),
+    ...events,
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * File name for a meeting invite, e.g. "reunion-de-equipo.ics"
+ */
+export function getIcsFileName(name: string): string {
+  const slug = name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "reunion"}.ics`;
+}
+
+/**
+ * Offer an `.ics` calendar to the user as a file download
+ *
+ * @param content - Output of `buildMeetingCalendar`
+ * @param fileName - Name of the downloaded file
+ */
+export function downloadIcs(content: string, fileName: string): void {
+  downloadBlob(new Blob([content], { type: "text/calendar;charset=utf-8" }), fileName);
+}
+
+/* ------------------------------------------------------------------ */
+/* Import                                                              */
+/* ------------------------------------------------------------------ */
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * A STANDARD or DAYLIGHT block of a VTIMEZONE
+ */
+interface TimeZoneObservance {
+  offsetTo: number; // ms ahead of UTC
+  start: WallClock;
+  rrule?: Record<string, string>;
+}
+
+/**
+ * Undo TEXT escaping (RFC 5545 §3.3.11)
+ */
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+/**
+ * Split an unfolded line into name, parameters and value. Parameter
+ * values may be quoted and contain ':' or ';'.
+ */
+function parseContentLine(line: string): ContentLine | null {
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+  if (colonIndex === -1) return null;
+
+  const head = line.slice(0, colonIndex);
+  const segments = head.match(/(?:[^;"]+|"[^"]*")+/g) || [];
+  const [name, ...rawParams] = segments;
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split("=");
+    params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+  }
+
+  return {
+    name: (name || "").toUpperCase(),
+    params,
+    value: line.slice(colonIndex + 1),
+  };
+}
+
+/**
+ * Read "YYYYMMDD" or "YYYYMMDDTHHMMSS[Z]"
+ */
+function parseDateTimeFields(
+  value: string
+): { fields: WallClock; utc: boolean; dateOnly: boolean } | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, zulu] = match;
+  return {
+    fields: {
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: Number(hour || 0),
+      minute: Number(minute || 0),
+      second: Number(second || 0),
+    },
+    utc: !!zulu,
+    dateOnly: hour === undefined,
+  };
+}
+
+/**
+ * Read a UTC offset such as "+0100" or "-0530" (ms)
+ */
+function parseUtcOffset(value: string): number {
+  const match = value.match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+  if (!match) return 0;
+  const [, sign, hours, minutes, seconds] = match;
+  const ms =
+    (Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds || 0)) * 1000;
+  return sign === "-" ? -ms : ms;
+}
+
+/**
+ * Day of month of e.g. the 2nd Sunday (n = 2) or last Sunday (n = -1)
+ */
+function nthWeekdayOfMonth(
+  year: number,
+  month: number,
+  weekday: number,
+  n: number
+): number {
+  if (n > 0) {
+    const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    return 1 + ((weekday - firstWeekday + 7) % 7) + (n - 1) * 7;
+  }
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const lastWeekday = new Date(Date.UTC(year, month - 1, lastDay)).getUTCDay();
+  return lastDay - ((lastWeekday - weekday + 7) % 7) + (n + 1) * 7;
+}
+
+/**
+ * Wall-clock onset of an observance in the given year, as UTC-ms. Only
+ * the yearly "nth weekday of a month" rules used by real VTIMEZONEs
+ * are supported; other observances start at their DTSTART.
+ */
+function getObservanceOnset(observance: TimeZoneObservance, year: number): number {
+  const { start, rrule } = observance;
+  const byDay = rrule?.BYDAY?.match(/^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/);
+  if (rrule?.FREQ !== "YEARLY" || !rrule.BYMONTH || !byDay) {
+    return wallClockToUtcMs(start);
+  }
+  if (year < start.year) return Number.NEGATIVE_INFINITY;
+
+  const month = Number(rrule.BYMONTH);
+  const day = nthWeekdayOfMonth(
+    year,
+    month,
+    WEEKDAYS.indexOf(byDay[2]),
+    Number(byDay[1] || 1)
+  );
+  return wallClockToUtcMs({ ...start, year, month, day });
+}
+
+/**
+ * Convert wall-clock time using a VTIMEZONE from the file: the offset is
+ * taken from the observance that started most recently
+ */
+function vtimezoneWallClockToDate(
+  fields: WallClock,
+  observances: TimeZoneObservance[]
+): Date | null {
+  const wallClock = wallClockToUtcMs(fields);
+  let current: { onset: number; offsetTo: number } | null = null;
+
+  for (const observance of observances) {
+    for (const year of [fields.year - 1, fields.year]) {
+      const onset = getObservanceOnset(observance, year);
+      if (onset <= wallClock && (!current || onset > current.onset)) {
+        current = { onset, offsetTo: observance.offsetTo };
+      }
+    }
+  }
+
+  return current ? new Date(wallClock - current.offsetTo) : null;
+}
+
+/**
+ * Parse an `.ics` file into its events
+ *
+ * Recurring events keep their RRULE, EXDATEs and time zone; changed
+ * occurrences come as separate events with a `recurrenceId`. Events
+ * without a valid DTSTART are skipped.
+ *
+ * @param text - Content of the file
+ * @returns The events, in file order
+ * @throws Error when the text is not an iCalendar file
+ */
+export function parseIcs(text: string): IcsEvent[] {
+  // Unfold: a line break followed by a space or tab continues the line
+  const lines = text
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .map(parseContentLine)
+    .filter((line): line is ContentLine => line !== null);
+
+  if (!lines.some((line) => line.name === "BEGIN" && line.value.toUpperCase() === "VCALENDAR")) {
+    throw new Error("El archivo no es un calendario iCalendar válido");
+  }
+
+  // First pass: time zones defined inside the file
+  const timeZones = new Map<string, TimeZoneObservance[]>();
+  let zoneId: string | null = null;
+  let observance: Partial<TimeZoneObservance> | null = null;
+
+  for (const line of lines) {
+    const value = line.value.toUpperCase();
+    if (line.name === "BEGIN" && value === "VTIMEZONE") zoneId = "";
+    else if (line.name === "END" && value === "VTIMEZONE") zoneId = null;
+    else if (zoneId === null) continue;
+    else if (line.name === "TZID" && !observance) {
+      zoneId = line.value;
+      timeZones.set(zoneId, []);
+    } else if (line.name === "BEGIN" && (value === "STANDARD" || value === "DAYLIGHT")) {
+      observance = {};
+    } else if (line.name === "END" && observance) {
+      if (observance.start && observance.offsetTo !== undefined) {
+        timeZones.get(zoneId)?.push(observance as TimeZoneObservance);
+      }
+      observance = null;
+    } else if (observance && line.name === "TZOFFSETTO") {
+      observance.offsetTo = parseUtcOffset(line.value);
+    } else if (observance && line.name === "DTSTART") {
+      observance.start = parseDateTimeFields(line.value)?.fields;
+    } else if (observance && line.name === "RRULE") {
+      observance.rrule = Object.fromEntries(
+        line.value.split(";").map((part) => {
+          const [key, ...rest] = part.split("=");
+          return [key.toUpperCase(), rest.join("=").toUpperCase()];
+        })
+      );
+    }
+  }
+
+  const toDate = (line: ContentLine): { date: Date; dateOnly: boolean } | null => {
+    const parsed = parseDateTimeFields(line.value);
+    if (!parsed) return null;
+    const { fields, utc, dateOnly } = parsed;
+
+    if (utc) return { date: new Date(wallClockToUtcMs(fields)), dateOnly };
+
+    const tzid = line.params.TZID;
+    if (tzid && !dateOnly) {
+      const observances = timeZones.get(tzid);
+      if (observances?.length) {
+        const date = vtimezoneWallClockToDate(fields, observances);
+        if (date) return { date, dateOnly };
+      }
+      try {
+        return { date: wallClockToDate(fields, tzid), dateOnly };
+      } catch {
+        console.warn(`[ICS] Unknown time zone "${tzid}", using local time`);
+      }
+    }
+
+    // Floating time and dates: the user's own time zone
+    return {
+      date: new Date(
+        fields.year,
+        fields.month - 1,
+        fields.day,
+        fields.hour,
+        fields.minute,
+        fields.second
+      ),
+      dateOnly,
+    };
+  };
+
+  // Second pass: events
+  const events: IcsEvent[] = [];
+  let current: ContentLine[] | null = null;
+  let depth = 0;
+
+  for (const line of lines) {
+    const value = line.value.toUpperCase();
+    if (line.name === "BEGIN" && value === "VEVENT") {
+      current = [];
+      depth = 0;
+      continue;
+    }
+    if (!current) continue;
+
+    // Skip nested components such as VALARM
+    if (line.name === "BEGIN") depth++;
+    else if (line.name === "END" && value !== "VEVENT") depth--;
+    else if (line.name === "END") {
+      const event = toIcsEvent(current, toDate);
+      if (event) events.push(event);
+      current = null;
+    } else if (depth === 0) current.push(line);
+  }
+
+  return events;
+}
+
+/**
+ * Build an event from the properties of one VEVENT
+ */
+function toIcsEvent(
+  properties: ContentLine[],
+  toDate: (line: ContentLine) => { date: Date; dateOnly: boolean } | null
+): IcsEvent | null {
+  const find = (name: string) => properties.find((line) => line.name === name);
+
+  const dtstart = find("DTSTART");
+  const start = dtstart ? toDate(dtstart) : null;
+  if (!start) return null;
+
+  const dtend = find("DTEND");
+  let end = dtend ? toDate(dtend)?.date ?? null : null;
+  const duration = find("DURATION");
+  if (!end && duration) {
+    const ms = parseDuration(duration.value);
+    if (ms !== null) end = new Date(start.date.getTime() + ms);
+  }
+
+  // EXDATE may repeat and hold several comma separated dates
+  const excludedDates = properties
+    .filter((line) => line.name === "EXDATE")
+    .flatMap((line) =>
+      line.value.split(",").map((value) => toDate({ ...line, value })?.date)
+    )
+    .filter((date): date is Date => !!date);
+
+  const recurrenceIdLine = find("RECURRENCE-ID");
+  const tzid = dtstart?.params.TZID;
+  const timeZone = /Z$/i.test(dtstart?.value || "")
+    ? "UTC"
+    : tzid && isValidTimeZone(tzid)
+      ? tzid
+      : undefined;
+  const description = find("DESCRIPTION");
+  return {
+    uid: find("UID")?.value,
+    summary: unescapeText(find("SUMMARY")?.value || "").trim() || "Reunión importada",
+    description: description ? unescapeText(description.value) : undefined,
+    start: start.date,
+    end,
+    allDay: start.dateOnly,
+    recurrence: find("RRULE")?.value,
+    timeZone,
+    excludedDates,
+    recurrenceId: recurrenceIdLine ? toDate(recurrenceIdLine)?.date : undefined,
+  };
+}
+
+/**
+ * Read a DURATION value such as "PT1H30M" or "P1D" (ms)
+ */
+function parseDuration(value: string): number | null {
+  const match = value.match(
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+  );
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms =
+    ((Number(weeks || 0) * 7 + Number(days || 0)) * 24 * 3600 +
+      Number(hours || 0) * 3600 +
+      Number(minutes || 0) * 60 +
+      Number(seconds || 0)) *
+    1000;
+  return sign === "-" ? -ms : ms;
+}
+
+/**
+ * Schedule of the room to create for an imported event. Recurring events
+ * keep their rule when it is one meetings support (daily, weekly on given
+ * days, or monthly on the same day), with EXDATEs as cancelled
+ * occurrences and the events that change one of their occurrences as
+ * edited ones. Floating times repeat in the local time zone.
+ *
+ * @param event - An event without `recurrenceId`
+ * @param events - Every event of the file, to find changed occurrences
+ */
+export function getIcsRoomSchedule(
+  event: IcsEvent,
+  events: IcsEvent[]
+): RoomScheduleChanges {
+  const schedule: RoomScheduleChanges = {
+    name: event.summary.slice(0, 100),
+    scheduleAt: event.start.toISOString(),
+    durationMinutes: getIcsEventDuration(event),
+  };
+
+  const parts = event.recurrence?.split(";") ?? [];
+  const isSupported =
+    parts.every((part) => SUPPORTED_RULE_PART.test(part)) &&
+    (!/BYDAY=/i.test(event.recurrence || "") || /FREQ=WEEKLY/i.test(event.recurrence || ""));
+  const rule = isSupported ? parseRecurrenceRule(event.recurrence) : null;
+  if (!rule) return schedule;
+
+  const changed = events.filter(
+    (other) => other.recurrenceId && other.uid !== undefined && other.uid === event.uid
+  );
+  const exceptions: RecurrenceException[] = [
+    ...event.excludedDates.map((date) => ({
+      occurrenceId: date.toISOString(),
+      cancelled: true,
+    })),
+    ...changed.map((other) => ({
+      occurrenceId: other.recurrenceId!.toISOString(),
+      name: other.summary.slice(0, 100),
+      scheduleAt: other.start.toISOString(),
+      durationMinutes: getIcsEventDuration(other),
+    })),
+  ];
+
+  return {
+    ...schedule,
+    recurrence: formatRecurrenceRule(rule),
+    recurrenceTimeZone: event.timeZone ?? getLocalTimeZone(),
+    recurrenceExceptions: exceptions,
+  };
+}
+
+/**
+ * Length of an imported event in whole minutes, falling back to the
+ * default meeting length when the file gives no end
+ */
+export function getIcsEventDuration(event: IcsEvent): number {
+  if (!event.end) return DEFAULT_DURATION_MINUTES;
+  const minutes = Math.round((event.end.getTime() - event.start.getTime()) / MINUTE_MS);
+  return minutes > 0 ? minutes : DEFAULT_DURATION_MINUTES;
+}
@@ -0,0 +1,159 @@
+/**
+ * Media Device Selection
+ *
+ * Enumerates cameras, microphones and speakers, remembers the user's choice
+ * per account in localStorage and routes audio output with `setSinkId`
+ * where the browser supports it.
+ */
+
+/**
+ * Devices chosen by the user. Missing entries mean "browser default".
+ */
+export interface MediaDevicePreferences {
+  audioInputId?: string;
+  videoInputId?: string;
+  audioOutputId?: string;
+}
+
+/**
+ * Available devices grouped by kind
+ */
+export interface AvailableMediaDevices {
+  audioInputs: MediaDeviceInfo[];
+  videoInputs: MediaDeviceInfo[];
+  audioOutputs: MediaDeviceInfo[];
+}
+
+const STORAGE_KEY_PREFIX = "mediaDevicePreferences";
+
+/**
+ * List the media devices, grouped by kind
+ *
+ * Labels are only filled in once the page has been granted camera or
+ * microphone access.
+ *
+ * @returns The available cameras, microphones and speakers
+ */
+export async function listMediaDevices(): Promise<AvailableMediaDevices> {
+  const devices: AvailableMediaDevices = {
+    audioInputs: [],
+    videoInputs: [],
+    audioOutputs: [],
+  };
+
+  if (!navigator.mediaDevices?.enumerateDevices) {
+    return devices;
+  }
+
+  try {
+    const all = await navigator.mediaDevices.enumerateDevices();
+    all.forEach((device) => {
+      if (!device.deviceId) return;
+      if (device.kind === "audioinput") devices.audioInputs.push(device);
+      if (device.kind === "videoinput") devices.videoInputs.push(device);
+      if (device.kind === "audiooutput") devices.audioOutputs.push(device);
+    });
+  } catch (error) {
+    console.error("[DEVICES] ❌ Error enumerating media devices:", error);
+  }
+
+  return devices;
+}
+
+/**
+ * Label to show for a device, with a fallback when the browser hides it
+ *
+ * @param device - The device to describe
+ * @param index - Position of the device in its list
+ */
+export function getDeviceLabel(device: MediaDeviceInfo, index: number): string {
+  if (device.label) return device.label;
+
+  switch (device.kind) {
+    case "audioinput":
+      return `Micrófono ${index + 1}`;
+    case "videoinput":
+      return `Cámara ${index + 1}`;
+    default:
+      return `Altavoz ${index + 1}`;
+  }
+}
+
+/**
+ * Check whether the browser can route audio to a chosen output device
+ */
+export function supportsAudioOutputSelection(): boolean {
+  return (
+    typeof HTMLMediaElement !== "undefined" &&
+    "setSinkId" in HTMLMediaElement.prototype
+  );
+}
+
+/**
+ * Send an element's audio to the given output device
+ *
+ * @param element - Audio or video element playing remote audio
+ * @param deviceId - Output device ID, or undefined for the default one
+ */
+export async function applyAudioOutput(
+  element: HTMLMediaElement,
+  deviceId: string | undefined
+): Promise<void> {
+  if (!supportsAudioOutputSelection()) return;
+
+  try {
+    await element.setSinkId(deviceId || "");
+  } catch (error) {
+    console.warn("[DEVICES] ⚠️ Could not set audio output:", error);
+  }
+}
+
+/**
+ * Read the saved device choice of a user
+ *
+ * @param userId - The user the preferences belong to
+ */
+export function loadDevicePreferences(userId: string): MediaDevicePreferences {
+  try {
+    const saved = localStorage.getItem(`${STORAGE_KEY_PREFIX}:${userId}`);
+    return saved ? (JSON.parse(saved) as MediaDevicePreferences) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Save the device choice of a user
+ *
+ * @param userId - The user the preferences belong to
+ * @param preferences - The devices to remember
+ */
+export function saveDevicePreferences(
+  userId: string,
+  preferences: MediaDevicePreferences
+): void {
+  try {
+    localStorage.setItem(
+      `${STORAGE_KEY_PREFIX}:${userId}`,
+      JSON.stringify(preferences)
+    );
+  } catch (error) {
+    console.warn("[DEVICES] ⚠️ Could not save device preferences:", error);
+  }
+}
+
+/**
+ * Run a handler whenever a device is plugged in or unplugged
+ *
+ * @param handler - Called after every `devicechange` event
+ * @returns Function that removes the listener
+ */
+export function watchMediaDevices(handler: () => void): () => void {
+  if (!navigator.mediaDevices?.addEventListener) {
+    return () => {};
+  }
+
+  navigator.mediaDevices.addEventListener("devicechange", handler);
+  return () =>
+    navigator.mediaDevices.removeEventListener("devicechange", handler);
+}
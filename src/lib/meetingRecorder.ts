@@ -0,0 +1,309 @@
+/**
+ * Meeting Recorder
+ *
+ * Records a meeting locally in the browser:
+ * - every participant's video tile is drawn onto a canvas in a grid
+ * - local and remote audio tracks are mixed with Web Audio
+ * - the canvas and mixed audio are recorded with `MediaRecorder` as WebM
+ *
+ * Drawing runs on a timer, so browsers may slow it down while the tab is
+ * in the background; audio keeps recording normally.
+ */
+
+/**
+ * One tile drawn on the recording canvas
+ */
+export interface RecordingSource {
+  userId: string;
+  label: string;
+  video: HTMLVideoElement | null;
+}
+
+const CANVAS_WIDTH = 1280;
+const CANVAS_HEIGHT = 720;
+const FRAME_RATE = 30;
+const TILE_GAP = 8;
+const BACKGROUND_COLOR = "#18191a";
+const TILE_COLOR = "#202124";
+const ACCENT_COLOR = "#24c4e8";
+
+/**
+ * Container formats to try, best first
+ */
+const MIME_TYPES = [
+  "video/webm;codecs=vp9,opus",
+  "video/webm;codecs=vp8,opus",
+  "video/webm",
+];
+
+/**
+ * Meeting Recorder class
+ * Composites tiles and mixes audio into a single WebM recording
+ */
+class MeetingRecorder {
+  private canvas: HTMLCanvasElement | null = null;
+  private drawTimer: ReturnType<typeof setInterval> | null = null;
+  private audioContext: AudioContext | null = null;
+  private audioDestination: MediaStreamAudioDestinationNode | null = null;
+  private audioSources: Map<string, MediaStreamAudioSourceNode> = new Map();
+  private mediaRecorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private startedAt: number | null = null;
+
+  /**
+   * Check whether the browser can record meetings
+   */
+  static isSupported(): boolean {
+    return (
+      typeof MediaRecorder !== "undefined" &&
+      typeof HTMLCanvasElement.prototype.captureStream === "function" &&
+      MIME_TYPES.some((type) => MediaRecorder.isTypeSupported(type))
+    );
+  }
+
+  /**
+   * Start recording
+   *
+   * @param getSources - Returns the tiles to draw; called on every frame so
+   *                     participants joining or leaving show up right away
+   * @param audioStreams - Streams whose audio is mixed in from the start
+   */
+  start(getSources: () => RecordingSource[], audioStreams: MediaStream[]): void {
+    if (this.mediaRecorder) {
+      console.warn("[RECORDER] ⚠️ Recording already in progress");
+      return;
+    }
+
+    const mimeType = MIME_TYPES.find((type) =>
+      MediaRecorder.isTypeSupported(type)
+    );
+    if (!mimeType) {
+      throw new Error("WebM recording is not supported by this browser");
+    }
+
+    this.canvas = document.createElement("canvas");
+    this.canvas.width = CANVAS_WIDTH;
+    this.canvas.height = CANVAS_HEIGHT;
+    const context = this.canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Canvas 2D context is not available");
+    }
+
+    this.audioContext = new AudioContext();
+    this.audioDestination = this.audioContext.createMediaStreamDestination();
+    audioStreams.forEach((stream) => this.addAudioStream(stream));
+
+    this.drawTimer = setInterval(
+      () => this.drawFrame(context, getSources()),
+      1000 / FRAME_RATE
+    );
+
+    const recordedStream = new MediaStream([
+      ...this.canvas.captureStream(FRAME_RATE).getVideoTracks(),
+      ...this.audioDestination.stream.getAudioTracks(),
+    ]);
+
+    this.chunks = [];
+    this.mediaRecorder = new MediaRecorder(recordedStream, { mimeType });
+    this.mediaRecorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        this.chunks.push(event.data);
+      }
+    };
+    // Emit a chunk every second so a crash loses little data
+    this.mediaRecorder.start(1000);
+    this.startedAt = Date.now();
+    console.log(`[RECORDER] 🔴 Recording started (${mimeType})`);
+  }
+
+  /**
+   * Mix the audio of a stream into the recording
+   *
+   * Safe to call again with the same stream; each audio track is only
+   * connected once.
+   *
+   * @param stream - Local or remote stream
+   */
+  addAudioStream(stream: MediaStream): void {
+    if (!this.audioContext || !this.audioDestination) return;
+
+    stream.getAudioTracks().forEach((track) => {
+      if (this.audioSources.has(track.id)) return;
+
+      const source = this.audioContext!.createMediaStreamSource(
+        new MediaStream([track])
+      );
+      source.connect(this.audioDestination!);
+      this.audioSources.set(track.id, source);
+    });
+  }
+
+  /**
+   * Check whether a recording is in progress
+   */
+  isRecording(): boolean {
+    return this.mediaRecorder !== null;
+  }
+
+  /**
+   * Get the time the current recording started
+   *
+   * @returns Epoch milliseconds, or null when not recording
+   */
+  getStartedAt(): number | null {
+    return this.startedAt;
+  }
+
+  /**
+   * Stop recording and release the canvas and audio graph
+   *
+   * @returns The WebM recording, or null if nothing was recorded
+   */
+  stop(): Promise<Blob | null> {
+    const mediaRecorder = this.mediaRecorder;
+    if (!mediaRecorder) {
+      return Promise.resolve(null);
+    }
+
+    // Already stopped on its own (error, ended track): onstop won't fire again
+    if (mediaRecorder.state === "inactive") {
+      this.release();
+      return Promise.resolve(this.takeRecording());
+    }
+
+    return new Promise((resolve) => {
+      mediaRecorder.onstop = () => resolve(this.takeRecording());
+      mediaRecorder.stop();
+      this.release();
+    });
+  }
+
+  /**
+   * Turn the collected chunks into the final recording
+   *
+   * @returns The WebM recording, or null if no data was collected
+   */
+  private takeRecording(): Blob | null {
+    if (this.chunks.length === 0) return null;
+
+    const blob = new Blob(this.chunks, { type: "video/webm" });
+    this.chunks = [];
+    console.log(
+      `[RECORDER] ⏹️ Recording stopped (${Math.round(blob.size / 1024)} KB)`
+    );
+    return blob;
+  }
+
+  /**
+   * Tear down everything created for the recording
+   */
+  private release(): void {
+    if (this.drawTimer) {
+      clearInterval(this.drawTimer);
+      this.drawTimer = null;
+    }
+    this.mediaRecorder?.stream.getTracks().forEach((track) => track.stop());
+    this.mediaRecorder = null;
+    this.audioSources.forEach((source) => source.disconnect());
+    this.audioSources.clear();
+    this.audioContext?.close().catch(() => {
+      // Already closed
+    });
+    this.audioContext = null;
+    this.audioDestination = null;
+    this.canvas = null;
+    this.startedAt = null;
+  }
+
+  /**
+   * Draw all tiles in a grid that fills the canvas
+   */
+  private drawFrame(
+    context: CanvasRenderingContext2D,
+    sources: RecordingSource[]
+  ): void {
+    context.fillStyle = BACKGROUND_COLOR;
+    context.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    if (sources.length === 0) return;
+
+    const columns = Math.ceil(Math.sqrt(sources.length));
+    const rows = Math.ceil(sources.length / columns);
+    const tileWidth = (CANVAS_WIDTH - TILE_GAP * (columns + 1)) / columns;
+    const tileHeight = (CANVAS_HEIGHT - TILE_GAP * (rows + 1)) / rows;
+
+    sources.forEach((source, index) => {
+      const x = TILE_GAP + (index % columns) * (tileWidth + TILE_GAP);
+      const y = TILE_GAP + Math.floor(index / columns) * (tileHeight + TILE_GAP);
+      this.drawTile(context, source, x, y, tileWidth, tileHeight);
+    });
+  }
+
+  /**
+   * Draw one participant: their video (cropped to fill the tile) or an
+   * avatar with their initial, plus a name label
+   */
+  private drawTile(
+    context: CanvasRenderingContext2D,
+    source: RecordingSource,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): void {
+    context.fillStyle = TILE_COLOR;
+    context.fillRect(x, y, width, height);
+
+    const video = source.video;
+    if (video && video.readyState >= 2 && video.videoWidth > 0) {
+      const scale = Math.max(
+        width / video.videoWidth,
+        height / video.videoHeight
+      );
+      const cropWidth = width / scale;
+      const cropHeight = height / scale;
+      context.drawImage(
+        video,
+        (video.videoWidth - cropWidth) / 2,
+        (video.videoHeight - cropHeight) / 2,
+        cropWidth,
+        cropHeight,
+        x,
+        y,
+        width,
+        height
+      );
+    } else {
+      const radius = Math.min(width, height) / 5;
+      context.fillStyle = ACCENT_COLOR;
+      context.beginPath();
+      context.arc(x + width / 2, y + height / 2, radius, 0, Math.PI * 2);
+      context.fill();
+
+      context.fillStyle = "#ffffff";
+      context.font = `700 ${Math.round(radius)}px Rubik, sans-serif`;
+      context.textAlign = "center";
+      context.textBaseline = "middle";
+      context.fillText(
+        (source.label[0] || "?").toUpperCase(),
+        x + width / 2,
+        y + height / 2
+      );
+    }
+
+    const fontSize = Math.max(Math.round(height / 18), 12);
+    context.font = `600 ${fontSize}px Rubik, sans-serif`;
+    context.textAlign = "left";
+    context.textBaseline = "middle";
+    const labelWidth = context.measureText(source.label).width + fontSize;
+    context.fillStyle = "rgba(0, 0, 0, 0.7)";
+    context.fillRect(x + 8, y + height - fontSize * 2 - 8, labelWidth, fontSize * 2);
+    context.fillStyle = "#ffffff";
+    context.fillText(
+      source.label,
+      x + 8 + fontSize / 2,
+      y + height - fontSize - 8
+    );
+  }
+}
+
+export { MeetingRecorder };
@@ -0,0 +1,93 @@
+/**
+ * Meeting Reactions
+ *
+ * Emoji reactions that participants can send during a meeting, and a
+ * per-user rate limiter so nobody can flood the room with them.
+ */
+
+/**
+ * A reaction that can be sent, with the label read by screen readers
+ */
+export interface ReactionOption {
+  emoji: string;
+  label: string;
+}
+
+/**
+ * Reactions offered in the picker. Incoming reactions outside this list
+ * are ignored.
+ */
+export const REACTIONS: ReactionOption[] = [
+  { emoji: "👍", label: "Me gusta" },
+  { emoji: "👏", label: "Aplausos" },
+  { emoji: "😂", label: "Risa" },
+  { emoji: "❤️", label: "Me encanta" },
+  { emoji: "🎉", label: "Celebración" },
+  { emoji: "😮", label: "Sorpresa" },
+];
+
+/**
+ * How long a reaction stays on screen
+ */
+export const REACTION_DURATION_MS = 3000;
+
+/**
+ * Reactions allowed per user within the rate limit window
+ */
+const MAX_REACTIONS_PER_WINDOW = 5;
+
+/**
+ * Length of the rate limit window
+ */
+const RATE_LIMIT_WINDOW_MS = 5000;
+
+/**
+ * Find the picker option for an emoji
+ *
+ * @param emoji - The received emoji
+ * @returns The matching option, or undefined if it is not allowed
+ */
+export function getReactionOption(emoji: string): ReactionOption | undefined {
+  return REACTIONS.find((reaction) => reaction.emoji === emoji);
+}
+
+/**
+ * Reaction Rate Limiter class
+ * Sliding window limit, tracked separately for every user
+ */
+class ReactionRateLimiter {
+  private history: Map<string, number[]> = new Map();
+
+  /**
+   * Record a reaction if the user is still under the limit
+   *
+   * @param userId - Who is reacting
+   * @returns True if the reaction may be sent or shown
+   */
+  allow(userId: string): boolean {
+    const now = Date.now();
+    const recent = (this.history.get(userId) ?? []).filter(
+      (time) => now - time < RATE_LIMIT_WINDOW_MS
+    );
+
+    if (recent.length >= MAX_REACTIONS_PER_WINDOW) {
+      this.history.set(userId, recent);
+      return false;
+    }
+
+    recent.push(now);
+    this.history.set(userId, recent);
+    return true;
+  }
+
+  /**
+   * Forget a user's history (e.g. when they leave)
+   *
+   * @param userId - The user to forget
+   */
+  reset(userId: string): void {
+    this.history.delete(userId);
+  }
+}
+
+export { ReactionRateLimiter };
@@ -0,0 +1,437 @@
+/**
+ * Recurring Meetings
+ *
+ * A recurring room is a single room (one stable `/join/:meetingId` link)
+ * whose `scheduleAt` is the first occurrence and whose `recurrence` is an
+ * RRULE-style string (subset of RFC 5545 §3.3.10):
+ *
+ *   FREQ=DAILY|WEEKLY|MONTHLY;INTERVAL=n;BYDAY=MO,WE;UNTIL=...Z|COUNT=n
+ *
+ * Occurrences are expanded in the series' own time zone
+ * (`recurrenceTimeZone`, stored when the series is scheduled), so a
+ * weekly meeting at 09:00 stays at 09:00 across DST changes and every
+ * viewer gets the same occurrences whatever their own time zone. Single
+ * occurrences are moved, renamed or cancelled through
+ * `recurrenceExceptions`, keyed by the original start of the occurrence.
+ */
+
+import type { RecurrenceException, Room } from "../services/room.service";
+import {
+  DEFAULT_DURATION_MINUTES,
+  addDays,
+  getScheduledEnd,
+  getScheduledStart,
+} from "./schedule";
+import {
+  getLocalTimeZone,
+  getWallClock,
+  isValidTimeZone,
+  wallClockToDate,
+  type WallClock,
+} from "./timeZones";
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+/**
+ * Weekday codes, Monday first as in the calendar
+ */
+export const WEEKDAY_CODES = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+export type WeekdayCode = (typeof WEEKDAY_CODES)[number];
+
+export const WEEKDAY_NAMES: Record<WeekdayCode, string> = {
+  MO: "lunes",
+  TU: "martes",
+  WE: "miércoles",
+  TH: "jueves",
+  FR: "viernes",
+  SA: "sábados",
+  SU: "domingos",
+};
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  /** Weekly only; defaults to the weekday of the first occurrence */
+  byDay?: WeekdayCode[];
+  until?: Date | null;
+  count?: number | null;
+}
+
+/**
+ * A room as shown in lists and calendars: either a one-off meeting or one
+ * occurrence of a recurring series, with the occurrence's own start,
+ * duration and name
+ */
+export type ScheduledMeeting = Room & {
+  /** Original start (ISO) of the occurrence; unset for one-off meetings */
+  occurrenceId?: string;
+  /** The recurring room the occurrence belongs to */
+  series?: Room;
+};
+
+// Stops runaway expansion of long daily series
+const MAX_GENERATED = 5000;
+// How far ahead to look for the current occurrence of a series
+const CURRENT_OCCURRENCE_HORIZON_DAYS = 400;
+
+/**
+ * Weekday code of a date, in local time or in the given time zone
+ */
+export function getWeekdayCode(date: Date, timeZone?: string): WeekdayCode {
+  if (!timeZone) return WEEKDAY_CODES[(date.getDay() + 6) % 7];
+  const { year, month, day } = getWallClock(date, timeZone);
+  return WEEKDAY_CODES[(new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7];
+}
+
+/**
+ * Time zone a series is expanded in. Series scheduled before the zone
+ * was stored, or with a zone `Intl` doesn't know, use the local one.
+ */
+export function getSeriesTimeZone(room: Room): string {
+  const timeZone = room.recurrenceTimeZone;
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : getLocalTimeZone();
+}
+
+/**
+ * Format a date as a UTC DATE-TIME, e.g. 20250301T143000Z
+ */
+function formatUntil(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Serialize a rule for `Room.recurrence`
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`, `INTERVAL=${Math.max(1, rule.interval)}`];
+  if (rule.freq === "WEEKLY" && rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.join(",")}`);
+  }
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  else if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(";");
+}
+
+/**
+ * Read `Room.recurrence`
+ *
+ * @returns The rule, or null when the string is empty or unsupported
+ */
+export function parseRecurrenceRule(value?: string | null): RecurrenceRule | null {
+  if (!value) return null;
+
+  const fields = Object.fromEntries(
+    value
+      .replace(/^RRULE:/i, "")
+      .split(";")
+      .map((part) => {
+        const [key, ...rest] = part.split("=");
+        return [key.toUpperCase(), rest.join("=").toUpperCase()];
+      })
+  );
+
+  const freq = fields.FREQ as RecurrenceFrequency;
+  if (!["DAILY", "WEEKLY", "MONTHLY"].includes(freq)) return null;
+
+  const untilMatch = fields.UNTIL?.match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/
+  );
+  const until = untilMatch
+    ? new Date(
+        Date.UTC(
+          Number(untilMatch[1]),
+          Number(untilMatch[2]) - 1,
+          Number(untilMatch[3]),
+          Number(untilMatch[4] ?? 23),
+          Number(untilMatch[5] ?? 59),
+          Number(untilMatch[6] ?? 59)
+        )
+      )
+    : null;
+
+  const byDay = fields.BYDAY
+    ? (fields.BYDAY.split(",").filter((code: string) =>
+        (WEEKDAY_CODES as readonly string[]).includes(code)
+      ) as WeekdayCode[])
+    : undefined;
+
+  return {
+    freq,
+    interval: Math.max(1, Number(fields.INTERVAL) || 1),
+    byDay: byDay?.length ? byDay : undefined,
+    until,
+    count: fields.COUNT ? Number(fields.COUNT) || null : null,
+  };
+}
+
+/**
+ * Candidate start times of a series, in order, before COUNT/UNTIL. Days
+ * are counted on the series' wall clock, at the time of the first start.
+ */
+function* generateStarts(
+  rule: RecurrenceRule,
+  first: Date,
+  timeZone: string
+): Generator<Date> {
+  const origin = getWallClock(first, timeZone);
+  // Calendar arithmetic on the wall-clock date; Date.UTC rolls over months
+  const onDay = (dayOffset: number, monthOffset = 0): WallClock => {
+    const day = new Date(
+      Date.UTC(origin.year, origin.month - 1 + monthOffset, origin.day + dayOffset)
+    );
+    return {
+      ...origin,
+      year: day.getUTCFullYear(),
+      month: day.getUTCMonth() + 1,
+      day: day.getUTCDate(),
+    };
+  };
+
+  if (rule.freq === "DAILY") {
+    for (let i = 0; ; i++) yield wallClockToDate(onDay(i * rule.interval), timeZone);
+  }
+
+  if (rule.freq === "WEEKLY") {
+    const days = (rule.byDay?.length ? rule.byDay : [getWeekdayCode(first, timeZone)])
+      .map((code) => WEEKDAY_CODES.indexOf(code))
+      .sort((a, b) => a - b);
+    const mondayOffset = -WEEKDAY_CODES.indexOf(getWeekdayCode(first, timeZone));
+
+    for (let week = 0; ; week++) {
+      for (const index of days) {
+        const start = wallClockToDate(
+          onDay(mondayOffset + week * 7 * rule.interval + index),
+          timeZone
+        );
+        if (start >= first) yield start;
+      }
+    }
+  }
+
+  // MONTHLY: same day of the month; months without that day are skipped
+  for (let month = 0; ; month++) {
+    const fields = onDay(0, month * rule.interval);
+    if (fields.day === origin.day) yield wallClockToDate(fields, timeZone);
+  }
+}
+
+/**
+ * Original start times of a recurring room before `to`, with COUNT and
+ * UNTIL applied but exceptions not
+ */
+function* getOriginalStarts(room: Room, to: Date): Generator<Date> {
+  const rule = parseRecurrenceRule(room.recurrence);
+  const first = getScheduledStart(room);
+  if (!rule || !first) return;
+
+  let generated = 0;
+  for (const originalStart of generateStarts(rule, first, getSeriesTimeZone(room))) {
+    generated++;
+    if (
+      generated > MAX_GENERATED ||
+      (rule.count && generated > rule.count) ||
+      (rule.until && originalStart > rule.until) ||
+      originalStart >= to
+    ) {
+      return;
+    }
+    yield originalStart;
+  }
+}
+
+/**
+ * Occurrences of a recurring room that overlap [from, to), with
+ * exceptions applied and cancelled occurrences left out. An occurrence
+ * is placed by its effective start and end, so one moved into the range
+ * from a later date is included and one moved out of it is not.
+ *
+ * @param room - A room with `scheduleAt` and `recurrence`
+ * @param from - Start of the range
+ * @param to - End of the range
+ */
+export function expandOccurrences(room: Room, from: Date, to: Date): ScheduledMeeting[] {
+  const exceptions = new Map<string, RecurrenceException>(
+    (room.recurrenceExceptions || []).map((exception) => [
+      exception.occurrenceId,
+      exception,
+    ])
+  );
+  const seriesDuration = room.durationMinutes || DEFAULT_DURATION_MINUTES;
+  const occurrences: ScheduledMeeting[] = [];
+
+  // Look past `to` for occurrences that were moved back into the range
+  const movedIn = Array.from(exceptions.values())
+    .filter((exception) => exception.scheduleAt && new Date(exception.scheduleAt) < to)
+    .map((exception) => new Date(exception.occurrenceId).getTime() + 1);
+  const horizon = new Date(Math.max(to.getTime(), ...movedIn));
+
+  for (const originalStart of getOriginalStarts(room, horizon)) {
+    const occurrenceId = originalStart.toISOString();
+    const exception = exceptions.get(occurrenceId);
+    if (exception?.cancelled) continue;
+
+    const occurrence: ScheduledMeeting = {
+      ...room,
+      name: exception?.name || room.name,
+      scheduleAt: exception?.scheduleAt || occurrenceId,
+      durationMinutes: exception?.durationMinutes || seriesDuration,
+      occurrenceId,
+      series: room,
+    };
+    if (getScheduledStart(occurrence)! < to && getScheduledEnd(occurrence)! > from) {
+      occurrences.push(occurrence);
+    }
+  }
+
+  return occurrences.sort(
+    (a, b) => getScheduledStart(a)!.getTime() - getScheduledStart(b)!.getTime()
+  );
+}
+
+/**
+ * Turn rooms returned by `getScheduledRooms` into the meetings to show:
+ * one-off rooms as they are, recurring rooms as their occurrences in
+ * the range
+ */
+export function expandScheduledMeetings(
+  rooms: Room[],
+  from: Date,
+  to: Date
+): ScheduledMeeting[] {
+  return rooms.flatMap((room) =>
+    room.recurrence ? expandOccurrences(room, from, to) : [room]
+  );
+}
+
+/**
+ * The occurrence a stable join link leads to: the one in progress, or
+ * else the next one that is not cancelled, by their effective start
+ *
+ * @param room - Any room; one-off rooms are returned unchanged
+ * @param now - Current time in epoch milliseconds
+ * @returns The occurrence, or the room itself when the series is over
+ */
+export function getCurrentOccurrence(
+  room: Room,
+  now: number = Date.now()
+): ScheduledMeeting {
+  if (!room.recurrence) return room;
+
+  const from = new Date(now);
+  const [current] = expandOccurrences(
+    room,
+    from,
+    addDays(from, CURRENT_OCCURRENCE_HORIZON_DAYS)
+  );
+  return current || room;
+}
+
+/**
+ * Record a change to one occurrence, replacing any earlier change to it
+ */
+export function upsertRecurrenceException(
+  room: Room,
+  exception: RecurrenceException
+): RecurrenceException[] {
+  return [
+    ...(room.recurrenceExceptions || []).filter(
+      (existing) => existing.occurrenceId !== exception.occurrenceId
+    ),
+    exception,
+  ];
+}
+
+/**
+ * Carry the exceptions of a series over to a new start or rule. Each
+ * exception follows its occurrence to the new occurrence on the same
+ * day; exceptions whose day is no longer part of the series are dropped.
+ *
+ * @param series - The series as stored, with its exceptions
+ * @param updated - The series with its new `scheduleAt`, `recurrence`
+ *                  and `recurrenceTimeZone`
+ * @returns The exceptions to store, and how many were dropped
+ */
+export function remapRecurrenceExceptions(
+  series: Room,
+  updated: Room
+): { exceptions: RecurrenceException[]; dropped: number } {
+  const exceptions = series.recurrenceExceptions || [];
+  if (exceptions.length === 0 || !updated.recurrence) {
+    return { exceptions: [], dropped: exceptions.length };
+  }
+
+  const dayKey = (date: Date, timeZone: string) => {
+    const { year, month, day } = getWallClock(date, timeZone);
+    return `${year}-${month}-${day}`;
+  };
+  const latest = Math.max(
+    ...exceptions.map((exception) => new Date(exception.occurrenceId).getTime())
+  );
+
+  const newTimeZone = getSeriesTimeZone(updated);
+  const newIds = new Map<string, string>();
+  for (const start of getOriginalStarts(updated, addDays(new Date(latest), 2))) {
+    newIds.set(dayKey(start, newTimeZone), start.toISOString());
+  }
+
+  const oldTimeZone = getSeriesTimeZone(series);
+  const remapped = exceptions.flatMap((exception) => {
+    const occurrenceId = newIds.get(
+      dayKey(new Date(exception.occurrenceId), oldTimeZone)
+    );
+    return occurrenceId ? [{ ...exception, occurrenceId }] : [];
+  });
+
+  return { exceptions: remapped, dropped: exceptions.length - remapped.length };
+}
+
+/**
+ * Human readable rule, e.g. "Cada semana los lunes y miércoles"
+ *
+ * @param rule - The rule
+ * @param first - First occurrence, used for the day of the month
+ * @param timeZone - Time zone of the series, when not the local one
+ */
+export function describeRecurrence(
+  rule: RecurrenceRule,
+  first?: Date | null,
+  timeZone?: string
+): string {
+  const joinNames = (names: string[]) =>
+    names.length > 1
+      ? `${names.slice(0, -1).join(", ")} y ${names[names.length - 1]}`
+      : names[0];
+
+  let text: string;
+  if (rule.freq === "DAILY") {
+    text = rule.interval === 1 ? "Todos los días" : `Cada ${rule.interval} días`;
+  } else if (rule.freq === "WEEKLY") {
+    text = rule.interval === 1 ? "Cada semana" : `Cada ${rule.interval} semanas`;
+    const days = rule.byDay?.length
+      ? rule.byDay
+      : first
+        ? [getWeekdayCode(first, timeZone)]
+        : [];
+    if (days.length) {
+      const ordered = WEEKDAY_CODES.filter((code) => days.includes(code));
+      text += ` los ${joinNames(ordered.map((code) => WEEKDAY_NAMES[code]))}`;
+    }
+  } else {
+    text = rule.interval === 1 ? "Cada mes" : `Cada ${rule.interval} meses`;
+    if (first) {
+      text += ` el día ${timeZone ? getWallClock(first, timeZone).day : first.getDate()}`;
+    }
+  }
+
+  if (rule.until) {
+    text += `, hasta el ${rule.until.toLocaleDateString("es-ES", {
+      day: "numeric",
+      month: "long",
+      year: "numeric",
+    })}`;
+  } else if (rule.count) {
+    text += `, ${rule.count} veces`;
+  }
+
+  return text;
+}
@@ -0,0 +1,229 @@
+/**
+ * Scheduled Meetings
+ *
+ * Date helpers for meetings planned with `Room.scheduleAt`: building the
+ * start time from the schedule form, the days shown by the week and month
+ * calendars, and the window in which participants may join.
+ *
+ * All calendar math uses the browser's local time zone; `scheduleAt` is
+ * stored as an ISO string (UTC).
+ */
+
+import type { Room } from "../services/room.service";
+
+/**
+ * How long before the scheduled start participants may join
+ */
+export const EARLY_JOIN_MINUTES = 10;
+
+/**
+ * Meeting lengths offered by the schedule form (minutes)
+ */
+export const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120];
+
+/**
+ * Length assumed for scheduled meetings that do not store one
+ */
+export const DEFAULT_DURATION_MINUTES = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Layouts of the dashboard calendar
+ */
+export type CalendarView = "week" | "month";
+
+/**
+ * Midnight (local time) of the given day
+ */
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Same time of day, `days` days later (or earlier when negative)
+ */
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Check whether two dates fall on the same local day
+ */
+export function isSameDay(a: Date, b: Date): boolean {
+  return (
+    a.getFullYear() === b.getFullYear() &&
+    a.getMonth() === b.getMonth() &&
+    a.getDate() === b.getDate()
+  );
+}
+
+/**
+ * Monday of the week containing the given day
+ */
+export function startOfWeek(date: Date): Date {
+  const day = startOfDay(date);
+  // getDay(): 0 = Sunday, weeks start on Monday
+  return addDays(day, -((day.getDay() + 6) % 7));
+}
+
+/**
+ * The seven days (Monday to Sunday) of the week containing `date`
+ */
+export function getWeekDays(date: Date): Date[] {
+  const monday = startOfWeek(date);
+  return Array.from({ length: 7 }, (_, index) => addDays(monday, index));
+}
+
+/**
+ * Full weeks covering the month of `date`, Monday first. Days from the
+ * previous/next month pad the first and last week.
+ */
+export function getMonthWeeks(date: Date): Date[][] {
+  const firstOfMonth = new Date(date.getFullYear(), date.getMonth(), 1);
+  const lastOfMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0);
+  const weeks: Date[][] = [];
+
+  for (
+    let monday = startOfWeek(firstOfMonth);
+    monday <= lastOfMonth;
+    monday = addDays(monday, 7)
+  ) {
+    weeks.push(Array.from({ length: 7 }, (_, index) => addDays(monday, index)));
+  }
+
+  return weeks;
+}
+
+/**
+ * First and last instant shown by the calendar around `date`
+ *
+ * @returns `from` (inclusive) and `to` (exclusive), suitable for
+ * `getScheduledRooms`
+ */
+export function getCalendarRange(
+  view: CalendarView,
+  date: Date
+): { from: Date; to: Date } {
+  if (view === "week") {
+    const from = startOfWeek(date);
+    return { from, to: addDays(from, 7) };
+  }
+
+  const weeks = getMonthWeeks(date);
+  return { from: weeks[0][0], to: addDays(weeks[weeks.length - 1][6], 1) };
+}
+
+/**
+ * Same position one week or one month earlier/later
+ *
+ * @param step - -1 for the previous period, 1 for the next one
+ */
+export function shiftCalendarDate(
+  view: CalendarView,
+  date: Date,
+  step: number
+): Date {
+  if (view === "week") return addDays(date, 7 * step);
+  return new Date(date.getFullYear(), date.getMonth() + step, 1);
+}
+
+/**
+ * Build a start time from the `<input type="date">` and
+ * `<input type="time">` values of the schedule form
+ *
+ * @param date - "YYYY-MM-DD"
+ * @param time - "HH:MM"
+ * @returns The local date and time, or null if either value is invalid
+ */
+export function combineDateAndTime(date: string, time: string): Date | null {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  if ([year, month, day, hours, minutes].some((value) => Number.isNaN(value))) {
+    return null;
+  }
+  return new Date(year, month - 1, day, hours, minutes);
+}
+
+/**
+ * Value for an `<input type="date">` showing the given day
+ */
+export function toDateInputValue(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Scheduled start of a meeting, or null for instant meetings
+ */
+export function getScheduledStart(room: Room): Date | null {
+  if (!room.scheduleAt) return null;
+  const start = new Date(room.scheduleAt);
+  return Number.isNaN(start.getTime()) ? null : start;
+}
+
+/**
+ * Scheduled end of a meeting (start + duration)
+ */
+export function getScheduledEnd(room: Room): Date | null {
+  const start = getScheduledStart(room);
+  if (!start) return null;
+  return new Date(
+    start.getTime() +
+      (room.durationMinutes || DEFAULT_DURATION_MINUTES) * 60 * 1000
+  );
+}
+
+/**
+ * Time from which participants may join a scheduled meeting
+ */
+export function getJoinOpensAt(room: Room): Date | null {
+  const start = getScheduledStart(room);
+  if (!start) return null;
+  return new Date(start.getTime() - EARLY_JOIN_MINUTES * 60 * 1000);
+}
+
+/**
+ * Check whether it is still too early to join a scheduled meeting
+ *
+ * @param room - The meeting
+ * @param now - Current time in epoch milliseconds
+ */
+export function isTooEarlyToJoin(room: Room, now: number = Date.now()): boolean {
+  const opensAt = getJoinOpensAt(room);
+  return !!opensAt && now < opensAt.getTime();
+}
+
+/**
+ * Scheduled meetings starting on the given day, earliest first
+ */
+export function getMeetingsOnDay<T extends Room>(rooms: T[], day: Date): T[] {
+  return rooms
+    .filter((room) => {
+      const start = getScheduledStart(room);
+      return !!start && isSameDay(start, day);
+    })
+    .sort(
+      (a, b) =>
+        getScheduledStart(a)!.getTime() - getScheduledStart(b)!.getTime()
+    );
+}
+
+/**
+ * Human readable "starts in" text, e.g. "2 h 5 min" or "3 días"
+ *
+ * @param ms - Remaining time in milliseconds
+ */
+export function formatTimeUntil(ms: number): string {
+  if (ms <= 0) return "ahora";
+  if (ms >= 2 * DAY_MS) return `${Math.floor(ms / DAY_MS)} días`;
+
+  const totalMinutes = Math.ceil(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) return `${minutes} min`;
+  return minutes > 0 ? `${hours} h ${minutes} min` : `${hours} h`;
+}
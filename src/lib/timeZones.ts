@@ -0,0 +1,102 @@
+/**
+ * Time Zones
+ *
+ * Conversions between instants and wall-clock time in IANA time zones
+ * (e.g. "Europe/Madrid"), through `Intl`. Used to expand recurring
+ * meetings in the zone they were scheduled in and to read and write
+ * `.ics` times.
+ */
+
+/**
+ * Wall-clock fields of a date and time
+ */
+export interface WallClock {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * IANA time zone of the browser
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Whether `Intl` knows an IANA time zone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock fields as if they were UTC, in epoch milliseconds
+ */
+export function wallClockToUtcMs(fields: WallClock): number {
+  return Date.UTC(
+    fields.year,
+    fields.month - 1,
+    fields.day,
+    fields.hour,
+    fields.minute,
+    fields.second
+  );
+}
+
+/**
+ * Wall-clock time of an instant in an IANA time zone
+ *
+ * @throws RangeError when the zone is unknown to `Intl`
+ */
+export function getWallClock(date: Date, timeZone: string): WallClock {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/**
+ * How far ahead of UTC an IANA time zone is at a given instant (ms)
+ */
+export function getTimeZoneOffset(utcMs: number, timeZone: string): number {
+  const wallClock = wallClockToUtcMs(getWallClock(new Date(utcMs), timeZone));
+  return wallClock - Math.floor(utcMs / 1000) * 1000;
+}
+
+/**
+ * Convert wall-clock time in an IANA zone to an instant. The second pass
+ * corrects the guess when a DST change lies between the two offsets.
+ *
+ * @throws RangeError when the zone is unknown to `Intl`
+ */
+export function wallClockToDate(fields: WallClock, timeZone: string): Date {
+  const wallClock = wallClockToUtcMs(fields);
+  const guess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  return new Date(wallClock - getTimeZoneOffset(guess, timeZone));
+}
@@ -6,21 +6,63 @@
  * to every other participant in the room.
  *
  * Key responsibilities:
- * - Manage local media streams (audio/video)
+ * - Manage local media streams (audio/video) and the chosen input devices
  * - Create and manage peer connections
  * - Handle WebRTC signaling through the WebSocket chat server
  * - Forward ICE candidates and session descriptions
+ * - Swap the outgoing video track for a screen capture while presenting
+ * - Recover dropped connections with ICE restarts
+ * - Poll per-peer connection statistics
+ *
+ * Signaling follows the "perfect negotiation" pattern: either side may send
+ * an offer at any time (on `negotiationneeded`). When offers collide, the
+ * impolite peer (lower user ID) ignores the incoming offer and the polite
+ * peer (higher user ID) rolls back its own and answers.
  */
 
 import { Socket } from "socket.io-client";
+import {
+  getIceServers,
+  startIceServerRefresh,
+  stopIceServerRefresh,
+} from "./iceServers.config";
+import {
+  parseStatsReport,
+  type PeerConnectionStats,
+  type StatsSample,
+} from "./connectionStats";
+import type { MediaDevicePreferences } from "./mediaDevices";
 
 /**
- * STUN/TURN server configuration for NAT traversal
+ * Time to wait for a "disconnected" connection to recover on its own
+ * before restarting ICE
  */
-const ICE_SERVERS: RTCIceServer[] = [
-  { urls: "stun:stun.l.google.com:19302" },
-  { urls: "stun:stun1.l.google.com:19302" },
-];
+const RECONNECT_GRACE_MS = 2000;
+
+/**
+ * Base delay between ICE restart attempts (doubled after each attempt)
+ */
+const RECONNECT_BASE_DELAY_MS = 1000;
+
+/**
+ * Upper bound for the delay between ICE restart attempts
+ */
+const RECONNECT_MAX_DELAY_MS = 16000;
+
+/**
+ * ICE restart attempts before the connection is given up
+ */
+const MAX_RECONNECT_ATTEMPTS = 5;
+
+/**
+ * Default interval between two `getStats()` polls
+ */
+const STATS_INTERVAL_MS = 2000;
+
+/**
+ * Connection status reported to the UI for each remote participant
+ */
+export type PeerConnectionStatus = "connected" | "reconnecting" | "failed";
 
 /**
  * Peer connection configuration
@@ -29,6 +71,12 @@ interface PeerConnectionInfo {
   connection: RTCPeerConnection;
   userId: string;
   remoteStream: MediaStream;
+  reconnectAttempts: number;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+  polite: boolean;
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+  lastStatsSample: StatsSample | null;
 }
 
 /**
@@ -37,13 +85,23 @@ interface PeerConnectionInfo {
  */
 class WebRTCManager {
   private localStream: MediaStream | null = null;
+  private screenStream: MediaStream | null = null;
   private peerConnections: Map<string, PeerConnectionInfo> = new Map();
   private socket: Socket | null = null;
   private roomId: string | null = null;
+  private userId: string | null = null;
   private isInitialized = false;
   private onRemoteStreamCallback:
     | ((stream: MediaStream, userId: string) => void)
     | null = null;
+  private onConnectionStatusCallback:
+    | ((userId: string, status: PeerConnectionStatus) => void)
+    | null = null;
+  private onStatsCallback:
+    | ((stats: Record<string, PeerConnectionStats>) => void)
+    | null = null;
+  private statsTimer: ReturnType<typeof setInterval> | null = null;
+  private preferredDevices: MediaDevicePreferences = {};
 
   /**
    * Initialize the WebRTC manager
@@ -68,11 +126,16 @@ class WebRTCManager {
     console.log(`[WEBRTC] Socket ID: ${webrtcSocket?.id}`);
 
     this.roomId = roomId;
+    this.userId = userId;
     this.socket = webrtcSocket;
 
     // Setup WebRTC signaling listeners
     this.setupSignalingListeners();
 
+    // Warm up the STUN/TURN cache and keep short-lived credentials fresh
+    await getIceServers();
+    startIceServerRefresh((servers) => this.applyIceServers(servers));
+
     this.isInitialized = true;
     console.log("[WEBRTC] ✅ Initialization complete");
   }
@@ -140,9 +203,16 @@ class WebRTCManager {
         `[WEBRTC] Starting local media - audio: ${audioEnabled}, video: ${videoEnabled}`
       );
 
+      const { audioInputId, videoInputId } = this.preferredDevices;
       const constraints: MediaStreamConstraints = {
-        audio: audioEnabled,
-        video: videoEnabled,
+        audio:
+          audioEnabled && audioInputId
+            ? { deviceId: { ideal: audioInputId } }
+            : audioEnabled,
+        video:
+          videoEnabled && videoInputId
+            ? { deviceId: { ideal: videoInputId } }
+            : videoEnabled,
       };
 
       this.localStream = await navigator.mediaDevices.getUserMedia(constraints);
@@ -166,6 +236,72 @@ class WebRTCManager {
     }
   }
 
+  /**
+   * Set the camera and microphone used by later `startLocalMedia` calls
+   *
+   * @param preferences - The chosen input devices
+   */
+  setPreferredDevices(preferences: MediaDevicePreferences): void {
+    this.preferredDevices = { ...preferences };
+  }
+
+  /**
+   * Switch the camera or microphone while in a call
+   *
+   * Captures the new device and swaps its track into every peer connection
+   * with `replaceTrack`, so no renegotiation is needed. The new track keeps
+   * the enabled/muted state of the one it replaces.
+   *
+   * @param kind - Which input to switch
+   * @param deviceId - The device to use
+   * @returns The updated local stream, or null when no track was replaced
+   */
+  async switchInputDevice(
+    kind: "audio" | "video",
+    deviceId: string
+  ): Promise<MediaStream | null> {
+    this.preferredDevices = {
+      ...this.preferredDevices,
+      [kind === "audio" ? "audioInputId" : "videoInputId"]: deviceId,
+    };
+
+    if (!this.localStream) {
+      return null;
+    }
+
+    const currentTrack =
+      kind === "audio"
+        ? this.localStream.getAudioTracks()[0]
+        : this.localStream.getVideoTracks()[0];
+
+    // Not capturing this kind yet: the preference is used on the next start
+    if (!currentTrack) {
+      return null;
+    }
+    if (
+      currentTrack.readyState === "live" &&
+      currentTrack.getSettings().deviceId === deviceId
+    ) {
+      return null;
+    }
+
+    console.log(`[WEBRTC] 🔄 Switching ${kind} input to ${deviceId}`);
+    const captured = await navigator.mediaDevices.getUserMedia({
+      [kind]: { deviceId: { exact: deviceId } },
+    });
+    const newTrack = captured.getTracks()[0];
+    newTrack.enabled = currentTrack.enabled;
+
+    const stream = new MediaStream([
+      ...this.localStream.getTracks().filter((t) => t.kind !== kind),
+      newTrack,
+    ]);
+    this.updateLocalStream(stream);
+    console.log(`[WEBRTC] ✅ Switched ${kind} input`);
+
+    return stream;
+  }
+
   /**
    * Stop local media streams
    */
@@ -208,6 +344,15 @@ class WebRTCManager {
       console.log(`[WEBRTC] Updating tracks for peer connection to ${userId}`);
 
       stream.getTracks().forEach((track) => {
+        // While presenting, the video sender carries the screen capture;
+        // the new camera track is picked up again in stopScreenShare().
+        if (track.kind === "video" && this.screenStream) {
+          console.log(
+            `[WEBRTC] Screen share active, keeping screen track for ${userId}`
+          );
+          return;
+        }
+
         const existingSender = senders.find(
           (s) => s.track && s.track.kind === track.kind
         );
@@ -281,6 +426,143 @@ class WebRTCManager {
     }
   }
 
+  /**
+   * Start sharing the screen
+   *
+   * Captures a display stream and replaces the outgoing video track on
+   * every open peer connection. The camera track is kept in the local
+   * stream so it can be restored when sharing stops.
+   *
+   * @param onEnded - Callback when sharing stops from the browser UI
+   * @returns Promise that resolves with the screen stream, or null if not supported
+   */
+  async startScreenShare(onEnded?: () => void): Promise<MediaStream | null> {
+    if (this.screenStream) {
+      console.log("[WEBRTC] Screen share already active");
+      return this.screenStream;
+    }
+
+    if (!navigator.mediaDevices?.getDisplayMedia) {
+      console.error("[WEBRTC] ❌ getDisplayMedia is not supported");
+      return null;
+    }
+
+    try {
+      console.log("[WEBRTC] 🖥️ Requesting display media");
+      const screenStream = await navigator.mediaDevices.getDisplayMedia({
+        video: true,
+        audio: false,
+      });
+      const screenTrack = screenStream.getVideoTracks()[0];
+
+      if (!screenTrack) {
+        console.error("[WEBRTC] ❌ Display stream has no video track");
+        screenStream.getTracks().forEach((track) => track.stop());
+        return null;
+      }
+
+      this.screenStream = screenStream;
+
+      // The user can stop sharing from the browser's own "Stop sharing" bar
+      screenTrack.onended = () => {
+        console.log("[WEBRTC] Screen track ended by the browser");
+        this.stopScreenShare().then(() => onEnded?.());
+      };
+
+      await this.replaceOutgoingVideoTrack(screenTrack);
+      console.log("[WEBRTC] ✅ Screen share started");
+
+      return screenStream;
+    } catch (error) {
+      console.error("[WEBRTC] ❌ Error starting screen share:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop sharing the screen and restore the camera track on every peer
+   * connection
+   */
+  async stopScreenShare(): Promise<void> {
+    if (!this.screenStream) {
+      return;
+    }
+
+    console.log("[WEBRTC] 🖥️ Stopping screen share");
+    const screenStream = this.screenStream;
+    this.screenStream = null;
+
+    screenStream.getTracks().forEach((track) => {
+      track.onended = null;
+      track.stop();
+    });
+
+    const cameraTrack = this.localStream?.getVideoTracks()[0] ?? null;
+    await this.replaceOutgoingVideoTrack(cameraTrack);
+    console.log("[WEBRTC] ✅ Screen share stopped, camera restored");
+  }
+
+  /**
+   * Check whether the local user is currently sharing the screen
+   *
+   * @returns True if a screen capture is being sent
+   */
+  isScreenSharing(): boolean {
+    return this.screenStream !== null;
+  }
+
+  /**
+   * Get the active screen capture stream
+   *
+   * @returns The screen stream or null
+   */
+  getScreenStream(): MediaStream | null {
+    return this.screenStream;
+  }
+
+  /**
+   * Replace the outgoing video track on every peer connection without
+   * renegotiating
+   *
+   * @param track - The new video track, or null to send nothing
+   */
+  private async replaceOutgoingVideoTrack(
+    track: MediaStreamTrack | null
+  ): Promise<void> {
+    const replacements: Promise<void>[] = [];
+
+    this.peerConnections.forEach(({ connection, userId }) => {
+      const videoSender = connection
+        .getTransceivers()
+        .find(
+          (t) =>
+            t.sender.track?.kind === "video" ||
+            t.receiver.track?.kind === "video"
+        )?.sender;
+
+      if (!videoSender) {
+        console.warn(`[WEBRTC] ⚠️ No video sender for ${userId}`);
+        return;
+      }
+
+      replacements.push(
+        videoSender
+          .replaceTrack(track)
+          .then(() => {
+            console.log(`[WEBRTC] ✅ Video track replaced for ${userId}`);
+          })
+          .catch((err) =>
+            console.error(
+              `[WEBRTC] ❌ Error replacing video track for ${userId}:`,
+              err
+            )
+          )
+      );
+    });
+
+    await Promise.all(replacements);
+  }
+
   /**
    * Create a peer connection to another user
    *
@@ -297,6 +579,9 @@ class WebRTCManager {
       return null;
     }
 
+    // Resolve servers first so the existence check below is not stale
+    const iceServers = await getIceServers();
+
     if (this.peerConnections.has(targetUserId)) {
       console.log(`[WEBRTC] Peer connection to ${targetUserId} already exists`);
       return this.peerConnections.get(targetUserId)!.connection;
@@ -304,9 +589,7 @@ class WebRTCManager {
 
     console.log(`[WEBRTC] Creating peer connection to ${targetUserId}`);
 
-    const peerConnection = new RTCPeerConnection({
-      iceServers: ICE_SERVERS,
-    });
+    const peerConnection = new RTCPeerConnection({ iceServers });
 
     const remoteStream = new MediaStream();
 
@@ -315,11 +598,15 @@ class WebRTCManager {
       console.log(
         `[WEBRTC] Adding local tracks to peer connection for ${targetUserId}`
       );
+      const screenTrack = this.screenStream?.getVideoTracks()[0];
       this.localStream.getTracks().forEach((track) => {
+        // Late joiners must receive the screen capture, not the camera
+        const outgoing =
+          track.kind === "video" && screenTrack ? screenTrack : track;
         console.log(
-          `[WEBRTC] Adding ${track.kind} track (enabled: ${track.enabled}) to ${targetUserId}`
+          `[WEBRTC] Adding ${outgoing.kind} track (enabled: ${outgoing.enabled}) to ${targetUserId}`
         );
-        peerConnection.addTrack(track, this.localStream!);
+        peerConnection.addTrack(outgoing, this.localStream!);
       });
     } else {
       console.warn(
@@ -327,6 +614,44 @@ class WebRTCManager {
       );
     }
 
+    const peerInfo: PeerConnectionInfo = {
+      connection: peerConnection,
+      userId: targetUserId,
+      remoteStream,
+      reconnectAttempts: 0,
+      reconnectTimer: null,
+      // The peer with the higher user ID yields on offer collisions
+      polite: this.userId === null || this.userId > targetUserId,
+      makingOffer: false,
+      ignoreOffer: false,
+      lastStatsSample: null,
+    };
+
+    // Send an offer whenever (re)negotiation is required: initial tracks,
+    // tracks added mid-call, or an ICE restart
+    peerConnection.onnegotiationneeded = async () => {
+      if (!this.socket || !this.roomId) return;
+
+      try {
+        peerInfo.makingOffer = true;
+        await peerConnection.setLocalDescription();
+
+        this.socket.emit("webrtc_offer", {
+          roomId: this.roomId,
+          targetUserId,
+          sdp: peerConnection.localDescription,
+        });
+        console.log(`[WEBRTC] 📤 Offer sent to ${targetUserId}`);
+      } catch (error) {
+        console.error(
+          `[WEBRTC] ❌ Error negotiating with ${targetUserId}:`,
+          error
+        );
+      } finally {
+        peerInfo.makingOffer = false;
+      }
+    };
+
     // Handle ICE candidates
     peerConnection.onicecandidate = (event) => {
       if (event.candidate && this.socket && this.roomId) {
@@ -398,24 +723,247 @@ class WebRTCManager {
         `[WEBRTC] Connection state with ${targetUserId}: ${peerConnection.connectionState}`
       );
 
-      if (
-        peerConnection.connectionState === "failed" ||
-        peerConnection.connectionState === "closed"
-      ) {
-        console.log(`[WEBRTC] Connection to ${targetUserId} failed/closed`);
+      if (peerConnection.connectionState === "closed") {
+        console.log(`[WEBRTC] Connection to ${targetUserId} closed`);
         this.closePeerConnection(targetUserId);
+        return;
       }
+
+      this.handleConnectionStateChange(targetUserId);
     };
 
-    this.peerConnections.set(targetUserId, {
-      connection: peerConnection,
-      userId: targetUserId,
-      remoteStream,
-    });
+    // Some browsers only report transient drops through the ICE state
+    peerConnection.oniceconnectionstatechange = () => {
+      console.log(
+        `[WEBRTC] ICE state with ${targetUserId}: ${peerConnection.iceConnectionState}`
+      );
+      this.handleConnectionStateChange(targetUserId);
+    };
+
+    this.peerConnections.set(targetUserId, peerInfo);
 
     return peerConnection;
   }
 
+  /**
+   * React to connection/ICE state changes of a peer connection
+   *
+   * - "connected"/"completed": reset the reconnection state
+   * - "disconnected": give the connection a grace period, then restart ICE
+   * - "failed": restart ICE right away
+   *
+   * @param userId - The remote user whose connection changed
+   */
+  private handleConnectionStateChange(userId: string): void {
+    const peerInfo = this.peerConnections.get(userId);
+    if (!peerInfo) return;
+
+    const { connection } = peerInfo;
+    const state = connection.connectionState;
+    const iceState = connection.iceConnectionState;
+
+    if (
+      state === "connected" ||
+      iceState === "connected" ||
+      iceState === "completed"
+    ) {
+      if (peerInfo.reconnectAttempts > 0 || peerInfo.reconnectTimer) {
+        console.log(`[WEBRTC] ✅ Connection to ${userId} recovered`);
+      }
+      if (peerInfo.reconnectTimer) {
+        clearTimeout(peerInfo.reconnectTimer);
+        peerInfo.reconnectTimer = null;
+      }
+      peerInfo.reconnectAttempts = 0;
+      this.onConnectionStatusCallback?.(userId, "connected");
+      return;
+    }
+
+    if (state === "failed" || iceState === "failed") {
+      this.scheduleIceRestart(userId, 0);
+      return;
+    }
+
+    if (state === "disconnected" || iceState === "disconnected") {
+      this.scheduleIceRestart(userId, RECONNECT_GRACE_MS);
+    }
+  }
+
+  /**
+   * Schedule an ICE restart unless one is already pending
+   *
+   * @param userId - The remote user to reconnect to
+   * @param delay - Delay in milliseconds before the attempt
+   */
+  private scheduleIceRestart(userId: string, delay: number): void {
+    const peerInfo = this.peerConnections.get(userId);
+    if (!peerInfo || peerInfo.reconnectTimer) return;
+
+    console.log(
+      `[WEBRTC] ⚠️ Connection to ${userId} interrupted, restarting ICE in ${delay}ms`
+    );
+    this.onConnectionStatusCallback?.(userId, "reconnecting");
+
+    peerInfo.reconnectTimer = setTimeout(() => {
+      peerInfo.reconnectTimer = null;
+      this.restartIce(userId);
+    }, delay);
+  }
+
+  /**
+   * Attempt an ICE restart with exponential backoff
+   *
+   * Only the impolite side (lower user ID) restarts ICE so both peers don't
+   * offer at once; the other side keeps counting attempts and gives up on
+   * the same schedule.
+   *
+   * @param userId - The remote user to reconnect to
+   */
+  private async restartIce(userId: string): Promise<void> {
+    const peerInfo = this.peerConnections.get(userId);
+    if (!peerInfo || !this.socket || !this.roomId) return;
+
+    const { connection } = peerInfo;
+    if (
+      connection.iceConnectionState === "connected" ||
+      connection.iceConnectionState === "completed"
+    ) {
+      return;
+    }
+
+    if (peerInfo.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      console.warn(
+        `[WEBRTC] ❌ Giving up on ${userId} after ${MAX_RECONNECT_ATTEMPTS} ICE restarts`
+      );
+      this.onConnectionStatusCallback?.(userId, "failed");
+      this.closePeerConnection(userId);
+      return;
+    }
+
+    peerInfo.reconnectAttempts += 1;
+    console.log(
+      `[WEBRTC] 🔄 ICE restart attempt ${peerInfo.reconnectAttempts}/${MAX_RECONNECT_ATTEMPTS} for ${userId}`
+    );
+
+    if (!peerInfo.polite) {
+      // Fires negotiationneeded, which sends an offer with new ICE credentials
+      connection.restartIce();
+      console.log(`[WEBRTC] 📤 ICE restart requested for ${userId}`);
+    } else {
+      console.log(`[WEBRTC] Waiting for ${userId} to send ICE restart offer`);
+    }
+
+    // Check again later; a successful restart clears this timer
+    const delay = Math.min(
+      RECONNECT_BASE_DELAY_MS * 2 ** peerInfo.reconnectAttempts,
+      RECONNECT_MAX_DELAY_MS
+    );
+    peerInfo.reconnectTimer = setTimeout(() => {
+      peerInfo.reconnectTimer = null;
+      this.restartIce(userId);
+    }, delay);
+  }
+
+  /**
+   * Configure a handler for per-peer connection status changes
+   * (connected, reconnecting, failed).
+   */
+  setOnConnectionStatusCallback(
+    handler: (userId: string, status: PeerConnectionStatus) => void
+  ): void {
+    this.onConnectionStatusCallback = handler;
+  }
+
+  /**
+   * Configure a handler that receives the latest statistics of every
+   * peer connection after each poll.
+   */
+  setOnStatsCallback(
+    handler: (stats: Record<string, PeerConnectionStats>) => void
+  ): void {
+    this.onStatsCallback = handler;
+  }
+
+  /**
+   * Start polling `getStats()` on every peer connection
+   *
+   * @param intervalMs - Time between two polls
+   */
+  startStatsCollection(intervalMs: number = STATS_INTERVAL_MS): void {
+    this.stopStatsCollection();
+    console.log(`[WEBRTC] 📊 Collecting stats every ${intervalMs}ms`);
+    this.statsTimer = setInterval(() => {
+      this.collectStats();
+    }, intervalMs);
+  }
+
+  /**
+   * Stop polling connection statistics
+   */
+  stopStatsCollection(): void {
+    if (this.statsTimer) {
+      clearInterval(this.statsTimer);
+      this.statsTimer = null;
+    }
+  }
+
+  /**
+   * Read and parse the stats of every peer connection once
+   *
+   * @returns Map of user IDs to their latest connection statistics
+   */
+  async collectStats(): Promise<Record<string, PeerConnectionStats>> {
+    const result: Record<string, PeerConnectionStats> = {};
+
+    await Promise.all(
+      Array.from(this.peerConnections.values()).map(async (peerInfo) => {
+        try {
+          const report = await peerInfo.connection.getStats();
+          const { stats, sample } = parseStatsReport(
+            peerInfo.userId,
+            report,
+            peerInfo.lastStatsSample
+          );
+          peerInfo.lastStatsSample = sample;
+          result[peerInfo.userId] = stats;
+        } catch (error) {
+          console.warn(
+            `[WEBRTC] ⚠️ Could not read stats for ${peerInfo.userId}:`,
+            error
+          );
+        }
+      })
+    );
+
+    this.onStatsCallback?.(result);
+    return result;
+  }
+
+  /**
+   * Apply a refreshed STUN/TURN list to every open peer connection so
+   * later ICE gathering uses valid credentials
+   *
+   * @param iceServers - The new server list
+   */
+  private applyIceServers(iceServers: RTCIceServer[]): void {
+    console.log(
+      `[WEBRTC] 🔄 Applying refreshed ICE servers to ${this.peerConnections.size} connection(s)`
+    );
+    this.peerConnections.forEach(({ connection, userId }) => {
+      try {
+        connection.setConfiguration({
+          ...connection.getConfiguration(),
+          iceServers,
+        });
+      } catch (error) {
+        console.error(
+          `[WEBRTC] ❌ Error updating ICE servers for ${userId}:`,
+          error
+        );
+      }
+    });
+  }
+
   /**
    * Configure a default handler for remote streams.
    * This is used when peer connections are created implicitly
@@ -428,7 +976,11 @@ class WebRTCManager {
   }
 
   /**
-   * Create and send an offer to another user
+   * Connect to another user and start negotiation
+   *
+   * The offer itself is sent from the `negotiationneeded` handler, so
+   * calling this for a peer that is already connected (or that is
+   * offering to us at the same time) is safe.
    *
    * @param targetUserId - The ID of the user to send the offer to
    * @param onRemoteStream - Callback when remote stream is available
@@ -442,7 +994,14 @@ class WebRTCManager {
       return;
     }
 
-    console.log(`[WEBRTC] 📤 Creating and sending offer to ${targetUserId}`);
+    if (this.peerConnections.has(targetUserId)) {
+      console.log(
+        `[WEBRTC] Already negotiating with ${targetUserId}, skipping offer`
+      );
+      return;
+    }
+
+    console.log(`[WEBRTC] 📤 Starting negotiation with ${targetUserId}`);
 
     const peerConnection = await this.createPeerConnection(
       targetUserId,
@@ -454,23 +1013,19 @@ class WebRTCManager {
       return;
     }
 
-    try {
-      const offer = await peerConnection.createOffer();
-      await peerConnection.setLocalDescription(offer);
-
-      this.socket.emit("webrtc_offer", {
-        roomId: this.roomId,
-        targetUserId,
-        sdp: offer,
-      });
-
-      console.log(`[WEBRTC] ✅ Offer sent to ${targetUserId}`);
-    } catch (error) {
-      console.error(
-        `[WEBRTC] ❌ Error creating offer for ${targetUserId}:`,
-        error
-      );
-    }
+    // As the offerer, always negotiate an audio and a video m-line so the
+    // remote media is received even if we have nothing to send yet
+    (["audio", "video"] as const).forEach((kind) => {
+      const hasKind = peerConnection
+        .getTransceivers()
+        .some((t) => t.sender.track?.kind === kind);
+      if (!hasKind) {
+        console.log(
+          `[WEBRTC] Adding recvonly ${kind} transceiver for ${targetUserId}`
+        );
+        peerConnection.addTransceiver(kind, { direction: "recvonly" });
+      }
+    });
   }
 
   /**
@@ -491,22 +1046,39 @@ class WebRTCManager {
     console.log(`[WEBRTC] Handling offer from ${senderId}`);
 
     const peerConnection = await this.createPeerConnection(senderId);
+    const peerInfo = this.peerConnections.get(senderId);
 
-    if (!peerConnection) {
+    if (!peerConnection || !peerInfo) {
       console.error("[WEBRTC] Failed to create peer connection for offer");
       return;
     }
 
-    try {
-      await peerConnection.setRemoteDescription(new RTCSessionDescription(sdp));
+    const offerCollision =
+      peerInfo.makingOffer || peerConnection.signalingState !== "stable";
+    peerInfo.ignoreOffer = !peerInfo.polite && offerCollision;
 
-      const answer = await peerConnection.createAnswer();
-      await peerConnection.setLocalDescription(answer);
+    if (peerInfo.ignoreOffer) {
+      console.log(
+        `[WEBRTC] ⚠️ Offer collision with ${senderId}, ignoring (impolite)`
+      );
+      return;
+    }
+
+    if (offerCollision) {
+      console.log(
+        `[WEBRTC] ⚠️ Offer collision with ${senderId}, rolling back (polite)`
+      );
+    }
+
+    try {
+      // Implicitly rolls back our pending offer when we are the polite peer
+      await peerConnection.setRemoteDescription(sdp);
+      await peerConnection.setLocalDescription();
 
       this.socket.emit("webrtc_answer", {
         roomId: this.roomId,
         targetUserId: senderId,
-        sdp: answer,
+        sdp: peerConnection.localDescription,
       });
 
       console.log(`[WEBRTC] ✅ Answer sent to ${senderId}`);
@@ -537,10 +1109,15 @@ class WebRTCManager {
       return;
     }
 
-    try {
-      await peerInfo.connection.setRemoteDescription(
-        new RTCSessionDescription(sdp)
+    if (peerInfo.connection.signalingState !== "have-local-offer") {
+      console.warn(
+        `[WEBRTC] ⚠️ Ignoring answer from ${senderId} in state ${peerInfo.connection.signalingState}`
       );
+      return;
+    }
+
+    try {
+      await peerInfo.connection.setRemoteDescription(sdp);
       console.log(`[WEBRTC] ✅ Remote description set for ${senderId}`);
     } catch (error) {
       console.error(
@@ -570,13 +1147,16 @@ class WebRTCManager {
     }
 
     try {
-      await peerInfo.connection.addIceCandidate(new RTCIceCandidate(candidate));
+      await peerInfo.connection.addIceCandidate(candidate);
       console.log(`[WEBRTC] ✅ ICE candidate added for ${senderId}`);
     } catch (error) {
-      console.error(
-        `[WEBRTC] ❌ Error adding ICE candidate from ${senderId}:`,
-        error
-      );
+      // Candidates belonging to an offer we ignored are expected to fail
+      if (!peerInfo.ignoreOffer) {
+        console.error(
+          `[WEBRTC] ❌ Error adding ICE candidate from ${senderId}:`,
+          error
+        );
+      }
     }
   }
 
@@ -590,6 +1170,9 @@ class WebRTCManager {
 
     if (peerInfo) {
       console.log(`[WEBRTC] Closing peer connection to ${userId}`);
+      if (peerInfo.reconnectTimer) {
+        clearTimeout(peerInfo.reconnectTimer);
+      }
       peerInfo.connection.close();
       this.peerConnections.delete(userId);
     }
@@ -601,13 +1184,28 @@ class WebRTCManager {
   cleanup(): void {
     console.log("[WEBRTC] Cleaning up all connections");
 
+    stopIceServerRefresh();
+    this.stopStatsCollection();
+
     // Close all peer connections
     this.peerConnections.forEach((peerInfo, userId) => {
       console.log(`[WEBRTC] Closing connection to ${userId}`);
+      if (peerInfo.reconnectTimer) {
+        clearTimeout(peerInfo.reconnectTimer);
+      }
       peerInfo.connection.close();
     });
     this.peerConnections.clear();
 
+    // Stop screen capture
+    if (this.screenStream) {
+      this.screenStream.getTracks().forEach((track) => {
+        track.onended = null;
+        track.stop();
+      });
+      this.screenStream = null;
+    }
+
     // Stop local media
     this.stopLocalMedia();
 
@@ -622,6 +1220,7 @@ class WebRTCManager {
 
     this.isInitialized = false;
     this.roomId = null;
+    this.userId = null;
     this.socket = null;
 
     console.log("[WEBRTC] ✅ Cleanup complete");
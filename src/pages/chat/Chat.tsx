@@ -4,9 +4,25 @@ import { useNavigate } from "react-router-dom";
 import { connectToChat, disconnectFromChat, getSocket } from "../../lib/socket.config";
 import type { Socket } from "socket.io-client";
 import useAuthStore from "../../stores/useAuthStore";
+import { useToastContext } from "../../contexts/ToastContext";
 import Navbar from "../../components/Navbar/Navbar";
 import Footer from "../../components/Footer/Footer";
 import WebContentReader from "../../components/web-reader/WebContentReader";
+import ConfirmationModal from "../../components/ConfirmationModal/ConfirmationModal";
+import MessageActions from "../../components/MessageActions/MessageActions";
+import MessageEditForm from "../../components/MessageActions/MessageEditForm";
+import MessageQuote from "../../components/MessageThread/MessageQuote";
+import MessageThread from "../../components/MessageThread/MessageThread";
+import ReplyBanner from "../../components/MessageThread/ReplyBanner";
+import RichText from "../../components/RichText/RichText";
+import FormattingToolbar from "../../components/RichText/FormattingToolbar";
+import {
+  getQuoteExcerpt,
+  getReplyCounts,
+  getThreadReplies,
+  isShownInThread,
+  type ReplyMode,
+} from "../../lib/chatThreads";
 import "./Chat.scss";
 
 /**
@@ -17,6 +33,11 @@ interface Message {
   senderId: string;
   text: string;
   timestamp: number;
+  /** Set by the chat server when the author edits the message */
+  editedAt?: number;
+  /** Message this one replies to */
+  parentId?: string | null;
+  replyMode?: ReplyMode | null;
 }
 
 /**
@@ -27,6 +48,35 @@ interface OnlineUser {
   userId: string;
 }
 
+/**
+ * Answer of the chat server to an acknowledged event.
+ */
+interface ChatAck {
+  success: boolean;
+  error?: string;
+}
+
+// How long to wait for the chat server to confirm an edit or deletion
+const CHAT_ACK_TIMEOUT_MS = 5000;
+
+/**
+ * Emit an event to the chat server and wait for its confirmation.
+ *
+ * @throws Error when the server rejects the event or does not answer in time
+ */
+async function emitWithConfirmation(
+  socket: Socket,
+  event: string,
+  payload: Record<string, unknown>
+): Promise<void> {
+  const response: ChatAck | undefined = await socket
+    .timeout(CHAT_ACK_TIMEOUT_MS)
+    .emitWithAck(event, payload);
+  if (!response?.success) {
+    throw new Error(response?.error || "El servidor de chat rechazó la acción");
+  }
+}
+
 /**
  * Global chat page.
  *
@@ -39,12 +89,25 @@ interface OnlineUser {
 const Chat: React.FC = () => {
   const navigate = useNavigate();
   const { user } = useAuthStore();
+  const toast = useToastContext();
   const [messages, setMessages] = useState<Message[]>([]);
   const [onlineUsers, setOnlineUsers] = useState<OnlineUser[]>([]);
   const [messageInput, setMessageInput] = useState("");
   const [isConnected, setIsConnected] = useState(false);
   const [isManuallyDisconnected, setIsManuallyDisconnected] = useState(false);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [messageToDelete, setMessageToDelete] = useState<Message | null>(null);
+  const [replyTo, setReplyTo] = useState<{
+    message: Message;
+    mode: ReplyMode;
+  } | null>(null);
+  const [openThreadIds, setOpenThreadIds] = useState<string[]>([]);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(
+    null
+  );
   const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const messageInputRef = useRef<HTMLTextAreaElement>(null);
   const hasLoadedHistory = useRef(false);
 
   useEffect(() => {
@@ -93,6 +156,35 @@ const Chat: React.FC = () => {
         setMessages((prev) => [...prev, message]);
       });
 
+      // Ediciones y borrados de otros clientes (solo del autor del mensaje)
+      socketInstance.on(
+        "messageEdited",
+        ({ id, senderId, text, editedAt }: Required<Message>) => {
+          setMessages((prev) =>
+            prev.map((msg) =>
+              msg.id === id && msg.senderId === senderId
+                ? { ...msg, text, editedAt: editedAt || Date.now() }
+                : msg
+            )
+          );
+        }
+      );
+
+      socketInstance.on(
+        "messageDeleted",
+        ({ id, senderId }: Pick<Message, "id" | "senderId">) => {
+          setMessages((prev) =>
+            prev.filter((msg) => msg.id !== id || msg.senderId !== senderId)
+          );
+          setEditingMessageId((current) => (current === id ? null : current));
+          setReplyTo((current) =>
+            current?.message.id === id && current?.message.senderId === senderId
+              ? null
+              : current
+          );
+        }
+      );
+
       // Escuchar usuarios online
       socketInstance.on("usersOnline", (users: OnlineUser[]) => {
         console.log("👥 Usuarios online:", users.length);
@@ -108,6 +200,8 @@ const Chat: React.FC = () => {
         socketInstance.off("connect");
         socketInstance.off("disconnect");
         socketInstance.off("newMessage");
+        socketInstance.off("messageEdited");
+        socketInstance.off("messageDeleted");
         socketInstance.off("usersOnline");
       }
       if (!isManuallyDisconnected) {
@@ -183,11 +277,143 @@ const Chat: React.FC = () => {
     socketInstance.emit("sendMessage", {
       senderId: user.email || user.displayName || "Usuario",
       text: messageInput.trim(),
+      parentId: replyTo?.message.id ?? null,
+      replyMode: replyTo?.mode ?? null,
     });
 
+    // Mantener abierto el hilo para ver la nueva respuesta
+    if (replyTo?.mode === "thread" && replyTo.message.id) {
+      const parentId = replyTo.message.id;
+      setOpenThreadIds((prev) =>
+        prev.includes(parentId) ? prev : [...prev, parentId]
+      );
+    }
+    setReplyTo(null);
+    setIsPreviewing(false);
+
     setMessageInput("");
   };
 
+  /**
+   * Save an edit to one of the user's own messages.
+   *
+   * The edit is shown right away and rolled back if the chat server
+   * does not confirm it. The server checks the author against the
+   * authenticated socket, stores the new text in its history and
+   * broadcasts `messageEdited` to every client.
+   */
+  const handleSaveEdit = async (message: Message, text: string) => {
+    const socketInstance = getSocket();
+    if (!socketInstance || !socketInstance.connected || !message.id) {
+      console.error("❌ No conectado al servidor de chat");
+      return;
+    }
+
+    const editedAt = new Date().getTime();
+    setMessages((prev) =>
+      prev.map((msg) =>
+        msg.id === message.id ? { ...msg, text, editedAt } : msg
+      )
+    );
+    setEditingMessageId(null);
+
+    try {
+      await emitWithConfirmation(socketInstance, "editMessage", {
+        id: message.id,
+        text,
+      });
+    } catch (error) {
+      console.error("❌ Error editando mensaje:", error);
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.id === message.id && msg.editedAt === editedAt
+            ? { ...msg, text: message.text, editedAt: message.editedAt }
+            : msg
+        )
+      );
+      toast.error("No se pudo editar el mensaje");
+    }
+  };
+
+  /**
+   * Delete the message awaiting confirmation and tell the other clients.
+   *
+   * The message is restored if the chat server does not confirm the
+   * deletion.
+   */
+  const handleConfirmDelete = async () => {
+    const message = messageToDelete;
+    setMessageToDelete(null);
+    const socketInstance = getSocket();
+    if (!message?.id || !socketInstance || !socketInstance.connected) return;
+
+    setMessages((prev) => prev.filter((msg) => msg.id !== message.id));
+    setReplyTo((current) => (current?.message.id === message.id ? null : current));
+
+    try {
+      await emitWithConfirmation(socketInstance, "deleteMessage", {
+        id: message.id,
+      });
+    } catch (error) {
+      console.error("❌ Error eliminando mensaje:", error);
+      setMessages((prev) =>
+        prev.some((msg) => msg.id === message.id)
+          ? prev
+          : [...prev, message].sort((a, b) => a.timestamp - b.timestamp)
+      );
+      toast.error("No se pudo eliminar el mensaje");
+    }
+  };
+
+  /**
+   * Whether a message was sent by the current user.
+   */
+  const isOwn = (msg: Message) =>
+    msg.senderId === user?.email || msg.senderId === user?.displayName;
+
+  /**
+   * Start replying to a message, quoted or in its thread.
+   */
+  const startReply = (message: Message, mode: ReplyMode) => {
+    setReplyTo({ message, mode });
+    messageInputRef.current?.focus();
+  };
+
+  /**
+   * Expand or collapse the thread under a message.
+   */
+  const toggleThread = (messageId: string) => {
+    setOpenThreadIds((prev) =>
+      prev.includes(messageId)
+        ? prev.filter((id) => id !== messageId)
+        : [...prev, messageId]
+    );
+  };
+
+  /**
+   * Scroll to the message a reply quotes and highlight it briefly.
+   */
+  const jumpToMessage = (messageId: string) => {
+    const element = document.getElementById(`chat-message-${messageId}`);
+    if (!element) return;
+    element.scrollIntoView({ behavior: "smooth", block: "center" });
+    setHighlightedMessageId(messageId);
+    window.setTimeout(() => {
+      setHighlightedMessageId((current) => (current === messageId ? null : current));
+    }, 2000);
+  };
+
+  const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString("es-ES", {
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+
+  const loadedMessageIds = new Set(
+    messages.map((msg) => msg.id).filter((id): id is string => !!id)
+  );
+  const replyCounts = getReplyCounts(messages);
+
   const handleLogout = () => {
     disconnectFromChat();
     navigate("/login");
@@ -335,34 +561,122 @@ const Chat: React.FC = () => {
               </div>
             ) : (
               messages.map((msg, index) => {
-                const isOwnMessage =
-                  msg.senderId === user?.email ||
-                  msg.senderId === user?.displayName;
+                // Las respuestas en hilo se muestran bajo el mensaje original
+                if (isShownInThread(msg, loadedMessageIds)) return null;
+
+                const isOwnMessage = isOwn(msg);
+                const parentMessage = msg.parentId
+                  ? messages.find((m) => m.id === msg.parentId)
+                  : undefined;
+                const threadReplies = msg.id
+                  ? getThreadReplies(messages, msg.id)
+                  : [];
 
                 return (
                   <div
                     key={msg.id || `${msg.timestamp}-${index}`}
-                    className={`message ${isOwnMessage ? "sent" : "received"}`}
+                    id={msg.id ? `chat-message-${msg.id}` : undefined}
+                    className={`message ${isOwnMessage ? "sent" : "received"} ${
+                      msg.id && highlightedMessageId === msg.id
+                        ? "highlighted"
+                        : ""
+                    }`}
                   >
                     <div
                       className={`message-bubble ${
                         isOwnMessage ? "sent-bubble" : "received-bubble"
                       }`}
                     >
-                      <p className="message-author">
-                        {isOwnMessage ? "Tú" : msg.senderId}
-                      </p>
-                      <p className="message-text">{msg.text}</p>
+                      {msg.parentId && (
+                        <MessageQuote
+                          author={
+                            parentMessage
+                              ? isOwn(parentMessage)
+                                ? "Tú"
+                                : parentMessage.senderId
+                              : null
+                          }
+                          excerpt={
+                            parentMessage
+                              ? getQuoteExcerpt(parentMessage.text)
+                              : null
+                          }
+                          onJump={() => jumpToMessage(msg.parentId!)}
+                        />
+                      )}
+                      <div className="message-header">
+                        <p className="message-author">
+                          {isOwnMessage ? "Tú" : msg.senderId}
+                        </p>
+                        {msg.id &&
+                          isConnected &&
+                          editingMessageId !== msg.id && (
+                            <MessageActions
+                              canEdit={isOwnMessage}
+                              canDelete={isOwnMessage}
+                              onEdit={() => setEditingMessageId(msg.id!)}
+                              onDelete={() => setMessageToDelete(msg)}
+                              onReply={() => startReply(msg, "quote")}
+                              onReplyInThread={() => startReply(msg, "thread")}
+                            />
+                          )}
+                      </div>
+                      {editingMessageId === msg.id ? (
+                        <MessageEditForm
+                          initialContent={msg.text}
+                          isSaving={false}
+                          onSave={(text) => handleSaveEdit(msg, text)}
+                          onCancel={() => setEditingMessageId(null)}
+                        />
+                      ) : (
+                        <RichText className="message-text" text={msg.text} />
+                      )}
                       <p
                         className={`message-time ${
                           isOwnMessage ? "sent-time" : "received-time"
                         }`}
                       >
-                        {new Date(msg.timestamp).toLocaleTimeString("es-ES", {
-                          hour: "2-digit",
-                          minute: "2-digit",
-                        })}
+                        {formatTime(msg.timestamp)}
+                        {msg.editedAt && (
+                          <span className="message-edited"> (editado)</span>
+                        )}
                       </p>
+                      {msg.id && (
+                        <MessageThread
+                          replyCount={replyCounts.get(msg.id) || 0}
+                          replies={threadReplies.map((reply, replyIndex) => ({
+                            id: reply.id || `${reply.timestamp}-${replyIndex}`,
+                            author: isOwn(reply) ? "Tú" : reply.senderId,
+                            time: formatTime(reply.timestamp),
+                            edited: !!reply.editedAt,
+                            body:
+                              editingMessageId === reply.id ? (
+                                <MessageEditForm
+                                  initialContent={reply.text}
+                                  isSaving={false}
+                                  onSave={(text) => handleSaveEdit(reply, text)}
+                                  onCancel={() => setEditingMessageId(null)}
+                                />
+                              ) : (
+                                <RichText text={reply.text} />
+                              ),
+                            actions: reply.id &&
+                              isConnected &&
+                              isOwn(reply) &&
+                              editingMessageId !== reply.id && (
+                                <MessageActions
+                                  canEdit
+                                  canDelete
+                                  onEdit={() => setEditingMessageId(reply.id!)}
+                                  onDelete={() => setMessageToDelete(reply)}
+                                />
+                              ),
+                          }))}
+                          isOpen={openThreadIds.includes(msg.id)}
+                          onToggle={() => toggleThread(msg.id!)}
+                          onReply={() => startReply(msg, "thread")}
+                        />
+                      )}
                     </div>
                   </div>
                 );
@@ -371,20 +685,60 @@ const Chat: React.FC = () => {
           </div>
 
           {/* Message Input */}
+          {replyTo && (
+            <ReplyBanner
+              author={isOwn(replyTo.message) ? "Tú" : replyTo.message.senderId}
+              excerpt={getQuoteExcerpt(replyTo.message.text)}
+              mode={replyTo.mode}
+              onModeChange={(mode) =>
+                setReplyTo((prev) => (prev ? { ...prev, mode } : prev))
+              }
+              onCancel={() => setReplyTo(null)}
+            />
+          )}
           <form
             onSubmit={handleSendMessage}
             className="message-input-form"
             aria-label="Formulario de envío de mensajes"
           >
+            <div className="composer-tools">
+              <FormattingToolbar
+                inputRef={messageInputRef}
+                value={messageInput}
+                onChange={setMessageInput}
+                isPreviewing={isPreviewing}
+                onTogglePreview={() => setIsPreviewing((prev) => !prev)}
+                disabled={!isConnected}
+              />
+              {isPreviewing && (
+                <div className="rich-text-preview" aria-live="polite">
+                  {messageInput.trim() ? (
+                    <RichText text={messageInput} />
+                  ) : (
+                    <p className="rich-text-preview__empty">
+                      Nada que previsualizar
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
             <div className="input-container">
               <label htmlFor="message-input" className="visually-hidden">
                 Escribe un mensaje
               </label>
-              <input
+              <textarea
                 id="message-input"
-                type="text"
+                ref={messageInputRef}
+                rows={Math.min(5, messageInput.split("\n").length)}
                 value={messageInput}
                 onChange={(e) => setMessageInput(e.target.value)}
+                onKeyDown={(e) => {
+                  // Enter envía; Shift+Enter añade una línea
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault();
+                    e.currentTarget.form?.requestSubmit();
+                  }
+                }}
                 placeholder="Escribe un mensaje..."
                 disabled={!isConnected}
                 aria-label="Escribe tu mensaje"
@@ -414,6 +768,17 @@ const Chat: React.FC = () => {
         </div>
       </main>
 
+      <ConfirmationModal
+        isOpen={messageToDelete !== null}
+        title="Eliminar mensaje"
+        message="¿Eliminar este mensaje para todos? Esta acción no se puede deshacer."
+        confirmText="Eliminar"
+        cancelText="Cancelar"
+        confirmButtonClass="btn-danger"
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setMessageToDelete(null)}
+      />
+
       {/* Footer */}
       <Footer />
     </div>
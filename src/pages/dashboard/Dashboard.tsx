@@ -5,7 +5,44 @@ import Footer from "../../components/Footer/Footer";
 import useAuthStore from "../../stores/useAuthStore";
 import WebContentReader from "../../components/web-reader/WebContentReader";
 import Toast from "../../components/Toast/Toast";
-import { createRoom, getRoomById } from "../../services/room.service";
+import Modal from "../../components/Modal/Modal";
+import ConfirmationModal from "../../components/ConfirmationModal/ConfirmationModal";
+import ScheduleMeetingForm, {
+  type ScheduleMeetingData,
+} from "../../components/ScheduledMeetings/ScheduleMeetingForm";
+import UpcomingMeetings from "../../components/ScheduledMeetings/UpcomingMeetings";
+import MeetingCalendar from "../../components/ScheduledMeetings/MeetingCalendar";
+import {
+  createRoom,
+  deleteRoom,
+  getRoomById,
+  getScheduledRooms,
+  updateRoomSchedule,
+  type Room,
+} from "../../services/room.service";
+import {
+  addDays,
+  getCalendarRange,
+  getScheduledEnd,
+  getScheduledStart,
+  startOfDay,
+  type CalendarView,
+} from "../../lib/schedule";
+import {
+  buildMeetingCalendar,
+  downloadIcs,
+  getIcsFileName,
+  getIcsRoomSchedule,
+  parseIcs,
+} from "../../lib/ics";
+import {
+  expandScheduledMeetings,
+  getCurrentOccurrence,
+  remapRecurrenceExceptions,
+  upsertRecurrenceException,
+  type ScheduledMeeting,
+} from "../../lib/recurrence";
+import { getLocalTimeZone } from "../../lib/timeZones";
 import "./Dashboard.scss";
 
 interface ToastState {
@@ -16,6 +53,23 @@ interface ToastState {
 
 let toastIdCounter = 0;
 
+// How far ahead the upcoming meetings list looks
+const UPCOMING_DAYS = 30;
+
+/**
+ * Part of a recurring series an edit or cancellation applies to
+ */
+type ChangeScope = "occurrence" | "series";
+
+/**
+ * Meeting being edited or cancelled. `scope` stays null until the user
+ * says whether a recurring occurrence or its whole series is meant.
+ */
+interface MeetingChange {
+  meeting: ScheduledMeeting;
+  scope: ChangeScope | null;
+}
+
 const Dashboard: React.FC = () => {
   useEffect(() => {
     window.scrollTo(0, 0);
@@ -27,6 +81,30 @@ const Dashboard: React.FC = () => {
   const shownToastsRef = useRef<Set<string>>(new Set());
   const [joinMeetingId, setJoinMeetingId] = useState("");
   const [isJoining, setIsJoining] = useState(false);
+  // New meetings hold joiners in a waiting room until the host admits them
+  const [waitingRoomEnabled, setWaitingRoomEnabled] = useState(false);
+
+  // Scheduled meetings state
+  const [showScheduleForm, setShowScheduleForm] = useState(false);
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [scheduledTab, setScheduledTab] = useState<"list" | "calendar">("list");
+  const [upcomingMeetings, setUpcomingMeetings] = useState<ScheduledMeeting[]>([]);
+  const [loadingUpcoming, setLoadingUpcoming] = useState(true);
+  const [calendarView, setCalendarView] = useState<CalendarView>("week");
+  const [calendarDate, setCalendarDate] = useState(() => new Date());
+  // Meetings of the calendar period identified by `key` (range start + view)
+  const [calendarMeetings, setCalendarMeetings] = useState<{
+    key: string;
+    rooms: ScheduledMeeting[];
+  }>({ key: "", rooms: [] });
+  // Bumped after scheduling so both lists refetch
+  const [scheduleVersion, setScheduleVersion] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const [isImporting, setIsImporting] = useState(false);
+  const [editChange, setEditChange] = useState<MeetingChange | null>(null);
+  const [cancelChange, setCancelChange] = useState<MeetingChange | null>(null);
+  const [isSavingChange, setIsSavingChange] = useState(false);
+  const icsInputRef = useRef<HTMLInputElement>(null);
   
   // Recent meetings state
   const [recentMeetings, setRecentMeetings] = useState<any[]>([]);
@@ -84,6 +162,7 @@ const Dashboard: React.FC = () => {
         name: `Reunión de ${user.displayName || user.nickname || user.email}`,
         creatorId: user.id,
         private: false,
+        waitingRoom: waitingRoomEnabled,
       };
 
       const response = await createRoom(roomData);
@@ -103,6 +182,273 @@ const Dashboard: React.FC = () => {
     }
   };
 
+  /**
+   * Handle scheduling a meeting for later
+   * Creates the room with its start time and refreshes the upcoming list
+   */
+  const handleScheduleMeeting = async (data: ScheduleMeetingData) => {
+    if (!user?.id) {
+      showToast("Debes iniciar sesión para programar una reunión", "error");
+      return;
+    }
+
+    setIsScheduling(true);
+
+    try {
+      console.log("[DASHBOARD] Scheduling meeting for", data.startsAt.toISOString());
+      const response = await createRoom({
+        name: data.name,
+        creatorId: user.id,
+        password: data.password || null,
+        private: data.isPrivate,
+        waitingRoom: waitingRoomEnabled,
+        scheduleAt: data.startsAt.toISOString(),
+        durationMinutes: data.durationMinutes,
+        recurrence: data.recurrence,
+        // Occurrences are expanded in the organizer's time zone for everyone
+        recurrenceTimeZone: data.recurrence ? getLocalTimeZone() : null,
+      });
+
+      if (response.error) {
+        showToast(response.error, "error");
+        return;
+      }
+
+      console.log(`[DASHBOARD] Meeting scheduled with ID: ${response.data?.id}`);
+      setShowScheduleForm(false);
+      setScheduleVersion((version) => version + 1);
+      showToast(
+        `«${data.name}» programada para el ${data.startsAt.toLocaleString("es-ES", {
+          day: "numeric",
+          month: "long",
+          hour: "2-digit",
+          minute: "2-digit",
+        })}`,
+        "success"
+      );
+    } catch (error) {
+      console.error("[DASHBOARD] Error scheduling meeting:", error);
+      showToast("Error al programar la reunión", "error");
+    } finally {
+      setIsScheduling(false);
+    }
+  };
+
+  /**
+   * Copy the invitation link of a scheduled meeting
+   */
+  const handleCopyMeetingLink = async (room: Room) => {
+    const meetingLink = `${window.location.origin}/join/${room.id}`;
+
+    try {
+      await navigator.clipboard.writeText(meetingLink);
+      showToast(`Enlace de «${room.name}» copiado`, "success");
+    } catch (error) {
+      console.error("[DASHBOARD] Error copying link:", error);
+      showToast(`Enlace de reunión: ${meetingLink}`, "info");
+    }
+  };
+
+  /**
+   * Save an edited meeting: a single occurrence is stored as an exception
+   * of its series, anything else updates the room itself
+   */
+  const handleSaveMeetingChange = async (data: ScheduleMeetingData) => {
+    if (!editChange?.scope) return;
+    const { meeting, scope } = editChange;
+    const series = meeting.series ?? meeting;
+
+    setIsSavingChange(true);
+
+    try {
+      let droppedExceptions = 0;
+      let response;
+      if (scope === "occurrence" && meeting.occurrenceId) {
+        response = await updateRoomSchedule(series.id, {
+          recurrenceExceptions: upsertRecurrenceException(series, {
+            occurrenceId: meeting.occurrenceId,
+            name: data.name,
+            scheduleAt: data.startsAt.toISOString(),
+            durationMinutes: data.durationMinutes,
+          }),
+        });
+      } else {
+        const changes = {
+          name: data.name,
+          private: data.isPrivate,
+          scheduleAt: data.startsAt.toISOString(),
+          durationMinutes: data.durationMinutes,
+          recurrence: data.recurrence,
+          recurrenceTimeZone: data.recurrence
+            ? series.recurrenceTimeZone || getLocalTimeZone()
+            : null,
+        };
+        // Edited and cancelled occurrences are keyed by their original
+        // start, which moves with the series start and rule
+        const { exceptions, dropped } = remapRecurrenceExceptions(series, {
+          ...series,
+          ...changes,
+        });
+        droppedExceptions = dropped;
+        response = await updateRoomSchedule(series.id, {
+          ...changes,
+          recurrenceExceptions: exceptions,
+        });
+      }
+
+      if (response.error) {
+        showToast(response.error, "error");
+        return;
+      }
+
+      console.log(`[DASHBOARD] Meeting ${series.id} updated (${scope})`);
+      setEditChange(null);
+      setScheduleVersion((version) => version + 1);
+      showToast(`Cambios guardados en «${data.name}»`, "success");
+      if (droppedExceptions > 0) {
+        showToast(
+          droppedExceptions === 1
+            ? "Un cambio hecho a una sola reunión de la serie ya no coincide con la nueva programación y se descartó"
+            : `${droppedExceptions} cambios hechos a reuniones sueltas de la serie ya no coinciden con la nueva programación y se descartaron`,
+          "warning"
+        );
+      }
+    } catch (error) {
+      console.error("[DASHBOARD] Error updating meeting:", error);
+      showToast("Error al guardar los cambios", "error");
+    } finally {
+      setIsSavingChange(false);
+    }
+  };
+
+  /**
+   * Cancel a meeting: a single occurrence is marked as cancelled in its
+   * series, a whole series or one-off meeting is deleted
+   */
+  const handleConfirmCancel = async () => {
+    if (!cancelChange?.scope) return;
+    const { meeting, scope } = cancelChange;
+    const series = meeting.series ?? meeting;
+    setCancelChange(null);
+
+    try {
+      const response =
+        scope === "occurrence" && meeting.occurrenceId
+          ? await updateRoomSchedule(series.id, {
+              recurrenceExceptions: upsertRecurrenceException(series, {
+                occurrenceId: meeting.occurrenceId,
+                cancelled: true,
+              }),
+            })
+          : await deleteRoom(series.id);
+
+      if (response.error) {
+        showToast(response.error, "error");
+        return;
+      }
+
+      console.log(`[DASHBOARD] Meeting ${series.id} cancelled (${scope})`);
+      setScheduleVersion((version) => version + 1);
+      showToast(
+        scope === "occurrence"
+          ? `Reunión del ${formatMeetingDate(meeting.scheduleAt)} cancelada`
+          : `«${series.name}» cancelada`,
+        "success"
+      );
+    } catch (error) {
+      console.error("[DASHBOARD] Error cancelling meeting:", error);
+      showToast("Error al cancelar la reunión", "error");
+    }
+  };
+
+  /**
+   * Current values shown when editing a meeting: the occurrence's own
+   * for a single occurrence, the series' otherwise
+   */
+  const getEditInitialValues = (change: MeetingChange) => {
+    const source =
+      change.scope === "occurrence"
+        ? change.meeting
+        : (change.meeting.series ?? change.meeting);
+    return {
+      name: source.name,
+      startsAt: getScheduledStart(source) ?? undefined,
+      durationMinutes: source.durationMinutes ?? undefined,
+      isPrivate: source.private,
+      recurrence: source.recurrence,
+    };
+  };
+
+  /**
+   * Download calendar invites (.ics) for one or more scheduled meetings
+   */
+  const handleDownloadInvite = (rooms: ScheduledMeeting[], fileName: string) => {
+    downloadIcs(buildMeetingCalendar(rooms, window.location.origin), fileName);
+  };
+
+  /**
+   * Create one scheduled meeting per event of an imported .ics file
+   * Past and all-day events are skipped; recurring events become
+   * recurring meetings while they have occurrences left
+   */
+  const handleImportIcs = async (file: File) => {
+    if (!user?.id) {
+      showToast("Debes iniciar sesión para importar reuniones", "error");
+      return;
+    }
+
+    setIsImporting(true);
+
+    try {
+      const events = parseIcs(await file.text());
+      // Changed occurrences are imported with their series
+      const meetings = events.filter((event) => !event.recurrenceId);
+      const creatorId = user.id;
+      const importable = meetings
+        .filter((event) => !event.allDay)
+        .map((event) => ({
+          name: event.summary,
+          creatorId,
+          ...getIcsRoomSchedule(event, events),
+        }))
+        .filter((room) =>
+          room.recurrence
+            ? !!getCurrentOccurrence({ id: "", ...room }).occurrenceId
+            : new Date(room.scheduleAt!).getTime() > Date.now()
+        );
+      console.log(
+        `[DASHBOARD] Importing ${importable.length} of ${meetings.length} events from ${file.name}`
+      );
+
+      let created = 0;
+      for (const room of importable) {
+        const response = await createRoom({
+          ...room,
+          private: false,
+          waitingRoom: waitingRoomEnabled,
+        });
+        if (response.error) {
+          console.error("[DASHBOARD] Error importing event:", room.name, response.error);
+        } else {
+          created++;
+        }
+      }
+
+      setScheduleVersion((version) => version + 1);
+      const skipped = meetings.length - created;
+      showToast(
+        `${created} ${created === 1 ? "reunión importada" : "reuniones importadas"}` +
+          (skipped > 0 ? ` (${skipped} omitidas: pasadas, de día completo o con errores)` : ""),
+        created > 0 ? "success" : "warning"
+      );
+    } catch (error) {
+      console.error("[DASHBOARD] Error importing calendar:", error);
+      showToast((error as Error).message || "No se pudo leer el archivo .ics", "error");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   /**
    * Handle joining a meeting by ID
    * Validates the meeting ID and navigates to the meeting
@@ -135,8 +481,8 @@ const Dashboard: React.FC = () => {
         return;
       }
 
-      console.log(`[DASHBOARD] Meeting ${meetingId} found, navigating...`);
-      navigate(`/meet/${meetingId}`);
+      console.log(`[DASHBOARD] Meeting ${meetingId} found, opening lobby...`);
+      navigate(`/join/${meetingId}`);
     } catch (error) {
       console.error("[DASHBOARD] Error joining meeting:", error);
       showToast("Error al unirse a la reunión", "error");
@@ -259,6 +605,72 @@ const Dashboard: React.FC = () => {
     loadUserStats();
   }, [loadRecentMeetings, loadUserStats]);
 
+  // Keep countdowns and join buttons of scheduled meetings current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Load scheduled meetings for the upcoming list
+  useEffect(() => {
+    if (!user?.id) return;
+
+    let cancelled = false;
+    // Start a day back so meetings already in progress are still listed
+    const from = addDays(startOfDay(new Date()), -1);
+    const to = addDays(from, UPCOMING_DAYS + 1);
+    getScheduledRooms(user.id, from, to).then((response) => {
+      if (cancelled) return;
+      if (response.error) {
+        console.error("[DASHBOARD] Error loading scheduled meetings:", response.error);
+      }
+      setUpcomingMeetings(expandScheduledMeetings(response.data || [], from, to));
+      setLoadingUpcoming(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, scheduleVersion]);
+
+  const calendarRange = getCalendarRange(calendarView, calendarDate);
+  const calendarKey = `${calendarView}:${calendarRange.from.toISOString()}`;
+
+  // Load scheduled meetings for the visible calendar period
+  useEffect(() => {
+    if (!user?.id || scheduledTab !== "calendar") return;
+
+    let cancelled = false;
+    const { from, to } = getCalendarRange(calendarView, calendarDate);
+    getScheduledRooms(user.id, from, to).then((response) => {
+      if (cancelled) return;
+      if (response.error) {
+        console.error("[DASHBOARD] Error loading calendar meetings:", response.error);
+      }
+      setCalendarMeetings({
+        key: calendarKey,
+        rooms: expandScheduledMeetings(response.data || [], from, to),
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+    // calendarKey already captures view and period of calendarDate
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.id, scheduledTab, calendarKey, scheduleVersion]);
+
+  // Meetings that have not finished yet, earliest first
+  const pendingMeetings = upcomingMeetings
+    .filter((room) => {
+      const end = getScheduledEnd(room);
+      return !!end && end.getTime() > now;
+    })
+    .sort(
+      (a, b) =>
+        getScheduledStart(a)!.getTime() - getScheduledStart(b)!.getTime()
+    );
+
   /**
    * Format timestamp to readable date
    */
@@ -357,7 +769,7 @@ const Dashboard: React.FC = () => {
       title: "Programar",
       description: "Agenda reuniones futuras",
       icon: "calendar",
-      action: () => showToast("Funcionalidad próximamente", "info"),
+      action: () => setShowScheduleForm(true),
     },
     {
       title: "Resúmenes",
@@ -409,6 +821,14 @@ const Dashboard: React.FC = () => {
                 </button>
               ))}
             </div>
+            <label className="meeting-option">
+              <input
+                type="checkbox"
+                checked={waitingRoomEnabled}
+                onChange={(e) => setWaitingRoomEnabled(e.target.checked)}
+              />
+              Usar sala de espera en las reuniones que inicie
+            </label>
           </section>
 
           {/* Join Meeting Section */}
@@ -479,6 +899,109 @@ const Dashboard: React.FC = () => {
             </p>
           </section>
 
+          {/* Scheduled Meetings */}
+          <section
+            className="scheduled-meetings"
+            aria-labelledby="scheduled-title"
+          >
+            <div className="scheduled-meetings-header">
+              <h2 id="scheduled-title">Próximas Reuniones</h2>
+              <div className="scheduled-tabs" role="tablist">
+                <button
+                  role="tab"
+                  aria-selected={scheduledTab === "list"}
+                  onClick={() => setScheduledTab("list")}
+                >
+                  Lista
+                </button>
+                <button
+                  role="tab"
+                  aria-selected={scheduledTab === "calendar"}
+                  onClick={() => setScheduledTab("calendar")}
+                >
+                  Calendario
+                </button>
+              </div>
+              <div className="scheduled-actions">
+                <button
+                  onClick={() => icsInputRef.current?.click()}
+                  disabled={isImporting}
+                  title="Crear reuniones desde un archivo .ics de Outlook o Google Calendar"
+                >
+                  {isImporting ? "Importando..." : "Importar .ics"}
+                </button>
+                <button
+                  onClick={() =>
+                    handleDownloadInvite(pendingMeetings, "reuniones-charlaton.ics")
+                  }
+                  disabled={pendingMeetings.length === 0}
+                  title="Descargar todas las próximas reuniones como .ics"
+                >
+                  Exportar .ics
+                </button>
+                <button
+                  className="schedule-button"
+                  onClick={() => setShowScheduleForm(true)}
+                >
+                  Programar
+                </button>
+                <input
+                  ref={icsInputRef}
+                  type="file"
+                  accept=".ics,text/calendar"
+                  hidden
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    // Reset so the same file can be imported again
+                    e.target.value = "";
+                    if (file) handleImportIcs(file);
+                  }}
+                />
+              </div>
+            </div>
+
+            {scheduledTab === "calendar" ? (
+              <MeetingCalendar
+                rooms={calendarMeetings.rooms}
+                view={calendarView}
+                date={calendarDate}
+                today={new Date(now)}
+                isLoading={calendarMeetings.key !== calendarKey}
+                onViewChange={setCalendarView}
+                onDateChange={setCalendarDate}
+                onSelectMeeting={(room) => navigate(`/join/${room.id}`)}
+              />
+            ) : loadingUpcoming ? (
+              <div className="meetings-loading">
+                <div className="spinner" aria-label="Cargando reuniones programadas"></div>
+                <p>Cargando reuniones programadas...</p>
+              </div>
+            ) : (
+              <UpcomingMeetings
+                rooms={pendingMeetings}
+                now={now}
+                currentUserId={user?.id}
+                onJoin={(room) => navigate(`/join/${room.id}`)}
+                onCopyLink={handleCopyMeetingLink}
+                onDownloadInvite={(room) =>
+                  handleDownloadInvite([room], getIcsFileName(room.name))
+                }
+                onEdit={(meeting) =>
+                  setEditChange({
+                    meeting,
+                    scope: meeting.occurrenceId ? null : "series",
+                  })
+                }
+                onCancel={(meeting) =>
+                  setCancelChange({
+                    meeting,
+                    scope: meeting.occurrenceId ? null : "series",
+                  })
+                }
+              />
+            )}
+          </section>
+
           {/* Recent Meetings */}
           <section className="recent-meetings" aria-labelledby="recent-title">
             <div className="recent-meetings-header">
@@ -627,6 +1150,88 @@ const Dashboard: React.FC = () => {
 
       <Footer />
 
+      <Modal
+        isOpen={showScheduleForm}
+        onClose={() => !isScheduling && setShowScheduleForm(false)}
+        title="Programar reunión"
+      >
+        <ScheduleMeetingForm
+          defaultName={`Reunión de ${user?.displayName || user?.nickname || user?.email || ""}`}
+          isSubmitting={isScheduling}
+          onSubmit={handleScheduleMeeting}
+          onCancel={() => setShowScheduleForm(false)}
+        />
+      </Modal>
+
+      {/* Recurring meetings: ask which part of the series to change */}
+      <Modal
+        isOpen={
+          (!!editChange && !editChange.scope) ||
+          (!!cancelChange && !cancelChange.scope)
+        }
+        onClose={() => {
+          setEditChange(null);
+          setCancelChange(null);
+        }}
+        title={editChange ? "Editar reunión periódica" : "Cancelar reunión periódica"}
+      >
+        <div className="change-scope">
+          <p>¿Quieres cambiar solo esta reunión o toda la serie?</p>
+          <div className="change-scope-actions">
+            {(["occurrence", "series"] as const).map((scope) => (
+              <button
+                key={scope}
+                onClick={() => {
+                  if (editChange) setEditChange({ ...editChange, scope });
+                  if (cancelChange) setCancelChange({ ...cancelChange, scope });
+                }}
+              >
+                {scope === "occurrence" ? "Solo esta reunión" : "Toda la serie"}
+              </button>
+            ))}
+          </div>
+        </div>
+      </Modal>
+
+      <Modal
+        isOpen={!!editChange?.scope}
+        onClose={() => !isSavingChange && setEditChange(null)}
+        title={
+          editChange?.scope === "occurrence" ? "Editar esta reunión" : "Editar reunión"
+        }
+      >
+        {editChange?.scope && (
+          <ScheduleMeetingForm
+            key={`${editChange.meeting.id}:${editChange.meeting.occurrenceId ?? ""}:${editChange.scope}`}
+            defaultName={editChange.meeting.name}
+            mode={editChange.scope}
+            initialValues={getEditInitialValues(editChange)}
+            isSubmitting={isSavingChange}
+            onSubmit={handleSaveMeetingChange}
+            onCancel={() => setEditChange(null)}
+          />
+        )}
+      </Modal>
+
+      <ConfirmationModal
+        isOpen={!!cancelChange?.scope}
+        title="Cancelar reunión"
+        message={
+          !cancelChange
+            ? ""
+            : cancelChange.scope === "occurrence"
+              ? `Se cancelará la reunión del ${formatMeetingDate(cancelChange.meeting.scheduleAt)}. El resto de la serie no cambia.`
+              : cancelChange.meeting.series
+                ? `Se cancelarán todas las reuniones de «${cancelChange.meeting.series.name}» y su enlace dejará de funcionar.`
+                : `Se cancelará «${cancelChange.meeting.name}» y su enlace dejará de funcionar.`
+        }
+        confirmText="Cancelar reunión"
+        cancelText="Volver"
+        confirmButtonClass="btn-danger"
+        onConfirm={handleConfirmCancel}
+        onCancel={() => setCancelChange(null)}
+      />
+
       {/* Toast Notifications */}
       <div className="toast-container" aria-live="polite" aria-atomic="true">
         {toasts.map((toast) => (
@@ -1,62 +1,678 @@
 // src/pages/join/JoinMeeting.tsx
-// Join meeting redirect page
+// Pre-join lobby: device preview and mic/camera choice before entering a meeting
 
-import React, { useEffect } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
+import useAuthStore from "../../stores/useAuthStore";
+import DeviceSettings from "../../components/DeviceSettings/DeviceSettings";
+import {
+  getAdmissionToken,
+  getRoomById,
+  verifyRoomPassword,
+  type Room,
+} from "../../services/room.service";
+import { useAudioLevel } from "../../hooks/useAudioLevel";
+import { connectToChat } from "../../lib/socket.config";
+import {
+  EARLY_JOIN_MINUTES,
+  formatTimeUntil,
+  getJoinOpensAt,
+  getScheduledStart,
+} from "../../lib/schedule";
+import { getCurrentOccurrence } from "../../lib/recurrence";
+import {
+  listMediaDevices,
+  loadDevicePreferences,
+  saveDevicePreferences,
+  watchMediaDevices,
+  type AvailableMediaDevices,
+  type MediaDevicePreferences,
+} from "../../lib/mediaDevices";
+import type { Socket } from "socket.io-client";
+import "./JoinMeeting.scss";
+
+/**
+ * Mic/camera choice handed to the meeting page through router state.
+ * `joinToken` carries the proof that the room password was verified and
+ * `admissionToken` the proof that a host admitted the user from the
+ * waiting room; the server checks both when joining.
+ */
+export interface JoinMeetingState {
+  micOn: boolean;
+  cameraOn: boolean;
+  joinToken?: string;
+  admissionToken?: string;
+}
+
+/**
+ * Where the user stands with a room that has a waiting room
+ */
+type AdmissionStatus = "idle" | "waiting" | "admitted" | "denied";
+
+/**
+ * How often a waiting user repeats their request, so hosts who join or
+ * reconnect later still see them
+ */
+const ADMISSION_RETRY_MS = 15000;
+
+/**
+ * How long the password field stays locked after too many attempts when
+ * the server does not send `Retry-After`
+ */
+const DEFAULT_PASSWORD_LOCK_SECONDS = 60;
 
 /**
  * JoinMeeting Component
- * Redirects from /join/:meetingId to /meet/:meetingId
- * This provides a clean shareable link structure
+ * Lobby shown at /join/:meetingId before entering /meet/:meetingId.
+ * Lets the user check their camera and microphone, pick devices and
+ * decide whether to join muted or with the camera off.
  */
 const JoinMeeting: React.FC = () => {
   const { meetingId } = useParams<{ meetingId: string }>();
   const navigate = useNavigate();
+  const { user } = useAuthStore();
+
+  const [room, setRoom] = useState<Room | null>(null);
+  const [isLoadingRoom, setIsLoadingRoom] = useState(true);
+  const [roomError, setRoomError] = useState<string | null>(null);
+
+  const [devices, setDevices] = useState<AvailableMediaDevices>({
+    audioInputs: [],
+    videoInputs: [],
+    audioOutputs: [],
+  });
+  const [preferences, setPreferences] = useState<MediaDevicePreferences>(() =>
+    user?.id ? loadDevicePreferences(String(user.id)) : {}
+  );
+  const [micOn, setMicOn] = useState(false);
+  const [cameraOn, setCameraOn] = useState(false);
+  const [previewStream, setPreviewStream] = useState<MediaStream | null>(null);
+  const [mediaError, setMediaError] = useState<string | null>(null);
+  const [admission, setAdmission] = useState<AdmissionStatus>("idle");
+  // Password-protected rooms: the password is checked by the server,
+  // which hands back a join token for the meeting page
+  const [password, setPassword] = useState("");
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  // Set after too many wrong passwords, until the server accepts new tries
+  const [passwordLockedUntil, setPasswordLockedUntil] = useState<number | null>(
+    null
+  );
+  const [isVerifyingPassword, setIsVerifyingPassword] = useState(false);
+  const [joinToken, setJoinToken] = useState<string | null>(null);
+  const [admissionToken, setAdmissionToken] = useState<string | null>(null);
+  // Ticks while a scheduled meeting has not opened yet
+  const [now, setNow] = useState(() => Date.now());
+
+  const { audioInputId, videoInputId } = preferences;
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const micLevel = useAudioLevel(previewStream);
 
   useEffect(() => {
     window.scrollTo(0, 0);
   }, []);
 
+  /**
+   * Load the room so the user can see which meeting they are joining
+   */
   useEffect(() => {
-    if (meetingId) {
-      console.log(`[JOIN] Redirecting to meeting ${meetingId}`);
-      navigate(`/meet/${meetingId}`, { replace: true });
-    } else {
+    if (!meetingId) {
       console.log("[JOIN] No meeting ID provided, redirecting to dashboard");
       navigate("/dashboard", { replace: true });
+      return;
     }
+
+    let cancelled = false;
+
+    (async () => {
+      const response = await getRoomById(meetingId);
+      if (cancelled) return;
+
+      if (response.error || !response.data) {
+        console.error("[JOIN] ❌ Error loading room:", response.error);
+        setRoomError("No se encontró la reunión. Verifica el enlace.");
+      } else if (response.data.endedAt || response.data.deletedAt) {
+        setRoomError("Esta reunión ya finalizó.");
+      } else {
+        setRoom(response.data);
+      }
+      setIsLoadingRoom(false);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
   }, [meetingId, navigate]);
 
+  /**
+   * Count down to the moment a scheduled meeting opens. For recurring
+   * rooms the stable link leads to the current occurrence.
+   */
+  useEffect(() => {
+    const opensAt = room
+      ? getJoinOpensAt(getCurrentOccurrence(room))?.getTime()
+      : undefined;
+    if (!opensAt || opensAt <= Date.now()) return;
+
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= opensAt) clearInterval(timer);
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [room]);
+
+  /**
+   * Count down the password lock and unlock the field when it ends
+   */
+  useEffect(() => {
+    if (passwordLockedUntil === null) return;
+
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= passwordLockedUntil) {
+        clearInterval(timer);
+        setPasswordLockedUntil(null);
+        setPasswordError(null);
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [passwordLockedUntil]);
+
+  /**
+   * Capture a preview stream with the chosen devices. The camera is only
+   * opened while the camera toggle is on.
+   */
+  useEffect(() => {
+    let cancelled = false;
+    let acquired: MediaStream | null = null;
+
+    (async () => {
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          audio: audioInputId ? { deviceId: { ideal: audioInputId } } : true,
+          video: cameraOn
+            ? videoInputId
+              ? { deviceId: { ideal: videoInputId } }
+              : true
+            : false,
+        });
+
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+
+        acquired = stream;
+        setPreviewStream(stream);
+        setMediaError(null);
+        // Device labels are only exposed once media access is granted
+        setDevices(await listMediaDevices());
+      } catch (error) {
+        if (cancelled) return;
+        console.error("[JOIN] ❌ Error accessing media devices:", error);
+        setPreviewStream(null);
+        setMediaError(
+          error instanceof DOMException && error.name === "NotAllowedError"
+            ? "Permite el acceso a la cámara y al micrófono para verte y oírte antes de entrar."
+            : "No se pudo acceder a la cámara o al micrófono."
+        );
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      acquired?.getTracks().forEach((track) => track.stop());
+    };
+  }, [audioInputId, videoInputId, cameraOn]);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = previewStream;
+    }
+  }, [previewStream]);
+
+  useEffect(
+    () =>
+      watchMediaDevices(() => {
+        listMediaDevices().then(setDevices);
+      }),
+    []
+  );
+
+  const displayName =
+    user?.displayName || user?.nickname || user?.email?.split("@")[0] || "Tú";
+
+  /**
+   * Wait in the room's waiting room until a host admits or denies us
+   */
+  useEffect(() => {
+    if (admission !== "waiting" || !meetingId || !user?.id) return;
+
+    let socket: Socket | null = null;
+    let retryTimer: ReturnType<typeof setInterval> | null = null;
+    let cancelled = false;
+    let answered = false;
+
+    const handleAdmissionResponse = async ({
+      userId,
+      roomId,
+      targetUserId,
+      admitted,
+    }: {
+      userId: string;
+      roomId: string;
+      targetUserId: string;
+      admitted: boolean;
+    }) => {
+      if (roomId !== meetingId || String(targetUserId) !== String(user.id)) {
+        return;
+      }
+
+      // Only the host and co-hosts answer; check against the latest room
+      // so co-hosts promoted while we wait are recognized
+      const roomResponse = await getRoomById(meetingId);
+      const latest = roomResponse.data;
+      const isResponderModerator =
+        !!latest &&
+        (String(latest.creatorId) === String(userId) ||
+          !!latest.adminsId?.map(String).includes(String(userId)));
+      if (cancelled || !isResponderModerator) {
+        console.warn(`[JOIN] Ignoring waiting room answer from ${userId}`);
+        return;
+      }
+
+      if (!admitted) {
+        answered = true;
+        console.log("[JOIN] Waiting room answer: denied");
+        setAdmission("denied");
+        return;
+      }
+
+      // The server only issues the token if the admission was recorded
+      const tokenResponse = await getAdmissionToken(meetingId);
+      if (cancelled) return;
+      if (tokenResponse.error || !tokenResponse.data) {
+        console.warn("[JOIN] ❌ Admission not confirmed:", tokenResponse.error);
+        return;
+      }
+
+      answered = true;
+      console.log("[JOIN] Waiting room answer: admitted");
+      setAdmissionToken(tokenResponse.data.admissionToken);
+      setAdmission("admitted");
+    };
+
+    (async () => {
+      socket = await connectToChat();
+      if (cancelled) return;
+      if (!socket) {
+        setRoomError("No se pudo contactar con el anfitrión. Intenta de nuevo.");
+        setAdmission("idle");
+        return;
+      }
+
+      socket.on("user_admission_response", handleAdmissionResponse);
+      const requestAdmission = () =>
+        socket?.emit("admission_requested", {
+          roomId: meetingId,
+          name: displayName,
+        });
+      requestAdmission();
+      retryTimer = setInterval(requestAdmission, ADMISSION_RETRY_MS);
+      console.log(`[JOIN] ⏳ Waiting to be admitted to ${meetingId}`);
+    })();
+
+    return () => {
+      cancelled = true;
+      if (retryTimer) clearInterval(retryTimer);
+      socket?.off("user_admission_response", handleAdmissionResponse);
+      // Leaving the waiting room without an answer withdraws the request
+      if (!answered) {
+        socket?.emit("admission_cancelled", { roomId: meetingId });
+      }
+    };
+  }, [admission, meetingId, user?.id, displayName]);
+
+  /**
+   * Remember a device picked in the lobby for the meeting
+   */
+  const handleDeviceChange = (
+    kind: keyof MediaDevicePreferences,
+    deviceId: string
+  ) => {
+    const updated = { ...preferences, [kind]: deviceId || undefined };
+    setPreferences(updated);
+    if (user?.id) {
+      saveDevicePreferences(String(user.id), updated);
+    }
+  };
+
+  /**
+   * Release the preview devices and enter the meeting
+   */
+  const enterMeeting = (token = joinToken) => {
+    if (!meetingId) return;
+
+    previewStream?.getTracks().forEach((track) => track.stop());
+    const state: JoinMeetingState = {
+      micOn,
+      cameraOn,
+      joinToken: token ?? undefined,
+      admissionToken: admissionToken ?? undefined,
+    };
+    console.log(`[JOIN] Entering meeting ${meetingId}`, { micOn, cameraOn });
+    navigate(`/meet/${meetingId}`, { replace: true, state });
+  };
+
+  const isRoomModerator =
+    !!room &&
+    (String(room.creatorId) === String(user?.id) ||
+      !!room.adminsId?.map(String).includes(String(user?.id)));
+  const needsAdmission = !!room?.waitingRoom && !isRoomModerator;
+  const needsPassword = !!room?.hasPassword && !isRoomModerator && !joinToken;
+  const occurrence = room ? getCurrentOccurrence(room, now) : null;
+  const scheduledStart = occurrence ? getScheduledStart(occurrence) : null;
+  const joinOpensAt = occurrence ? getJoinOpensAt(occurrence) : null;
+  const isTooEarly =
+    !isRoomModerator && !!joinOpensAt && now < joinOpensAt.getTime();
+  const isPasswordLocked = passwordLockedUntil !== null && now < passwordLockedUntil;
+
+  /**
+   * Verify the password if needed, then enter directly or knock first
+   * when the room has a waiting room
+   */
+  const handleJoin = async () => {
+    if (!meetingId || isTooEarly) return;
+
+    let token = joinToken;
+    if (needsPassword) {
+      if (!password) {
+        setPasswordError("Escribe la contraseña de la reunión");
+        return;
+      }
+
+      setIsVerifyingPassword(true);
+      const response = await verifyRoomPassword(meetingId, password);
+      setIsVerifyingPassword(false);
+
+      if (response.error || !response.data) {
+        console.warn("[JOIN] ❌ Password rejected:", response.errorCode);
+        setPasswordError(response.error || "No se pudo verificar la contraseña");
+        if (response.errorCode === "too_many_attempts") {
+          const current = Date.now();
+          setNow(current);
+          setPasswordLockedUntil(
+            current + (response.retryAfter ?? DEFAULT_PASSWORD_LOCK_SECONDS) * 1000
+          );
+        }
+        return;
+      }
+
+      token = response.data.joinToken;
+      setJoinToken(token);
+      setPassword("");
+      setPasswordError(null);
+    }
+
+    if (needsAdmission) {
+      setAdmission("waiting");
+      return;
+    }
+    enterMeeting(token);
+  };
+
+  /**
+   * Enter as soon as a host lets us in
+   */
+  useEffect(() => {
+    if (admission === "admitted") {
+      enterMeeting();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [admission]);
+
+  const showVideo =
+    cameraOn && !!previewStream && previewStream.getVideoTracks().length > 0;
+
   return (
-    <div
-      style={{
-        display: "flex",
-        alignItems: "center",
-        justifyContent: "center",
-        height: "100vh",
-        backgroundColor: "#18191A",
-        color: "white",
-        fontFamily: "Rubik, sans-serif",
-      }}
-    >
-      <div style={{ textAlign: "center" }}>
-        <div
-          style={{
-            width: "60px",
-            height: "60px",
-            border: "4px solid rgba(255, 255, 255, 0.1)",
-            borderTopColor: "#24C4E8",
-            borderRadius: "50%",
-            animation: "spin 1s linear infinite",
-            margin: "0 auto 1rem",
-          }}
-        ></div>
-        <p>Uniéndose a la reunión...</p>
-        <style>{`
-          @keyframes spin {
-            to { transform: rotate(360deg); }
-          }
-        `}</style>
+    <div className="join-page">
+      <div className="join-container">
+        <section className="join-preview" aria-label="Vista previa">
+          <div className="preview-stage">
+            <video
+              ref={videoRef}
+              className={`preview-video ${showVideo ? "" : "hidden"}`}
+              autoPlay
+              playsInline
+              muted
+            />
+            {!showVideo && (
+              <div className="preview-avatar" aria-hidden="true">
+                {displayName[0].toUpperCase()}
+              </div>
+            )}
+            {mediaError && (
+              <p className="preview-error" role="alert">
+                {mediaError}
+              </p>
+            )}
+
+            <div className="preview-controls">
+              <button
+                type="button"
+                className={`preview-btn ${micOn ? "" : "off"}`}
+                onClick={() => setMicOn((prev) => !prev)}
+                aria-pressed={micOn}
+                aria-label="Entrar con el micrófono activado"
+                title={micOn ? "Silenciar" : "Activar micrófono"}
+              >
+                <svg
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                >
+                  <path d="M12 1a3 3 0 0 0-3 3v8a3 3 0 0 0 6 0V4a3 3 0 0 0-3-3z" />
+                  <path d="M19 10v2a7 7 0 0 1-14 0v-2" />
+                  <line x1="12" y1="19" x2="12" y2="23" />
+                  {!micOn && <line x1="1" y1="1" x2="23" y2="23" />}
+                </svg>
+              </button>
+              <button
+                type="button"
+                className={`preview-btn ${cameraOn ? "" : "off"}`}
+                onClick={() => setCameraOn((prev) => !prev)}
+                aria-pressed={cameraOn}
+                aria-label="Entrar con la cámara encendida"
+                title={cameraOn ? "Desactivar cámara" : "Activar cámara"}
+              >
+                <svg
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                >
+                  <path d="M23 7l-7 5 7 5V7z" />
+                  <rect x="1" y="5" width="15" height="14" rx="2" />
+                  {!cameraOn && <line x1="1" y1="1" x2="23" y2="23" />}
+                </svg>
+              </button>
+            </div>
+          </div>
+
+          <div className="mic-meter">
+            <span className="mic-meter__label">Micrófono</span>
+            <div
+              className="mic-meter__track"
+              role="meter"
+              aria-label="Nivel del micrófono"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(micLevel * 100)}
+            >
+              <div
+                className="mic-meter__fill"
+                style={{ width: `${Math.round(micLevel * 100)}%` }}
+              />
+            </div>
+          </div>
+        </section>
+
+        <section className="join-panel">
+          {isLoadingRoom ? (
+            <div className="join-loading" role="status">
+              <div className="join-spinner" aria-hidden="true" />
+              <p>Cargando reunión...</p>
+            </div>
+          ) : roomError ? (
+            <div className="join-error" role="alert">
+              <h1>No puedes unirte</h1>
+              <p>{roomError}</p>
+              <button
+                type="button"
+                className="btn-join"
+                onClick={() => navigate("/dashboard")}
+              >
+                Volver al panel
+              </button>
+            </div>
+          ) : admission === "waiting" || admission === "admitted" ? (
+            <div className="join-waiting" role="status">
+              <div className="join-spinner" aria-hidden="true" />
+              <h1>{room?.name}</h1>
+              <p>Esperando a que el anfitrión te admita...</p>
+              <button
+                type="button"
+                className="btn-cancel"
+                onClick={() => setAdmission("idle")}
+              >
+                Cancelar solicitud
+              </button>
+            </div>
+          ) : admission === "denied" ? (
+            <div className="join-error" role="alert">
+              <h1>No puedes unirte</h1>
+              <p>El anfitrión no te admitió en la reunión.</p>
+              <button
+                type="button"
+                className="btn-join"
+                onClick={() => navigate("/dashboard")}
+              >
+                Volver al panel
+              </button>
+            </div>
+          ) : (
+            <>
+              <h1>{room?.name}</h1>
+              <p className="join-summary">
+                {micOn ? "Micrófono activado" : "Entrarás silenciado"} ·{" "}
+                {cameraOn ? "Cámara encendida" : "Cámara apagada"}
+              </p>
+              {scheduledStart && scheduledStart.getTime() > now && (
+                <p className="join-schedule" role="status">
+                  Programada para el{" "}
+                  {scheduledStart.toLocaleString("es-ES", {
+                    weekday: "long",
+                    day: "numeric",
+                    month: "long",
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })}
+                  .{" "}
+                  {isTooEarly
+                    ? `Podrás entrar ${EARLY_JOIN_MINUTES} minutos antes (faltan ${formatTimeUntil(
+                        joinOpensAt!.getTime() - now
+                      )}).`
+                    : isRoomModerator
+                      ? "Como anfitrión, puedes iniciarla antes."
+                      : `Empieza en ${formatTimeUntil(scheduledStart.getTime() - now)}.`}
+                </p>
+              )}
+              {needsAdmission && (
+                <p className="join-summary">
+                  Esta reunión tiene sala de espera: el anfitrión debe
+                  admitirte.
+                </p>
+              )}
+
+              {needsPassword && (
+                <div className="join-password">
+                  <label htmlFor="join-password-input">
+                    Contraseña de la reunión
+                  </label>
+                  <input
+                    id="join-password-input"
+                    type="password"
+                    value={password}
+                    onChange={(e) => {
+                      setPassword(e.target.value);
+                      if (!isPasswordLocked) setPasswordError(null);
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" && !isVerifyingPassword) {
+                        handleJoin();
+                      }
+                    }}
+                    autoComplete="off"
+                    disabled={isPasswordLocked || isVerifyingPassword}
+                    aria-invalid={!!passwordError}
+                    aria-describedby={
+                      passwordError ? "join-password-error" : undefined
+                    }
+                  />
+                  {passwordError && (
+                    <p
+                      id="join-password-error"
+                      className="join-password__error"
+                      role="alert"
+                    >
+                      {passwordError}
+                      {isPasswordLocked &&
+                        ` Podrás intentarlo de nuevo en ${formatTimeUntil(
+                          passwordLockedUntil! - now
+                        )}.`}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <DeviceSettings
+                devices={devices}
+                preferences={preferences}
+                onChange={handleDeviceChange}
+              />
+
+              <div className="join-actions">
+                <button
+                  type="button"
+                  className="btn-cancel"
+                  onClick={() => navigate("/dashboard")}
+                >
+                  Cancelar
+                </button>
+                <button
+                  type="button"
+                  className="btn-join"
+                  onClick={handleJoin}
+                  disabled={
+                    isTooEarly ||
+                    isVerifyingPassword ||
+                    (needsPassword && isPasswordLocked)
+                  }
+                >
+                  {isVerifyingPassword
+                    ? "Verificando..."
+                    : needsAdmission
+                      ? "Pedir unirse"
+                      : "Unirse ahora"}
+                </button>
+              </div>
+            </>
+          )}
+        </section>
       </div>
     </div>
   );
@@ -13,32 +13,141 @@
  * The implementation is intentionally state‑heavy to keep all meeting‑related
  * behavior encapsulated in a single page component.
  */
-import React, { useState, useEffect, useRef, useCallback } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import React, {
+  useState,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useCallback,
+} from "react";
+import { useParams, useNavigate, useLocation } from "react-router-dom";
 import useAuthStore from "../../stores/useAuthStore";
 import { useToastContext } from "../../contexts/ToastContext";
 import { notificationSounds } from "../../utils/notificationSounds";
 import WebContentReader from "../../components/web-reader/WebContentReader";
 import ConfirmationModal from "../../components/ConfirmationModal/ConfirmationModal";
+import type { JoinMeetingState } from "../join/JoinMeeting";
+import SignalBars from "../../components/ConnectionQuality/SignalBars";
+import ConnectionInfoPanel from "../../components/ConnectionQuality/ConnectionInfoPanel";
+import Modal from "../../components/Modal/Modal";
+import DeviceSettings from "../../components/DeviceSettings/DeviceSettings";
+import HandRaiseQueue, {
+  type RaisedHand,
+} from "../../components/HandRaiseQueue/HandRaiseQueue";
+import ReactionPicker from "../../components/Reactions/ReactionPicker";
+import ReactionOverlay, {
+  type ActiveReaction,
+} from "../../components/Reactions/ReactionOverlay";
+import BreakoutRooms from "../../components/BreakoutRooms/BreakoutRooms";
+import BreakoutCountdown from "../../components/BreakoutRooms/BreakoutCountdown";
+import ParticipantModeration, {
+  type ModerationAction,
+} from "../../components/ParticipantModeration/ParticipantModeration";
+import ChatRecipientPicker from "../../components/ChatRecipientPicker/ChatRecipientPicker";
+import MessageActions from "../../components/MessageActions/MessageActions";
+import MessageEditForm from "../../components/MessageActions/MessageEditForm";
+import MessageQuote from "../../components/MessageThread/MessageQuote";
+import MessageThread from "../../components/MessageThread/MessageThread";
+import ReplyBanner from "../../components/MessageThread/ReplyBanner";
+import RichText from "../../components/RichText/RichText";
+import FormattingToolbar from "../../components/RichText/FormattingToolbar";
+import MentionAutocomplete from "../../components/MentionAutocomplete/MentionAutocomplete";
+import WaitingRoomList, {
+  type WaitingUser,
+} from "../../components/WaitingRoom/WaitingRoomList";
 import {
+  answerAdmissionRequest,
   getRoomById,
   joinRoom,
   leaveRoom,
   deleteRoom,
   endRoom,
   getRoomParticipants,
+  createBreakoutRooms,
+  updateRoomAdmins,
   type Participant,
   type Room,
 } from "../../services/room.service";
-import { getRoomMessages, type Message } from "../../services/message.service";
+import {
+  deleteMessage,
+  getRoomMessages,
+  updateMessage,
+  type Message,
+  type MessageCursor,
+} from "../../services/message.service";
 import { getUserById, type BasicUser } from "../../services/user.service";
 import {
   connectToChat,
   disconnectFromChat,
   getSocket,
 } from "../../lib/socket.config";
-import { connectToWebRTC } from "../../lib/webrtcSocket.config";
-import { webrtcManager } from "../../lib/webrtc.config";
+import {
+  connectToWebRTC,
+  disconnectFromWebRTC,
+} from "../../lib/webrtcSocket.config";
+import {
+  webrtcManager,
+  type PeerConnectionStatus,
+} from "../../lib/webrtc.config";
+import type { PeerConnectionStats } from "../../lib/connectionStats";
+import { ActiveSpeakerDetector } from "../../lib/activeSpeaker";
+import {
+  ReactionRateLimiter,
+  REACTION_DURATION_MS,
+  getReactionOption,
+} from "../../lib/reactions";
+import {
+  assignRandomly,
+  getOpenBreakoutRooms,
+  type BreakoutAssignments,
+} from "../../lib/breakoutRooms";
+import {
+  EARLY_JOIN_MINUTES,
+  getScheduledStart,
+  isSameDay,
+  isTooEarlyToJoin,
+} from "../../lib/schedule";
+import { getCurrentOccurrence } from "../../lib/recurrence";
+import { buildMeetingCalendar, downloadIcs, getIcsFileName } from "../../lib/ics";
+import {
+  EVERYONE,
+  MESSAGES_PAGE_SIZE,
+  formatMessageDay,
+  getHistoryCursor,
+  getMessageTargetIds,
+  isMessageEdited,
+  isMessageVisibleTo,
+  mergeMessages,
+  toMessageTarget,
+  type ChatRecipients,
+} from "../../lib/chatMessages";
+import {
+  getQuoteExcerpt,
+  getReplyCounts,
+  getThreadReplies,
+  isShownInThread,
+  type ReplyMode,
+} from "../../lib/chatThreads";
+import {
+  encodeMentions,
+  getMentionedUserIds,
+  type MentionCandidate,
+} from "../../lib/chatMentions";
+import {
+  MeetingRecorder,
+  type RecordingSource,
+} from "../../lib/meetingRecorder";
+import { downloadBlob } from "../../lib/download";
+import {
+  applyAudioOutput,
+  getDeviceLabel,
+  listMediaDevices,
+  loadDevicePreferences,
+  saveDevicePreferences,
+  watchMediaDevices,
+  type AvailableMediaDevices,
+  type MediaDevicePreferences,
+} from "../../lib/mediaDevices";
 import type { Socket } from "socket.io-client";
 import "./Meeting.scss";
 
@@ -63,11 +172,31 @@ interface UserData {
   };
 }
 
+/**
+ * Add or remove a participant from the raised hands queue, keeping it
+ * ordered by the time each hand was raised
+ */
+function updateRaisedHands(
+  hands: RaisedHand[],
+  userId: string,
+  raised: boolean,
+  raisedAt: number
+): RaisedHand[] {
+  const others = hands.filter((hand) => hand.userId !== userId);
+  if (!raised) return others;
+  return [...others, { userId, raisedAt }].sort(
+    (a, b) => a.raisedAt - b.raisedAt
+  );
+}
+
 const Meeting: React.FC = () => {
   const { meetingId } = useParams<{ meetingId: string }>();
   const navigate = useNavigate();
+  const location = useLocation();
   const { user } = useAuthStore();
   const toast = useToastContext();
+  // Mic/camera choice from the pre-join lobby (both off when joining directly)
+  const joinState = location.state as JoinMeetingState | null;
 
   // Scroll to top on mount
   useEffect(() => {
@@ -79,6 +208,23 @@ const Meeting: React.FC = () => {
   const [participants, setParticipants] = useState<Participant[]>([]);
   const [messages, setMessages] = useState<Message[]>([]);
   const [messageInput, setMessageInput] = useState("");
+  const [chatRecipients, setChatRecipients] = useState<ChatRecipients>(EVERYONE);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [isSavingMessage, setIsSavingMessage] = useState(false);
+  const [messageToDelete, setMessageToDelete] = useState<Message | null>(null);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [isLoadingOlderMessages, setIsLoadingOlderMessages] = useState(false);
+  const [replyTo, setReplyTo] = useState<{
+    message: Message;
+    mode: ReplyMode;
+  } | null>(null);
+  const [openThreadIds, setOpenThreadIds] = useState<string[]>([]);
+  const [isPreviewingMessage, setIsPreviewingMessage] = useState(false);
+  // People picked from the @ autocomplete for the current draft
+  const [draftMentions, setDraftMentions] = useState<MentionCandidate[]>([]);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(
+    null
+  );
   const [isHost, setIsHost] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
@@ -86,29 +232,122 @@ const Meeting: React.FC = () => {
   const [showLeaveModal, setShowLeaveModal] = useState(false);
   const [showFinalizeModal, setShowFinalizeModal] = useState(false);
   const [showChat, setShowChat] = useState(false);
+  // Mentions of the current user received while the chat was closed
+  const [unreadMentions, setUnreadMentions] = useState(0);
   const [showParticipants, setShowParticipants] = useState(false);
   const [copiedLink, setCopiedLink] = useState(false);
   // Media state management
   const [micStates, setMicStates] = useState<Record<string, boolean>>({});
   const [cameraStates, setCameraStates] = useState<Record<string, boolean>>({});
-  const [isMicOn, setIsMicOn] = useState(false);
-  const [isCameraOn, setIsCameraOn] = useState(false);
+  const [isMicOn, setIsMicOn] = useState(joinState?.micOn ?? false);
+  const [isCameraOn, setIsCameraOn] = useState(joinState?.cameraOn ?? false);
+  const joinMediaRef = useRef({
+    micOn: joinState?.micOn ?? false,
+    cameraOn: joinState?.cameraOn ?? false,
+  });
+  // Screen sharing: local flag plus the user currently presenting (if any)
+  const [isScreenSharing, setIsScreenSharing] = useState(false);
+  const [presenterId, setPresenterId] = useState<string | null>(null);
+  const isScreenSharingRef = useRef(false);
+  // Per-peer WebRTC connection status (used for the "reconnecting" overlay)
+  const [peerStatuses, setPeerStatuses] = useState<
+    Record<string, PeerConnectionStatus>
+  >({});
+  // Latest getStats() metrics per peer and the tile whose details are open
+  const [peerStats, setPeerStats] = useState<
+    Record<string, PeerConnectionStats>
+  >({});
+  const [connectionInfoUserId, setConnectionInfoUserId] = useState<
+    string | null
+  >(null);
+  // Camera/microphone/speaker selection, remembered per user
+  const [showDeviceSettings, setShowDeviceSettings] = useState(false);
+  const [availableDevices, setAvailableDevices] =
+    useState<AvailableMediaDevices>({
+      audioInputs: [],
+      videoInputs: [],
+      audioOutputs: [],
+    });
+  const [devicePreferences, setDevicePreferences] =
+    useState<MediaDevicePreferences>(() =>
+      user?.id ? loadDevicePreferences(String(user.id)) : {}
+    );
+  const [isSwitchingDevice, setIsSwitchingDevice] = useState(false);
+  // Active speaker highlight and optional speaker view layout
+  const [speakingIds, setSpeakingIds] = useState<string[]>([]);
+  const [dominantSpeakerId, setDominantSpeakerId] = useState<string | null>(
+    null
+  );
+  const [isSpeakerView, setIsSpeakerView] = useState(false);
+  const activeSpeakerRef = useRef<ActiveSpeakerDetector | null>(null);
+  // Local recording (hosts only) and the participant currently recording
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordingUserId, setRecordingUserId] = useState<string | null>(null);
+  const recorderRef = useRef<MeetingRecorder | null>(null);
+  const isRecordingRef = useRef(false);
+  // Raised hands, oldest first. The ref holds when the local user raised
+  // their hand so it can be re-announced to people joining later.
+  const [raisedHands, setRaisedHands] = useState<RaisedHand[]>([]);
+  const raisedHandAtRef = useRef<number | null>(null);
+  // Users allowed to act on other participants (creator + admins)
+  const moderatorIdsRef = useRef<string[]>([]);
+  // Emoji reactions currently floating over tiles
+  const [reactions, setReactions] = useState<ActiveReaction[]>([]);
+  const [showReactionPicker, setShowReactionPicker] = useState(false);
+  const reactionLimiterRef = useRef(new ReactionRateLimiter());
+  const reactionIdRef = useRef(0);
+  // Breakout rooms opened from this meeting (hosts) and the running
+  // countdown before everyone is called back to the parent room
+  const [breakoutRooms, setBreakoutRooms] = useState<Room[]>([]);
+  const [breakoutAssignments, setBreakoutAssignments] =
+    useState<BreakoutAssignments>({});
+  const [showBreakoutRooms, setShowBreakoutRooms] = useState(false);
+  const [isCreatingBreakouts, setIsCreatingBreakouts] = useState(false);
+  const [breakoutClosing, setBreakoutClosing] = useState<{
+    parentRoomId: string;
+    endsAt: number;
+  } | null>(null);
+  // People asking to get in through the waiting room (hosts only)
+  const [waitingUsers, setWaitingUsers] = useState<WaitingUser[]>([]);
+  const waitingUserIdsRef = useRef<Set<string>>(new Set());
+  // Host moderation: participant pending removal and unmute requests
+  const [removeTargetId, setRemoveTargetId] = useState<string | null>(null);
+  const [showUnmuteRequest, setShowUnmuteRequest] = useState(false);
+  const devicePreferencesRef = useRef(devicePreferences);
+  // Speaker currently applied to remote media elements
+  const audioOutputIdRef = useRef(devicePreferences.audioOutputId);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const chatInputRef = useRef<HTMLInputElement>(null);
+  const chatInputRef = useRef<HTMLTextAreaElement>(null);
+  const showChatRef = useRef(false);
+  const chatMessagesRef = useRef<HTMLDivElement>(null);
+  // Oldest message fetched from history; the next page is the one before it
+  const historyCursorRef = useRef<MessageCursor | null>(null);
+  // Set while a page of history is being fetched; state would lag behind
+  // scroll events and start a second fetch with the same offset
+  const isLoadingOlderMessagesRef = useRef(false);
+  // Distance from the bottom of the chat to restore after prepending a page
+  const scrollRestoreRef = useRef<number | null>(null);
 
   // WebRTC refs for media elements
   const localAudioRef = useRef<HTMLAudioElement>(null);
   const localVideoRef = useRef<HTMLVideoElement>(null);
+  const presentationVideoRef = useRef<HTMLVideoElement>(null);
   const remoteAudiosRef = useRef<Map<string, HTMLAudioElement>>(new Map());
   const remoteStreamsRef = useRef<Map<string, MediaStream>>(new Map());
   // Cache for fetched users to avoid refetching repeatedly
   const userCacheRef = useRef<Map<string, BasicUser>>(new Map());
+  // Latest participants for callbacks registered outside React's render cycle
+  const participantsRef = useRef<Participant[]>([]);
 
   // WebRTC state
   const [isWebRTCInitialized, setIsWebRTCInitialized] = useState(false);
   const webrtcJoinedRef = useRef(false);
 
+  // The creator and co-hosts (Room.adminsId) share the moderation powers
+  const isModerator =
+    isHost || !!room?.adminsId?.map(String).includes(String(user?.id));
+
   /**
    * Helper to refresh participants from backend
    */
@@ -202,6 +441,56 @@ const Meeting: React.FC = () => {
     });
   }, [meetingId, user?.id, isMicOn, isCameraOn]);
 
+  /**
+   * Float a reaction over a participant's tile for a few seconds
+   */
+  const showReaction = useCallback((userId: string, emoji: string) => {
+    const id = ++reactionIdRef.current;
+    setReactions((prev) => [...prev, { id, userId, emoji }]);
+    setTimeout(() => {
+      setReactions((prev) => prev.filter((reaction) => reaction.id !== id));
+    }, REACTION_DURATION_MS);
+  }, []);
+
+  /**
+   * Move to another room of the same meeting (a breakout room or back to
+   * the parent) without going through the dashboard. Leaves the current
+   * room on both servers; the page is remounted for the new room, which
+   * rejoins the chat room and reconnects WebRTC from scratch.
+   */
+  const moveToRoom = useCallback(
+    async (targetRoomId: string) => {
+      if (!meetingId || !user?.id || targetRoomId === meetingId) return;
+
+      console.log(`[MEETING] 🚪 Moving from room ${meetingId} to ${targetRoomId}`);
+      // Keep the current mic/camera choice in the next room
+      const localStream = webrtcManager.getLocalStream();
+      const state: JoinMeetingState = {
+        micOn: !!localStream?.getAudioTracks().some((track) => track.enabled),
+        cameraOn: !!localStream?.getVideoTracks().some((track) => track.enabled),
+      };
+
+      const socketInstance = getSocket();
+      if (socketInstance && socketInstance.connected) {
+        if (isRecordingRef.current) {
+          socketInstance.emit("recording_changed", { recording: false });
+        }
+        socketInstance.emit("leaveRoom", {
+          roomId: meetingId,
+          userId: user.id,
+        });
+      }
+      await leaveRoom(user.id, meetingId);
+
+      // Drop the WebRTC session so peers in this room see us leave
+      webrtcManager.cleanup();
+      disconnectFromWebRTC();
+
+      navigate(`/meet/${targetRoomId}`, { replace: true, state });
+    },
+    [meetingId, user?.id, navigate]
+  );
+
   /**
    * Scroll to bottom of messages
    */
@@ -245,11 +534,57 @@ const Meeting: React.FC = () => {
           return;
         }
 
+        const isRoomModerator =
+          String(roomResponse.data.creatorId) === String(user.id) ||
+          !!roomResponse.data.adminsId?.map(String).includes(String(user.id));
+
+        // Scheduled meetings open a few minutes before their start time;
+        // hosts may start them whenever they like. Recurring rooms are
+        // checked against their current occurrence.
+        const occurrence = getCurrentOccurrence(roomResponse.data);
+        const scheduledStart = getScheduledStart(occurrence);
+        if (scheduledStart && scheduledStart.getTime() > Date.now()) {
+          const startTime = scheduledStart.toLocaleTimeString("es-ES", {
+            hour: "2-digit",
+            minute: "2-digit",
+          });
+          if (!isRoomModerator && isTooEarlyToJoin(occurrence)) {
+            console.log("[MEETING] Meeting has not opened yet, sending user to lobby");
+            toast.info(
+              `La reunión empieza a las ${startTime}. Podrás entrar ${EARLY_JOIN_MINUTES} minutos antes.`
+            );
+            navigate(`/join/${meetingId}`, { replace: true });
+            return;
+          }
+          if (isRoomModerator) {
+            toast.info(`Has iniciado la reunión antes de la hora programada (${startTime})`);
+          }
+        }
+
         setRoom(roomResponse.data);
         setIsHost(roomResponse.data.creatorId === user.id);
+        setBreakoutRooms(getOpenBreakoutRooms(roomResponse.data));
 
         // Join room
-        const joinResponse = await joinRoom(meetingId, user.id);
+        const joinResponse = await joinRoom(
+          meetingId,
+          user.id,
+          joinState?.joinToken,
+          joinState?.admissionToken
+        );
+        // Rooms with a waiting room are entered through the lobby, where
+        // a host has to admit the user first
+        if (joinResponse.errorCode === "admission_required") {
+          console.log("[MEETING] Waiting room enabled, sending user to lobby");
+          navigate(`/join/${meetingId}`, { replace: true });
+          return;
+        }
+        if (joinResponse.errorCode === "password_required") {
+          console.log("[MEETING] Room needs a password, sending user to lobby");
+          toast.info(joinResponse.error || "Esta reunión requiere contraseña");
+          navigate(`/join/${meetingId}`, { replace: true });
+          return;
+        }
         if (joinResponse.error) {
           setError(joinResponse.error);
           setLoading(false);
@@ -258,10 +593,27 @@ const Meeting: React.FC = () => {
 
         await refreshParticipants();
 
-        // Load messages
-        const messagesResponse = await getRoomMessages(meetingId);
+        // Load the latest page of messages; older ones load on scroll
+        const messagesResponse = await getRoomMessages(
+          meetingId,
+          MESSAGES_PAGE_SIZE,
+          0
+        );
         if (!messagesResponse.error && messagesResponse.data) {
-          setMessages(messagesResponse.data);
+          const page = messagesResponse.data;
+          historyCursorRef.current = getHistoryCursor(page);
+          setHasOlderMessages(
+            page.length === MESSAGES_PAGE_SIZE && historyCursorRef.current !== null
+          );
+          // Private and group messages only belong to their sender and targets
+          setMessages((prev) =>
+            mergeMessages(
+              prev,
+              page.filter((message) =>
+                isMessageVisibleTo(message, String(user?.id))
+              )
+            )
+          );
         }
 
         notificationSounds.success();
@@ -325,6 +677,20 @@ const Meeting: React.FC = () => {
       chatSocket.off("userLeft");
       chatSocket.off("room_users");
       chatSocket.off("message_success");
+      chatSocket.off("user_screen_share_changed");
+      chatSocket.off("user_recording_changed");
+      chatSocket.off("user_hand_changed");
+      chatSocket.off("user_reaction");
+      chatSocket.off("user_breakout_rooms_opened");
+      chatSocket.off("user_breakout_broadcast");
+      chatSocket.off("user_breakout_rooms_closing");
+      chatSocket.off("user_admission_requested");
+      chatSocket.off("user_admission_cancelled");
+      chatSocket.off("user_admission_response");
+      chatSocket.off("user_moderation_action");
+      chatSocket.off("user_admins_changed");
+      chatSocket.off("user_message_edited");
+      chatSocket.off("user_message_deleted");
 
       // Join room in CHAT socket
       console.log(`[MEETING] Joining CHAT room: ${meetingId}`);
@@ -381,6 +747,9 @@ const Meeting: React.FC = () => {
             // Start local media with audio + video tracks negotiated,
             // but keep mic and camera muted/disabled by default.
             console.log("[MEETING] Starting local media...");
+            webrtcManager.setPreferredDevices(
+              loadDevicePreferences(String(user.id))
+            );
             const localStream = await webrtcManager.startLocalMedia(
               true,
               true
@@ -400,12 +769,23 @@ const Meeting: React.FC = () => {
             }
 
             setIsWebRTCInitialized(true);
-            // Start with mic and camera muted to align initial UI state
-            setIsMicOn(false);
-            webrtcManager.toggleAudio(false);
-            webrtcManager.toggleVideo(false);
+            webrtcManager.startStatsCollection();
+            // Device labels are only exposed once media access is granted
+            listMediaDevices().then(setAvailableDevices);
+            // Apply the mic/camera choice from the lobby (muted by default)
+            const { micOn, cameraOn } = joinMediaRef.current;
+            setIsMicOn(micOn);
+            setIsCameraOn(cameraOn);
+            webrtcManager.toggleAudio(micOn);
+            webrtcManager.toggleVideo(cameraOn);
+            if (micOn || cameraOn) {
+              getSocket()?.emit("media_state_changed", {
+                micEnabled: micOn,
+                cameraEnabled: cameraOn,
+              });
+            }
             console.log(
-              "[MEETING] ✅ WebRTC initialized successfully (mic/camera muted by default)"
+              `[MEETING] ✅ WebRTC initialized successfully (mic: ${micOn}, camera: ${cameraOn})`
             );
           } catch (error) {
             console.error("[MEETING] ❌ Error initializing WebRTC:", error);
@@ -482,8 +862,11 @@ const Meeting: React.FC = () => {
           return updated;
         });
 
-        // Establish WebRTC connections to all existing users
-        if (isWebRTCInitialized && users.length > 1) {
+        // Establish WebRTC connections to all existing users.
+        // Read readiness from the manager: component state is stale inside
+        // this listener. Offers that collide with the other side's are
+        // resolved by the manager's perfect negotiation.
+        if (webrtcManager.isReady() && users.length > 1) {
           console.log(
             `[MEETING] Establishing WebRTC connections to ${
               users.length - 1
@@ -567,12 +950,29 @@ const Meeting: React.FC = () => {
             return prev;
           });
 
+          // Let the newcomer know we are presenting / recording
+          if (isScreenSharingRef.current) {
+            chatSocket?.emit("screen_share_changed", { sharing: true });
+          }
+          if (isRecordingRef.current) {
+            chatSocket?.emit("recording_changed", { recording: true });
+          }
+          if (raisedHandAtRef.current !== null) {
+            chatSocket?.emit("hand_state_changed", {
+              raised: true,
+              raisedAt: raisedHandAtRef.current,
+            });
+          }
+
           // If WebRTC is initialized, send offer to new user
-          if (isWebRTCInitialized) {
+          if (webrtcManager.isReady()) {
             console.log(
               `[MEETING] Sending WebRTC offer to new user ${userData.id}`
             );
-            await webrtcManager.sendOffer(userData.id, handleRemoteStream);
+            await webrtcManager.sendOffer(
+              String(userData.id),
+              handleRemoteStream
+            );
           }
         }
       };
@@ -629,6 +1029,25 @@ const Meeting: React.FC = () => {
             delete updated[String(userData.id)];
             return updated;
           });
+          setPresenterId((prev) =>
+            prev === String(userData.id) ? null : prev
+          );
+          setPeerStatuses((prev) => {
+            const updated = { ...prev };
+            delete updated[String(userData.id)];
+            return updated;
+          });
+          setConnectionInfoUserId((prev) =>
+            prev === String(userData.id) ? null : prev
+          );
+          activeSpeakerRef.current?.untrack(String(userData.id));
+          setRecordingUserId((prev) =>
+            prev === String(userData.id) ? null : prev
+          );
+          setRaisedHands((prev) =>
+            updateRaisedHands(prev, String(userData.id), false, 0)
+          );
+          reactionLimiterRef.current.reset(String(userData.id));
           // Stop any remote audio/video for this user
           const audioEl = remoteAudiosRef.current.get(String(userData.id));
           if (audioEl) {
@@ -692,6 +1111,354 @@ const Meeting: React.FC = () => {
 
       chatSocket.on("user_media_changed", handleMediaStateChange);
 
+      // Listen for screen share start/stop from other users
+      const handleScreenShareChange = ({
+        userId,
+        sharing,
+      }: {
+        userId: string;
+        sharing: boolean;
+      }) => {
+        if (isCleanedUp) return;
+        console.log(
+          `[MEETING] 🖥️ Screen share changed for user ${userId}: ${sharing}`
+        );
+
+        const id = String(userId);
+        if (id === String(user.id)) return;
+        setPresenterId((prev) => {
+          if (sharing) return id;
+          return prev === id ? null : prev;
+        });
+      };
+
+      chatSocket.on("user_screen_share_changed", handleScreenShareChange);
+
+      // Listen for recording start/stop from hosts
+      const handleRecordingChange = ({
+        userId,
+        recording,
+      }: {
+        userId: string;
+        recording: boolean;
+      }) => {
+        if (isCleanedUp) return;
+        console.log(
+          `[MEETING] 🔴 Recording changed for user ${userId}: ${recording}`
+        );
+
+        const id = String(userId);
+        if (id === String(user.id)) return;
+        setRecordingUserId((prev) => {
+          if (recording) return id;
+          return prev === id ? null : prev;
+        });
+        if (recording) {
+          toast.info("Esta reunión se está grabando");
+        }
+      };
+
+      chatSocket.on("user_recording_changed", handleRecordingChange);
+
+      // Listen for raised/lowered hands. Hosts may lower someone else's
+      // hand (targetUserId), optionally giving them the floor (calledOn).
+      const handleHandStateChange = ({
+        userId,
+        raised,
+        raisedAt,
+        targetUserId,
+        calledOn,
+      }: {
+        userId: string;
+        raised: boolean;
+        raisedAt?: number;
+        targetUserId?: string;
+        calledOn?: boolean;
+      }) => {
+        if (isCleanedUp) return;
+
+        const senderId = String(userId);
+        const id = targetUserId ? String(targetUserId) : senderId;
+        if (id !== senderId && !moderatorIdsRef.current.includes(senderId)) {
+          console.warn(
+            `[MEETING] ⚠️ Ignoring hand change for ${id} from non-host ${senderId}`
+          );
+          return;
+        }
+        // Our own changes are applied before emitting
+        if (senderId === String(user.id)) return;
+
+        console.log(`[MEETING] ✋ Hand ${raised ? "raised" : "lowered"}: ${id}`);
+        setRaisedHands((prev) =>
+          updateRaisedHands(prev, id, raised, raisedAt ?? Date.now())
+        );
+
+        if (id === String(user.id) && !raised) {
+          raisedHandAtRef.current = null;
+          if (calledOn) {
+            toast.info("El anfitrión te ha dado la palabra");
+            notificationSounds.success();
+          } else {
+            toast.info("El anfitrión bajó tu mano");
+          }
+        }
+
+        if (raised && moderatorIdsRef.current.includes(String(user.id))) {
+          notificationSounds.handRaised();
+        }
+      };
+
+      chatSocket.on("user_hand_changed", handleHandStateChange);
+
+      // Listen for emoji reactions (unknown emojis and floods are dropped)
+      const handleReaction = ({
+        userId,
+        emoji,
+      }: {
+        userId: string;
+        emoji: string;
+      }) => {
+        if (isCleanedUp) return;
+
+        const id = String(userId);
+        if (id === String(user.id) || !getReactionOption(emoji)) return;
+        if (!reactionLimiterRef.current.allow(id)) {
+          console.warn(`[MEETING] ⚠️ Dropping reaction from ${id}: rate limited`);
+          return;
+        }
+
+        showReaction(id, emoji);
+      };
+
+      chatSocket.on("user_reaction", handleReaction);
+
+      // Breakout rooms: only the host (or an admin) may move people around
+      const handleBreakoutRoomsOpened = ({
+        userId,
+        assignments,
+      }: {
+        userId: string;
+        assignments: BreakoutAssignments;
+      }) => {
+        if (isCleanedUp) return;
+        if (!moderatorIdsRef.current.includes(String(userId))) return;
+
+        const targetRoomId = assignments?.[String(user.id)];
+        if (!targetRoomId) return;
+
+        console.log(`[MEETING] 🚪 Assigned to breakout room ${targetRoomId}`);
+        toast.info("El anfitrión te movió a una sala para grupos pequeños");
+        moveToRoom(targetRoomId);
+      };
+
+      chatSocket.on("user_breakout_rooms_opened", handleBreakoutRoomsOpened);
+
+      const handleBreakoutBroadcast = ({
+        userId,
+        message,
+      }: {
+        userId: string;
+        message: string;
+      }) => {
+        if (isCleanedUp) return;
+        if (!moderatorIdsRef.current.includes(String(userId))) return;
+
+        toast.info(`Mensaje del anfitrión: ${message}`);
+        notificationSounds.newMessage();
+      };
+
+      chatSocket.on("user_breakout_broadcast", handleBreakoutBroadcast);
+
+      const handleBreakoutRoomsClosing = ({
+        userId,
+        parentRoomId,
+        seconds,
+      }: {
+        userId: string;
+        parentRoomId: string;
+        seconds: number;
+      }) => {
+        if (isCleanedUp) return;
+        if (!moderatorIdsRef.current.includes(String(userId))) return;
+
+        console.log(
+          `[MEETING] ⏳ Breakout rooms closing in ${seconds}s, returning to ${parentRoomId}`
+        );
+        setBreakoutClosing({
+          parentRoomId,
+          endsAt: Date.now() + seconds * 1000,
+        });
+        toast.warning("El anfitrión cerrará las salas para grupos pequeños");
+        notificationSounds.warning();
+      };
+
+      chatSocket.on("user_breakout_rooms_closing", handleBreakoutRoomsClosing);
+
+      // Waiting room: requests are only handled by hosts. Waiting users
+      // repeat their request, so known ones are not announced again.
+      const handleAdmissionRequested = ({
+        userId,
+        name,
+      }: {
+        userId: string;
+        name?: string;
+      }) => {
+        if (isCleanedUp) return;
+        if (!moderatorIdsRef.current.includes(String(user.id))) return;
+
+        const id = String(userId);
+        if (waitingUserIdsRef.current.has(id)) return;
+        waitingUserIdsRef.current.add(id);
+
+        const displayName = name || "Alguien";
+        console.log(`[MEETING] 🚪 ${id} is waiting to be admitted`);
+        setWaitingUsers((prev) => [
+          ...prev,
+          { userId: id, name: displayName, requestedAt: Date.now() },
+        ]);
+        toast.info(`${displayName} quiere unirse a la reunión`);
+        notificationSounds.knock();
+      };
+
+      chatSocket.on("user_admission_requested", handleAdmissionRequested);
+
+      const removeWaitingUser = (id: string) => {
+        waitingUserIdsRef.current.delete(id);
+        setWaitingUsers((prev) => prev.filter((waiting) => waiting.userId !== id));
+      };
+
+      // Withdrawn by the waiting user
+      const handleAdmissionCancelled = ({ userId }: { userId: string }) => {
+        if (isCleanedUp) return;
+        removeWaitingUser(String(userId));
+      };
+
+      // Answered by another host; answers from anyone else are ignored
+      const handleAdmissionResponse = ({
+        userId,
+        targetUserId,
+      }: {
+        userId: string;
+        targetUserId: string;
+      }) => {
+        if (isCleanedUp) return;
+        if (!moderatorIdsRef.current.includes(String(userId))) return;
+        removeWaitingUser(String(targetUserId));
+      };
+
+      chatSocket.on("user_admission_cancelled", handleAdmissionCancelled);
+      chatSocket.on("user_admission_response", handleAdmissionResponse);
+
+      // Moderation from a host. Without targetUserId the action applies to
+      // everyone but the sender ("mute all").
+      const handleModerationAction = ({
+        userId,
+        action,
+        targetUserId,
+      }: {
+        userId: string;
+        action: ModerationAction;
+        targetUserId?: string;
+      }) => {
+        if (isCleanedUp) return;
+
+        const senderId = String(userId);
+        const selfId = String(user.id);
+        if (senderId === selfId) return;
+        if (targetUserId && String(targetUserId) !== selfId) return;
+        if (!moderatorIdsRef.current.includes(senderId)) {
+          console.warn(
+            `[MEETING] ⚠️ Ignoring moderation "${action}" from non-host ${senderId}`
+          );
+          return;
+        }
+
+        console.log(`[MEETING] 🛡️ Moderation action from host: ${action}`);
+        const localStream = webrtcManager.getLocalStream();
+        const micEnabled = !!localStream
+          ?.getAudioTracks()
+          .some((track) => track.enabled);
+        const cameraEnabled = !!localStream
+          ?.getVideoTracks()
+          .some((track) => track.enabled);
+
+        switch (action) {
+          case "mute":
+            if (!micEnabled) return;
+            webrtcManager.toggleAudio(false);
+            setIsMicOn(false);
+            setMicStates((prev) => ({ ...prev, [selfId]: false }));
+            chatSocket?.emit("media_state_changed", {
+              micEnabled: false,
+              cameraEnabled,
+            });
+            toast.warning("El anfitrión silenció tu micrófono");
+            break;
+          case "camera_off":
+            if (!cameraEnabled) return;
+            webrtcManager.toggleVideo(false);
+            setIsCameraOn(false);
+            setCameraStates((prev) => ({ ...prev, [selfId]: false }));
+            chatSocket?.emit("media_state_changed", {
+              micEnabled,
+              cameraEnabled: false,
+            });
+            toast.warning("El anfitrión apagó tu cámara");
+            break;
+          case "ask_unmute":
+            // Never unmute remotely, only ask
+            if (micEnabled) return;
+            setShowUnmuteRequest(true);
+            notificationSounds.newMessage();
+            break;
+          case "remove":
+            toast.error("El anfitrión te quitó de la reunión");
+            notificationSounds.error();
+            leaveRoom(selfId, meetingId);
+            chatSocket?.emit("leaveRoom", { roomId: meetingId, userId: selfId });
+            disconnectFromChat();
+            webrtcManager.cleanup();
+            navigate("/dashboard");
+            break;
+        }
+      };
+
+      chatSocket.on("user_moderation_action", handleModerationAction);
+
+      // Co-hosts promoted or demoted by the creator (always first in
+      // moderatorIdsRef). Host privileges follow from room.adminsId.
+      const handleAdminsChanged = ({
+        userId,
+        adminsId,
+      }: {
+        userId: string;
+        adminsId: string[];
+      }) => {
+        if (isCleanedUp) return;
+        if (String(userId) !== moderatorIdsRef.current[0]) {
+          console.warn(`[MEETING] ⚠️ Ignoring co-host change from ${userId}`);
+          return;
+        }
+
+        const selfId = String(user.id);
+        const updated = (adminsId ?? []).map(String);
+        const wasCoHost = moderatorIdsRef.current.slice(1).includes(selfId);
+        const isCoHost = updated.includes(selfId);
+        console.log("[MEETING] 👥 Co-hosts updated:", updated);
+        setRoom((prev) => (prev ? { ...prev, adminsId: updated } : prev));
+
+        if (isCoHost && !wasCoHost) {
+          toast.success("Ahora eres coanfitrión de la reunión");
+          notificationSounds.success();
+        } else if (!isCoHost && wasCoHost) {
+          toast.info("Ya no eres coanfitrión de la reunión");
+          setWaitingUsers([]);
+          waitingUserIdsRef.current.clear();
+        }
+      };
+
+      chatSocket.on("user_admins_changed", handleAdminsChanged);
+
       // Listen for messages from CHAT server
       const handleNewMessage = (messageData: unknown) => {
         if (isCleanedUp) return;
@@ -704,12 +1471,16 @@ const Meeting: React.FC = () => {
           roomId: meetingId,
           content: (payload.content as string) || (payload.msg as string) || "",
           visibility: (payload.visibility as Message["visibility"]) || "public",
+          target: (payload.target as Message["target"]) ?? null,
+          parentId: (payload.parentId as string) || null,
+          replyMode: (payload.replyMode as Message["replyMode"]) || null,
           createdAt: (payload.createdAt as string) || new Date().toISOString(),
           user:
             typeof payload.user === "object" && payload.user !== null
               ? (payload.user as Message["user"])
               : undefined,
         };
+        if (!isMessageVisibleTo(normalized, String(user?.id))) return;
         // If message is from current user and user field missing, populate it
         if (
           normalized.userId === String(user?.id) &&
@@ -751,13 +1522,77 @@ const Meeting: React.FC = () => {
           return [...prev, normalized];
         });
         scrollToBottom();
-        notificationSounds.newMessage();
+
+        const isMentioned =
+          normalized.userId !== String(user?.id) &&
+          getMentionedUserIds(normalized.content).includes(String(user?.id));
+        if (!isMentioned) {
+          notificationSounds.newMessage();
+          return;
+        }
+        notificationSounds.mention();
+        const author =
+          normalized.user?.nickname ||
+          normalized.user?.displayName ||
+          normalized.user?.email?.split("@")[0] ||
+          "Alguien";
+        toast.info(`${author} te mencionó: ${getQuoteExcerpt(normalized.content)}`);
+        if (!showChatRef.current) setUnreadMentions((count) => count + 1);
       };
 
       // Standalone chat microservice events
       chatSocket.on("new_success", handleNewMessage);
       chatSocket.on("message_success", handleNewMessage);
 
+      // Edits only count from the author of the message
+      const handleMessageEdited = ({
+        userId,
+        messageId,
+        content,
+        updatedAt,
+      }: {
+        userId: string;
+        messageId: string;
+        content: string;
+        updatedAt?: string;
+      }) => {
+        if (isCleanedUp) return;
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.id === messageId && String(m.userId) === String(userId)
+              ? { ...m, content, updatedAt: updatedAt || new Date().toISOString() }
+              : m
+          )
+        );
+      };
+
+      chatSocket.on("user_message_edited", handleMessageEdited);
+
+      // Deletions count from the author or from a host
+      const handleMessageDeleted = ({
+        userId,
+        messageId,
+      }: {
+        userId: string;
+        messageId: string;
+      }) => {
+        if (isCleanedUp) return;
+        const isHostAction = moderatorIdsRef.current.includes(String(userId));
+        setMessages((prev) =>
+          prev.filter(
+            (m) =>
+              m.id !== messageId ||
+              (String(m.userId) !== String(userId) && !isHostAction)
+          )
+        );
+        setEditingMessageId((current) => (current === messageId ? null : current));
+        setReplyTo((current) =>
+          current?.message.id === messageId ? null : current
+        );
+      };
+
+      chatSocket.on("user_message_deleted", handleMessageDeleted);
+
       // Handle disconnection
       const handleDisconnect = (reason: string) => {
         if (isCleanedUp) return;
@@ -810,6 +1645,20 @@ const Meeting: React.FC = () => {
         chatSocket.off("userLeft");
         chatSocket.off("room_users");
         chatSocket.off("user_media_changed");
+        chatSocket.off("user_screen_share_changed");
+        chatSocket.off("user_recording_changed");
+        chatSocket.off("user_hand_changed");
+        chatSocket.off("user_reaction");
+        chatSocket.off("user_breakout_rooms_opened");
+        chatSocket.off("user_breakout_broadcast");
+        chatSocket.off("user_breakout_rooms_closing");
+        chatSocket.off("user_admission_requested");
+        chatSocket.off("user_admission_cancelled");
+        chatSocket.off("user_admission_response");
+        chatSocket.off("user_moderation_action");
+        chatSocket.off("user_admins_changed");
+        chatSocket.off("user_message_edited");
+        chatSocket.off("user_message_deleted");
         chatSocket.off("room_ended");
       }
 
@@ -824,8 +1673,11 @@ const Meeting: React.FC = () => {
         webrtcSocket.off("room_ended");
       }
 
-      // Cleanup WebRTC
-      if (isWebRTCInitialized) {
+      // Release the screen capture even if WebRTC state is stale here
+      webrtcManager.stopScreenShare();
+
+      // Cleanup WebRTC (state is stale in this closure, ask the manager)
+      if (webrtcManager.isReady()) {
         webrtcManager.cleanup();
       }
     };
@@ -867,12 +1719,15 @@ const Meeting: React.FC = () => {
 
       // Store stream for potential video rendering
       remoteStreamsRef.current.set(userId, stream);
+      activeSpeakerRef.current?.track(userId, stream);
+      recorderRef.current?.addAudioStream(stream);
 
       // Create or update audio element for this user
       let audioEl = remoteAudiosRef.current.get(userId);
       if (!audioEl) {
         audioEl = new Audio();
         audioEl.autoplay = true;
+        applyAudioOutput(audioEl, audioOutputIdRef.current);
         remoteAudiosRef.current.set(userId, audioEl);
         console.log(`[MEETING] ✅ Audio element created for user ${userId}`);
       }
@@ -894,6 +1749,7 @@ const Meeting: React.FC = () => {
       if (videoEl) {
         if (videoEl.srcObject !== stream) {
           videoEl.srcObject = stream;
+          applyAudioOutput(videoEl, audioOutputIdRef.current);
           videoEl.play().catch((err) => {
             console.warn(`[MEETING] ⚠️ Could not play video for ${userId}:`, err);
           });
@@ -938,26 +1794,165 @@ const Meeting: React.FC = () => {
     []
   );
 
+  /**
+   * Handle connection status changes of a remote peer
+   *
+   * @param userId - The ID of the remote user
+   * @param status - The new connection status
+   */
+  const handlePeerConnectionStatus = useCallback(
+    (userId: string, status: PeerConnectionStatus) => {
+      console.log(`[MEETING] 🔌 Peer ${userId} connection status: ${status}`);
+      setPeerStatuses((prev) =>
+        prev[userId] === status ? prev : { ...prev, [userId]: status }
+      );
+
+      if (status === "failed") {
+        const pUser = participantsRef.current.find(
+          (p) => String(p.userId) === userId
+        )?.user;
+        const userName =
+          pUser?.nickname ||
+          pUser?.displayName ||
+          pUser?.email?.split("@")[0] ||
+          "un participante";
+        toast.warning(`Se perdió la conexión con ${userName}`);
+        remoteStreamsRef.current.delete(userId);
+        activeSpeakerRef.current?.untrack(userId);
+      }
+    },
+    [toast]
+  );
+
   // Register remote stream handler with WebRTC manager so that
   // incoming offers/answers also use it by default.
   useEffect(() => {
     webrtcManager.setOnRemoteStreamCallback(handleRemoteStream);
   }, [handleRemoteStream]);
 
-  /**
-   * Auto-scroll when new messages arrive
-   */
   useEffect(() => {
-    if (messages.length > 0) {
-      scrollToBottom();
-    }
-  }, [messages, scrollToBottom]);
+    webrtcManager.setOnConnectionStatusCallback(handlePeerConnectionStatus);
+  }, [handlePeerConnectionStatus]);
 
-  /**
-   * Attach remote streams to video and audio elements when they are rendered
-   */
   useEffect(() => {
-    // For each remote stream, try to attach to video and audio elements
+    webrtcManager.setOnStatsCallback(setPeerStats);
+  }, []);
+
+  useEffect(() => {
+    participantsRef.current = participants;
+  }, [participants]);
+
+  useEffect(() => {
+    showChatRef.current = showChat;
+  }, [showChat]);
+
+  useEffect(() => {
+    devicePreferencesRef.current = devicePreferences;
+  }, [devicePreferences]);
+
+  useEffect(() => {
+    moderatorIdsRef.current = room
+      ? [String(room.creatorId), ...(room.adminsId ?? []).map(String)]
+      : [];
+  }, [room]);
+
+  useEffect(() => {
+    const detector = new ActiveSpeakerDetector((state) => {
+      setSpeakingIds(state.speakingIds);
+      setDominantSpeakerId(state.dominantSpeakerId);
+    });
+    activeSpeakerRef.current = detector;
+
+    return () => {
+      detector.dispose();
+      activeSpeakerRef.current = null;
+    };
+  }, []);
+
+  /**
+   * Keep the local microphone monitored for the speaking highlight.
+   * The local user is never picked as dominant speaker.
+   */
+  useEffect(() => {
+    if (!isWebRTCInitialized || !user?.id) return;
+    activeSpeakerRef.current?.track(
+      String(user.id),
+      webrtcManager.getLocalStream(),
+      false
+    );
+  }, [isWebRTCInitialized, isMicOn, isCameraOn, user?.id]);
+
+  /**
+   * Auto-scroll when new messages arrive, or keep the reading position
+   * when an older page was added above
+   */
+  useLayoutEffect(() => {
+    const container = chatMessagesRef.current;
+    if (scrollRestoreRef.current !== null && container) {
+      container.scrollTop = container.scrollHeight - scrollRestoreRef.current;
+      scrollRestoreRef.current = null;
+      return;
+    }
+    if (messages.length > 0) {
+      scrollToBottom();
+    }
+  }, [messages, scrollToBottom]);
+
+  /**
+   * Fetch the page of history before the oldest loaded message
+   */
+  const loadOlderMessages = async () => {
+    const cursor = historyCursorRef.current;
+    if (!meetingId || !hasOlderMessages || !cursor || isLoadingOlderMessagesRef.current) {
+      return;
+    }
+
+    isLoadingOlderMessagesRef.current = true;
+    setIsLoadingOlderMessages(true);
+    // Paging before the oldest fetched message, so messages sent or
+    // deleted in the meantime cannot shift the page
+    const response = await getRoomMessages(meetingId, MESSAGES_PAGE_SIZE, 0, cursor);
+    isLoadingOlderMessagesRef.current = false;
+    setIsLoadingOlderMessages(false);
+
+    if (response.error || !response.data) {
+      toast.error(response.error || "Error al cargar mensajes anteriores");
+      return;
+    }
+
+    const page = response.data;
+    historyCursorRef.current = getHistoryCursor(page) ?? cursor;
+    setHasOlderMessages(
+      page.length === MESSAGES_PAGE_SIZE && historyCursorRef.current !== cursor
+    );
+
+    const older = page.filter((message) =>
+      isMessageVisibleTo(message, String(user?.id))
+    );
+    setMessages((prev) => {
+      const merged = mergeMessages(prev, older);
+      // Keep the view in place when messages are added above it
+      const container = chatMessagesRef.current;
+      if (container && merged !== prev) {
+        scrollRestoreRef.current = container.scrollHeight - container.scrollTop;
+      }
+      return merged;
+    });
+    console.log(`[MEETING] 📜 Loaded ${page.length} older messages`);
+  };
+
+  /**
+   * Load older messages when the chat is scrolled near the top
+   */
+  const handleChatScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    if (e.currentTarget.scrollTop < 80) loadOlderMessages();
+  };
+
+  /**
+   * Attach remote streams to video and audio elements when they are rendered
+   */
+  useEffect(() => {
+    // For each remote stream, try to attach to video and audio elements
     remoteStreamsRef.current.forEach((stream, userId) => {
       // Attach to video element
       const videoEl = document.getElementById(
@@ -966,6 +1961,7 @@ const Meeting: React.FC = () => {
       if (videoEl) {
         if (videoEl.srcObject !== stream) {
           videoEl.srcObject = stream;
+          applyAudioOutput(videoEl, audioOutputIdRef.current);
           videoEl.play().catch((err) => {
             console.warn(`[MEETING] ⚠️ Could not play video for ${userId}:`, err);
           });
@@ -980,6 +1976,7 @@ const Meeting: React.FC = () => {
       if (!audioEl && stream.getAudioTracks().length > 0) {
         audioEl = new Audio();
         audioEl.autoplay = true;
+        applyAudioOutput(audioEl, audioOutputIdRef.current);
         audioEl.srcObject = stream;
         remoteAudiosRef.current.set(userId, audioEl);
         audioEl.play().catch((err) => {
@@ -996,6 +1993,41 @@ const Meeting: React.FC = () => {
     });
   }, [cameraStates, participants, micStates]); // Re-run when camera/mic states or participants change
 
+  /**
+   * Attach the local stream to the self-view once its tile is rendered
+   * (e.g. when joining with the camera on from the lobby)
+   */
+  useEffect(() => {
+    const localStream = webrtcManager.getLocalStream();
+    const videoEl = localVideoRef.current;
+    if (!isCameraOn || !localStream || !videoEl) return;
+
+    if (videoEl.srcObject !== localStream) {
+      videoEl.srcObject = localStream;
+    }
+  }, [isCameraOn, isWebRTCInitialized, cameraStates]);
+
+  /**
+   * Attach the presenter's stream to the presentation stage
+   */
+  useEffect(() => {
+    const videoEl = presentationVideoRef.current;
+    if (!videoEl || !presenterId) return;
+
+    const stream =
+      presenterId === String(user?.id)
+        ? webrtcManager.getScreenStream()
+        : remoteStreamsRef.current.get(presenterId) || null;
+
+    if (stream && videoEl.srcObject !== stream) {
+      videoEl.srcObject = stream;
+      videoEl.play().catch((err) => {
+        console.warn("[MEETING] ⚠️ Could not play presentation video:", err);
+      });
+      console.log(`[MEETING] 🖥️ Presentation attached for ${presenterId}`);
+    }
+  }, [presenterId, isScreenSharing, participants, cameraStates, user?.id]);
+
   /**
    * Handle sending a message
    */
@@ -1011,20 +2043,49 @@ const Meeting: React.FC = () => {
         return;
       }
 
+      // Drop recipients who left; refuse rather than widen the audience
+      let recipients = chatRecipients;
+      if (recipients.visibility !== "public") {
+        const presentIds = new Set(participants.map((p) => String(p.userId)));
+        const targetIds = recipients.targetIds.filter((id) => presentIds.has(id));
+        if (targetIds.length === 0) {
+          toast.warning(
+            recipients.visibility === "private"
+              ? "Ese participante ya no está en la reunión"
+              : "Elige al menos un miembro del grupo"
+          );
+          return;
+        }
+        recipients = { ...recipients, targetIds };
+      }
+
       console.log("[MEETING] 📤 Sending message:", {
         msg: content,
         userId: user.id,
         roomId: meetingId,
+        visibility: recipients.visibility,
       });
 
       // Send message via Socket.IO (standalone chat microservice echoes back to sender)
       socketInstance.emit("message", {
-        msg: content,
-        visibility: "public",
-        target: null,
+        msg: encodeMentions(content, draftMentions),
+        ...toMessageTarget(recipients),
+        parentId: replyTo?.message.id ?? null,
+        replyMode: replyTo?.mode ?? null,
       });
 
+      // Keep the thread open so the new reply is visible
+      if (replyTo?.mode === "thread") {
+        const parentId = replyTo.message.id;
+        setOpenThreadIds((prev) =>
+          prev.includes(parentId) ? prev : [...prev, parentId]
+        );
+      }
+
       // Clear input
+      setReplyTo(null);
+      setIsPreviewingMessage(false);
+      setDraftMentions([]);
       setMessageInput("");
       chatInputRef.current?.focus();
 
@@ -1035,6 +2096,54 @@ const Meeting: React.FC = () => {
     }
   };
 
+  /**
+   * Save an edit to one of the user's own messages and share it
+   */
+  const handleSaveMessageEdit = async (message: Message, content: string) => {
+    setIsSavingMessage(true);
+    const response = await updateMessage(message.id, content);
+    setIsSavingMessage(false);
+    if (response.error) {
+      toast.error(response.error);
+      return;
+    }
+
+    const updatedAt = response.data?.updatedAt || new Date().toISOString();
+    setMessages((prev) =>
+      prev.map((m) => (m.id === message.id ? { ...m, content, updatedAt } : m))
+    );
+    setEditingMessageId(null);
+    getSocket()?.emit("message_edited", {
+      messageId: message.id,
+      content,
+      updatedAt,
+    });
+    console.log(`[MEETING] ✏️ Edited message ${message.id}`);
+  };
+
+  /**
+   * Delete the message awaiting confirmation (own, or anyone's for hosts)
+   */
+  const handleConfirmDeleteMessage = async () => {
+    const message = messageToDelete;
+    setMessageToDelete(null);
+    if (!message) return;
+
+    const response = await deleteMessage(message.id);
+    if (response.error) {
+      toast.error(response.error);
+      return;
+    }
+
+    setMessages((prev) => prev.filter((m) => m.id !== message.id));
+    setReplyTo((current) => (current?.message.id === message.id ? null : current));
+    getSocket()?.emit("message_deleted", { messageId: message.id });
+    console.log(`[MEETING] 🗑️ Deleted message ${message.id}`);
+    if (message.userId !== String(user?.id)) {
+      toast.success(`Se eliminó un mensaje de ${getParticipantName(message.userId)}`);
+    }
+  };
+
   /**
    * Handle leaving the meeting
    */
@@ -1065,7 +2174,7 @@ const Meeting: React.FC = () => {
    * Handle ending the meeting (host only)
    */
   const handleEndMeeting = async () => {
-    if (!isHost || !meetingId) return;
+    if (!isModerator || !meetingId) return;
 
     try {
       await deleteRoom(meetingId);
@@ -1206,52 +2315,856 @@ const Meeting: React.FC = () => {
       return updated;
     });
 
-    // Broadcast media state change to other participants
-    const socketInstance = getSocket();
-    if (socketInstance && socketInstance.connected) {
-      socketInstance.emit("media_state_changed", {
-        micEnabled: isMicOn,
-        cameraEnabled: newState,
-      });
-      console.log("[MEETING] 📡 Broadcasted camera state change:", newState);
+    // Broadcast media state change to other participants
+    const socketInstance = getSocket();
+    if (socketInstance && socketInstance.connected) {
+      socketInstance.emit("media_state_changed", {
+        micEnabled: isMicOn,
+        cameraEnabled: newState,
+      });
+      console.log("[MEETING] 📡 Broadcasted camera state change:", newState);
+    }
+
+    // Update WebRTC video track
+    if (isWebRTCInitialized) {
+      if (newState) {
+        // When turning camera on, need to acquire video stream
+        console.log("[MEETING] Requesting video stream...");
+        webrtcManager
+          .startLocalMedia(isMicOn, true)
+          .then((stream) => {
+            if (stream) {
+              // Propagate new stream to all existing peer connections
+              webrtcManager.updateLocalStream(stream);
+
+              if (localAudioRef.current) {
+                localAudioRef.current.srcObject = stream;
+              }
+              if (localVideoRef.current) {
+                localVideoRef.current.srcObject = stream;
+                console.log(
+                  "[MEETING] ✅ Video stream attached to local video element"
+                );
+              }
+              console.log("[MEETING] ✅ Camera enabled, stream attached");
+            }
+          })
+          .catch((error) => {
+            console.error("[MEETING] ❌ Error starting camera:", error);
+            toast.error("Error al activar la cámara");
+            setIsCameraOn(false);
+            setCameraStates((prev) => ({ ...prev, [userId]: false }));
+          });
+      } else {
+        // When turning camera off, just disable the track
+        console.log("[MEETING] Disabling video track...");
+        webrtcManager.toggleVideo(false);
+      }
+    }
+  };
+
+  /**
+   * Reset local screen share state and notify other participants
+   */
+  const handleScreenShareStopped = useCallback(() => {
+    isScreenSharingRef.current = false;
+    setIsScreenSharing(false);
+    setPresenterId((prev) => (prev === String(user?.id) ? null : prev));
+
+    const socketInstance = getSocket();
+    if (socketInstance && socketInstance.connected) {
+      socketInstance.emit("screen_share_changed", { sharing: false });
+      console.log("[MEETING] 📡 Broadcasted screen share stop");
+    }
+  }, [user?.id]);
+
+  /**
+   * Toggle screen sharing
+   */
+  const toggleScreenShare = async () => {
+    if (!user?.id || !meetingId) return;
+
+    if (!isWebRTCInitialized) {
+      toast.warning("El audio/video aún no está listo");
+      return;
+    }
+
+    if (isScreenSharing) {
+      await webrtcManager.stopScreenShare();
+      handleScreenShareStopped();
+      return;
+    }
+
+    try {
+      const screenStream = await webrtcManager.startScreenShare(
+        handleScreenShareStopped
+      );
+      if (!screenStream) {
+        toast.error("Tu navegador no permite compartir pantalla");
+        return;
+      }
+
+      isScreenSharingRef.current = true;
+      setIsScreenSharing(true);
+      setPresenterId(String(user.id));
+
+      const socketInstance = getSocket();
+      if (socketInstance && socketInstance.connected) {
+        socketInstance.emit("screen_share_changed", { sharing: true });
+        console.log("[MEETING] 📡 Broadcasted screen share start");
+      }
+
+      toast.info("Estás presentando tu pantalla");
+    } catch (error) {
+      // The user closed the browser picker without choosing a source
+      if (error instanceof DOMException && error.name === "NotAllowedError") {
+        console.log("[MEETING] Screen share cancelled by user");
+        return;
+      }
+      console.error("[MEETING] ❌ Error starting screen share:", error);
+      toast.error("Error al compartir pantalla");
+    }
+  };
+
+  /**
+   * Route remote audio to the chosen speaker
+   *
+   * @param deviceId - Output device ID, or undefined for the default one
+   */
+  const applyAudioOutputToRemoteMedia = useCallback(
+    (deviceId: string | undefined) => {
+      audioOutputIdRef.current = deviceId;
+      remoteAudiosRef.current.forEach((audioEl) => {
+        applyAudioOutput(audioEl, deviceId);
+      });
+      remoteStreamsRef.current.forEach((_stream, userId) => {
+        const videoEl = document.getElementById(
+          `video-${userId}`
+        ) as HTMLVideoElement | null;
+        if (videoEl) {
+          applyAudioOutput(videoEl, deviceId);
+        }
+      });
+    },
+    []
+  );
+
+  /**
+   * Switch the camera or microphone and refresh the local preview
+   *
+   * @returns True if the outgoing track was replaced
+   */
+  const switchInputDevice = useCallback(
+    async (kind: "audio" | "video", deviceId: string) => {
+      const stream = await webrtcManager.switchInputDevice(kind, deviceId);
+      if (!stream) return false;
+
+      if (localAudioRef.current) {
+        localAudioRef.current.srcObject = stream;
+      }
+      if (localVideoRef.current) {
+        localVideoRef.current.srcObject = stream;
+      }
+      if (user?.id) {
+        activeSpeakerRef.current?.track(String(user.id), stream, false);
+      }
+      console.log(`[MEETING] ✅ Switched ${kind} input to ${deviceId}`);
+      return true;
+    },
+    [user?.id]
+  );
+
+  /**
+   * React to devices being plugged in or unplugged
+   *
+   * Falls back to another device when the one in use disappears, and goes
+   * back to the saved choice when it is connected again.
+   */
+  const handleMediaDevicesChanged = useCallback(async () => {
+    const devices = await listMediaDevices();
+    setAvailableDevices(devices);
+
+    const localStream = webrtcManager.getLocalStream();
+    if (!localStream) return;
+
+    const preferences = devicePreferencesRef.current;
+    const inputs = [
+      {
+        kind: "audio",
+        name: "Micrófono",
+        list: devices.audioInputs,
+        preferredId: preferences.audioInputId,
+        track: localStream.getAudioTracks()[0],
+      },
+      {
+        kind: "video",
+        name: "Cámara",
+        list: devices.videoInputs,
+        preferredId: preferences.videoInputId,
+        track: localStream.getVideoTracks()[0],
+      },
+    ] as const;
+
+    for (const input of inputs) {
+      if (!input.track) continue;
+
+      const preferred = input.list.find(
+        (d) => d.deviceId === input.preferredId
+      );
+      const currentGone =
+        input.track.readyState === "ended" ||
+        !input.list.some(
+          (d) => d.deviceId === input.track.getSettings().deviceId
+        );
+      const target = preferred ?? (currentGone ? input.list[0] : undefined);
+      if (!target) continue;
+
+      try {
+        if (await switchInputDevice(input.kind, target.deviceId)) {
+          toast.info(
+            `${input.name}: ${getDeviceLabel(
+              target,
+              input.list.indexOf(target)
+            )}`
+          );
+        }
+      } catch (error) {
+        console.error(
+          `[MEETING] ❌ Error switching ${input.kind} input after device change:`,
+          error
+        );
+      }
+    }
+
+    const outputId = devices.audioOutputs.some(
+      (d) => d.deviceId === preferences.audioOutputId
+    )
+      ? preferences.audioOutputId
+      : undefined;
+    if (outputId !== audioOutputIdRef.current) {
+      applyAudioOutputToRemoteMedia(outputId);
+    }
+  }, [toast, switchInputDevice, applyAudioOutputToRemoteMedia]);
+
+  useEffect(
+    () => watchMediaDevices(handleMediaDevicesChanged),
+    [handleMediaDevicesChanged]
+  );
+
+  /**
+   * Open the device settings with a fresh device list
+   */
+  const openDeviceSettings = () => {
+    setShowDeviceSettings(true);
+    listMediaDevices().then(setAvailableDevices);
+  };
+
+  /**
+   * Apply and remember a device picked in the settings
+   *
+   * @param kind - Which device was changed
+   * @param deviceId - The chosen device, or "" for the system default
+   */
+  const handleDeviceSelected = async (
+    kind: keyof MediaDevicePreferences,
+    deviceId: string
+  ) => {
+    if (!user?.id) return;
+
+    const updated = { ...devicePreferences, [kind]: deviceId || undefined };
+    setDevicePreferences(updated);
+    saveDevicePreferences(String(user.id), updated);
+
+    if (kind === "audioOutputId") {
+      applyAudioOutputToRemoteMedia(deviceId || undefined);
+      return;
+    }
+
+    const inputKind = kind === "audioInputId" ? "audio" : "video";
+    const list =
+      inputKind === "audio"
+        ? availableDevices.audioInputs
+        : availableDevices.videoInputs;
+    const targetId = deviceId || list[0]?.deviceId;
+    if (!targetId) return;
+
+    setIsSwitchingDevice(true);
+    try {
+      await switchInputDevice(inputKind, targetId);
+    } catch (error) {
+      console.error(`[MEETING] ❌ Error switching ${inputKind} input:`, error);
+      toast.error(
+        inputKind === "audio"
+          ? "No se pudo usar el micrófono seleccionado"
+          : "No se pudo usar la cámara seleccionada"
+      );
+    } finally {
+      setIsSwitchingDevice(false);
+    }
+  };
+
+  /**
+   * Tiles drawn into the recording: the shared screen (if any) followed
+   * by every participant. Reads refs only, since the recorder keeps
+   * calling it for as long as it runs.
+   */
+  const getRecordingSources = useCallback((): RecordingSource[] => {
+    const sources: RecordingSource[] = participantsRef.current.map((p) => {
+      const id = String(p.userId);
+      const pUser = id === String(user?.id) ? user : p.user;
+      return {
+        userId: id,
+        label:
+          pUser?.nickname ||
+          pUser?.displayName ||
+          pUser?.email?.split("@")[0] ||
+          "Usuario",
+        video: document.getElementById(`video-${id}`) as HTMLVideoElement | null,
+      };
+    });
+
+    if (presentationVideoRef.current) {
+      sources.unshift({
+        userId: "presentation",
+        label: "Presentación",
+        video: presentationVideoRef.current,
+      });
+    }
+
+    return sources;
+  }, [user]);
+
+  /**
+   * File name for a downloaded recording
+   */
+  const getRecordingFileName = useCallback(
+    () =>
+      `charlaton-${meetingId}-${new Date()
+        .toISOString()
+        .slice(0, 19)
+        .replace(/[T:]/g, "-")}.webm`,
+    [meetingId]
+  );
+
+  /**
+   * Stop recording, notify participants and download the file
+   */
+  const stopRecording = useCallback(async () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+
+    recorderRef.current = null;
+    isRecordingRef.current = false;
+    setIsRecording(false);
+    setRecordingUserId((prev) => (prev === String(user?.id) ? null : prev));
+
+    const socketInstance = getSocket();
+    if (socketInstance && socketInstance.connected) {
+      socketInstance.emit("recording_changed", { recording: false });
+      console.log("[MEETING] 📡 Broadcasted recording stop");
+    }
+
+    const blob = await recorder.stop();
+    if (blob && blob.size > 0) {
+      downloadBlob(blob, getRecordingFileName());
+      toast.success("Grabación descargada");
+    } else {
+      toast.warning("La grabación está vacía");
+    }
+  }, [user?.id, toast, getRecordingFileName]);
+
+  /**
+   * Start or stop recording the meeting (hosts only). A co-host demoted
+   * while recording can still stop their recording.
+   */
+  const toggleRecording = async () => {
+    if (isRecording) {
+      await stopRecording();
+      return;
+    }
+
+    if (!isModerator || !user?.id || !meetingId) return;
+
+    if (!MeetingRecorder.isSupported()) {
+      toast.error("Tu navegador no permite grabar reuniones");
+      return;
+    }
+
+    const recorder = new MeetingRecorder();
+    try {
+      const audioStreams = [
+        webrtcManager.getLocalStream(),
+        ...remoteStreamsRef.current.values(),
+      ].filter((stream): stream is MediaStream => stream !== null);
+      recorder.start(getRecordingSources, audioStreams);
+    } catch (error) {
+      console.error("[MEETING] ❌ Error starting recording:", error);
+      toast.error("No se pudo iniciar la grabación");
+      return;
+    }
+
+    recorderRef.current = recorder;
+    isRecordingRef.current = true;
+    setIsRecording(true);
+    setRecordingUserId(String(user.id));
+
+    const socketInstance = getSocket();
+    if (socketInstance && socketInstance.connected) {
+      socketInstance.emit("recording_changed", { recording: true });
+      console.log("[MEETING] 📡 Broadcasted recording start");
+    }
+
+    toast.info("Grabación iniciada. Se descargará al detenerla.");
+  };
+
+  /**
+   * Save a recording that is still running when the page is left
+   */
+  useEffect(
+    () => () => {
+      const recorder = recorderRef.current;
+      if (!recorder) return;
+
+      recorderRef.current = null;
+      isRecordingRef.current = false;
+      recorder.stop().then((blob) => {
+        if (blob && blob.size > 0) {
+          downloadBlob(blob, getRecordingFileName());
+        }
+      });
+    },
+    [getRecordingFileName]
+  );
+
+  /**
+   * Raise or lower the local user's hand
+   */
+  const toggleHand = () => {
+    if (!user?.id) return;
+
+    const raised = raisedHandAtRef.current === null;
+    const raisedAt = Date.now();
+    raisedHandAtRef.current = raised ? raisedAt : null;
+    setRaisedHands((prev) =>
+      updateRaisedHands(prev, String(user.id), raised, raisedAt)
+    );
+
+    const socketInstance = getSocket();
+    if (socketInstance && socketInstance.connected) {
+      socketInstance.emit("hand_state_changed", { raised, raisedAt });
+      console.log(`[MEETING] 📡 Broadcasted hand ${raised ? "raised" : "lowered"}`);
+    }
+  };
+
+  /**
+   * Lower a participant's hand (hosts only)
+   *
+   * @param targetUserId - Whose hand to lower
+   * @param calledOn - Whether the participant is being given the floor
+   */
+  const lowerHand = (targetUserId: string, calledOn: boolean = false) => {
+    setRaisedHands((prev) => updateRaisedHands(prev, targetUserId, false, 0));
+    if (targetUserId === String(user?.id)) {
+      raisedHandAtRef.current = null;
+    }
+
+    const socketInstance = getSocket();
+    if (socketInstance && socketInstance.connected) {
+      socketInstance.emit("hand_state_changed", {
+        raised: false,
+        targetUserId,
+        calledOn,
+      });
+    }
+  };
+
+  /**
+   * Give the floor to the first person in the queue
+   */
+  const callOnNextHand = () => {
+    const next = raisedHands[0];
+    if (!next) return;
+
+    lowerHand(next.userId, true);
+    toast.info(`Le diste la palabra a ${getParticipantName(next.userId)}`);
+  };
+
+  /**
+   * Send an emoji reaction to everyone in the room
+   *
+   * @param emoji - One of the picker's reactions
+   */
+  const sendReaction = (emoji: string) => {
+    if (!user?.id) return;
+    setShowReactionPicker(false);
+
+    if (!reactionLimiterRef.current.allow(String(user.id))) {
+      toast.warning("Espera un momento antes de enviar más reacciones");
+      return;
+    }
+
+    showReaction(String(user.id), emoji);
+
+    const socketInstance = getSocket();
+    if (socketInstance && socketInstance.connected) {
+      socketInstance.emit("reaction", { emoji });
+    }
+  };
+
+  /**
+   * Create breakout rooms under this meeting (hosts only)
+   */
+  const createBreakouts = async (count: number) => {
+    if (!isModerator || !room || !user?.id) return;
+
+    setIsCreatingBreakouts(true);
+    const response = await createBreakoutRooms(room, count, String(user.id));
+    setIsCreatingBreakouts(false);
+
+    if (response.error || !response.data) {
+      toast.error(response.error || "Error al crear salas para grupos");
+      // Rooms that could not be rolled back stay listed so they can be closed
+      if (response.data) {
+        setBreakoutRooms(response.data);
+        setBreakoutAssignments({});
+      }
+      return;
+    }
+
+    console.log(`[MEETING] ✅ Created ${response.data.length} breakout rooms`);
+    setBreakoutRooms(response.data);
+    setBreakoutAssignments({});
+  };
+
+  /**
+   * Assign a participant to a breakout room ("" keeps them here)
+   */
+  const assignBreakout = (userId: string, roomId: string) => {
+    setBreakoutAssignments((prev) => {
+      const updated = { ...prev };
+      if (roomId) {
+        updated[userId] = roomId;
+      } else {
+        delete updated[userId];
+      }
+      return updated;
+    });
+  };
+
+  /**
+   * Spread everyone in the main room over the breakout rooms at random
+   */
+  const shuffleBreakouts = () => {
+    const userIds = participants
+      .map((p) => String(p.userId))
+      .filter((id) => id !== String(user?.id));
+    setBreakoutAssignments(
+      assignRandomly(
+        userIds,
+        breakoutRooms.map((breakoutRoom) => breakoutRoom.id)
+      )
+    );
+  };
+
+  /**
+   * Send assigned participants to their breakout rooms
+   */
+  const openBreakouts = () => {
+    if (!isModerator) return;
+
+    const socketInstance = getSocket();
+    if (!socketInstance || !socketInstance.connected) {
+      toast.error("No conectado al servidor de chat");
+      return;
+    }
+
+    socketInstance.emit("breakout_rooms_opened", {
+      assignments: breakoutAssignments,
+    });
+    console.log("[MEETING] 📡 Broadcasted breakout assignments");
+    toast.success("Participantes enviados a las salas");
+    setShowBreakoutRooms(false);
+  };
+
+  /**
+   * Send a message to everyone in the breakout rooms
+   */
+  const broadcastToBreakouts = (message: string) => {
+    if (!isModerator) return;
+
+    const socketInstance = getSocket();
+    if (!socketInstance || !socketInstance.connected) {
+      toast.error("No conectado al servidor de chat");
+      return;
+    }
+
+    socketInstance.emit("breakout_broadcast", {
+      roomIds: breakoutRooms.map((breakoutRoom) => breakoutRoom.id),
+      message,
+    });
+    toast.success("Mensaje enviado a todas las salas");
+  };
+
+  /**
+   * Start the countdown that brings everyone back to this room
+   */
+  const callBackBreakouts = (seconds: number) => {
+    if (!isModerator || !meetingId) return;
+
+    const socketInstance = getSocket();
+    if (!socketInstance || !socketInstance.connected) {
+      toast.error("No conectado al servidor de chat");
+      return;
+    }
+
+    socketInstance.emit("breakout_rooms_closing", {
+      roomIds: breakoutRooms.map((breakoutRoom) => breakoutRoom.id),
+      parentRoomId: meetingId,
+      seconds,
+    });
+    setBreakoutClosing({
+      parentRoomId: meetingId,
+      endsAt: Date.now() + seconds * 1000,
+    });
+    setShowBreakoutRooms(false);
+  };
+
+  /**
+   * Countdown over: participants head back to the parent room, and the
+   * host closes the breakout rooms once everyone had time to leave
+   */
+  const handleBreakoutCountdownElapsed = async () => {
+    if (!breakoutClosing || !user?.id) return;
+
+    if (breakoutClosing.parentRoomId !== meetingId) {
+      moveToRoom(breakoutClosing.parentRoomId);
+      return;
+    }
+
+    const roomsToClose = breakoutRooms;
+    setBreakoutClosing(null);
+    setBreakoutRooms([]);
+    setBreakoutAssignments({});
+
+    // Stragglers get "room_ended" and land on the dashboard
+    await new Promise((resolve) => setTimeout(resolve, 5000));
+    await Promise.all(
+      roomsToClose.map((breakoutRoom) =>
+        endRoom(breakoutRoom.id, String(user.id))
+      )
+    );
+    console.log(`[MEETING] ✅ Closed ${roomsToClose.length} breakout rooms`);
+  };
+
+  /**
+   * Admit or deny people in the waiting room (hosts only)
+   */
+  const respondToAdmission = async (userIds: string[], admitted: boolean) => {
+    if (!meetingId || !user?.id || !moderatorIdsRef.current.includes(String(user.id))) {
+      return;
+    }
+
+    const socketInstance = getSocket();
+    if (!socketInstance || !socketInstance.connected) {
+      toast.error("No conectado al servidor de chat");
+      return;
+    }
+
+    // The server records each answer; the admitted user needs it to get
+    // their admission token
+    const results = await Promise.all(
+      userIds.map((targetUserId) =>
+        answerAdmissionRequest(meetingId, targetUserId, admitted)
+      )
+    );
+    const answeredIds = userIds.filter((_, index) => !results[index].error);
+    if (answeredIds.length < userIds.length) {
+      toast.error("No se pudieron responder todas las solicitudes");
+    }
+
+    answeredIds.forEach((targetUserId) => {
+      socketInstance.emit("admission_response", { targetUserId, admitted });
+      waitingUserIdsRef.current.delete(targetUserId);
+    });
+    setWaitingUsers((prev) =>
+      prev.filter((waiting) => !answeredIds.includes(waiting.userId))
+    );
+    console.log(
+      `[MEETING] 🚪 ${admitted ? "Admitted" : "Denied"} ${answeredIds.length} waiting user(s)`
+    );
+  };
+
+  /**
+   * Send a moderation action to one participant, or to everyone else
+   * when no target is given (hosts only)
+   */
+  const sendModerationAction = (
+    action: ModerationAction,
+    targetUserId?: string
+  ) => {
+    if (!user?.id || !moderatorIdsRef.current.includes(String(user.id))) return;
+
+    const socketInstance = getSocket();
+    if (!socketInstance || !socketInstance.connected) {
+      toast.error("No conectado al servidor de chat");
+      return;
+    }
+
+    socketInstance.emit("moderation_action", { action, targetUserId });
+    console.log(
+      `[MEETING] 🛡️ Sent moderation "${action}" to ${targetUserId ?? "everyone"}`
+    );
+
+    const name = targetUserId ? getParticipantName(targetUserId) : "";
+    switch (action) {
+      case "mute":
+        toast.success(
+          targetUserId ? `${name} fue silenciado` : "Todos fueron silenciados"
+        );
+        break;
+      case "camera_off":
+        toast.success(`Se apagó la cámara de ${name}`);
+        break;
+      case "ask_unmute":
+        toast.info(`Se pidió a ${name} que active el micrófono`);
+        break;
+      case "remove":
+        toast.success(`${name} fue quitado de la reunión`);
+        break;
+    }
+  };
+
+  /**
+   * Promote a participant to co-host, or demote them (creator only)
+   */
+  const toggleCoHost = async (targetUserId: string) => {
+    if (!isHost || !room || !meetingId) return;
+
+    const current = (room.adminsId ?? []).map(String);
+    const promote = !current.includes(targetUserId);
+    const adminsId = promote
+      ? [...current, targetUserId]
+      : current.filter((id) => id !== targetUserId);
+
+    const response = await updateRoomAdmins(meetingId, adminsId);
+    if (response.error) {
+      toast.error(response.error);
+      return;
+    }
+
+    setRoom((prev) => (prev ? { ...prev, adminsId } : prev));
+    const socketInstance = getSocket();
+    if (socketInstance && socketInstance.connected) {
+      socketInstance.emit("admins_changed", { adminsId });
+      console.log("[MEETING] 📡 Broadcasted co-hosts:", adminsId);
+    }
+
+    const name = getParticipantName(targetUserId);
+    toast.success(
+      promote ? `${name} ahora es coanfitrión` : `${name} ya no es coanfitrión`
+    );
+  };
+
+  /**
+   * Start replying to a message, quoted or in its thread
+   */
+  const startReply = (message: Message, mode: ReplyMode) => {
+    setReplyTo({ message, mode });
+    chatInputRef.current?.focus();
+  };
+
+  /**
+   * Expand or collapse the thread under a message
+   */
+  const toggleThread = (messageId: string) => {
+    setOpenThreadIds((prev) =>
+      prev.includes(messageId)
+        ? prev.filter((id) => id !== messageId)
+        : [...prev, messageId]
+    );
+  };
+
+  /**
+   * People who can be mentioned: everyone in the meeting plus anyone
+   * already seen in the chat, except the current user
+   */
+  const getMentionCandidates = useCallback((): MentionCandidate[] => {
+    const candidates = new Map<string, MentionCandidate>();
+    const people = [
+      ...participants.map((p) => ({ userId: String(p.userId), person: p.user })),
+      ...Array.from(userCacheRef.current.values(), (cached) => ({
+        userId: String(cached.id),
+        person: cached,
+      })),
+    ];
+    for (const { userId, person } of people) {
+      if (userId === String(user?.id) || candidates.has(userId)) continue;
+      const name =
+        person?.nickname || person?.displayName || person?.email?.split("@")[0];
+      if (name) candidates.set(userId, { userId, name });
     }
+    return Array.from(candidates.values());
+  }, [participants, user?.id]);
 
-    // Update WebRTC video track
-    if (isWebRTCInitialized) {
-      if (newState) {
-        // When turning camera on, need to acquire video stream
-        console.log("[MEETING] Requesting video stream...");
-        webrtcManager
-          .startLocalMedia(isMicOn, true)
-          .then((stream) => {
-            if (stream) {
-              // Propagate new stream to all existing peer connections
-              webrtcManager.updateLocalStream(stream);
+  /**
+   * Keep the draft and who was picked in sync after a mention is chosen
+   */
+  const handleMentionSelect = useCallback(
+    (value: string, candidate: MentionCandidate) => {
+      setMessageInput(value);
+      setDraftMentions((prev) =>
+        prev.some((mention) => mention.userId === candidate.userId)
+          ? prev
+          : [...prev, candidate]
+      );
+    },
+    []
+  );
 
-              if (localAudioRef.current) {
-                localAudioRef.current.srcObject = stream;
-              }
-              if (localVideoRef.current) {
-                localVideoRef.current.srcObject = stream;
-                console.log(
-                  "[MEETING] ✅ Video stream attached to local video element"
-                );
-              }
-              console.log("[MEETING] ✅ Camera enabled, stream attached");
-            }
-          })
-          .catch((error) => {
-            console.error("[MEETING] ❌ Error starting camera:", error);
-            toast.error("Error al activar la cámara");
-            setIsCameraOn(false);
-            setCameraStates((prev) => ({ ...prev, [userId]: false }));
-          });
-      } else {
-        // When turning camera off, just disable the track
-        console.log("[MEETING] Disabling video track...");
-        webrtcManager.toggleVideo(false);
-      }
+  /**
+   * Scroll to the message a reply quotes and highlight it briefly
+   */
+  const jumpToMessage = (messageId: string) => {
+    const element = document.getElementById(`chat-message-${messageId}`);
+    if (!element) {
+      toast.info("El mensaje original no está cargado");
+      return;
+    }
+    element.scrollIntoView({ behavior: "smooth", block: "center" });
+    setHighlightedMessageId(messageId);
+    window.setTimeout(() => {
+      setHighlightedMessageId((current) => (current === messageId ? null : current));
+    }, 2000);
+  };
+
+  /**
+   * Resolve the author name of a chat message
+   */
+  const getMessageAuthorName = (message: Message): string =>
+    message.user?.nickname ||
+    message.user?.displayName ||
+    message.user?.email?.split("@")[0] ||
+    getParticipantName(String(message.userId));
+
+  /**
+   * Resolve a display name for a participant by user ID
+   */
+  const getParticipantName = (userId: string): string => {
+    if (userId === String(user?.id)) {
+      return (
+        user?.nickname ||
+        user?.displayName ||
+        user?.email?.split("@")[0] ||
+        "Usuario"
+      );
     }
+    const pUser = participants.find((p) => String(p.userId) === userId)?.user;
+    return (
+      pUser?.nickname ||
+      pUser?.displayName ||
+      pUser?.email?.split("@")[0] ||
+      "Usuario"
+    );
   };
 
   /**
@@ -1309,6 +3222,25 @@ const Meeting: React.FC = () => {
     );
   }
 
+  const isHandRaised = raisedHands.some(
+    (hand) => hand.userId === String(user?.id)
+  );
+
+  // Speaker view: the dominant speaker (or the first remote participant
+  // until someone talks) takes the main area. Screen sharing wins over it.
+  const mainSpeakerId =
+    isSpeakerView && !presenterId
+      ? dominantSpeakerId ??
+        participants
+          .map((p) => String(p.userId))
+          .find((id) => id !== String(user?.id)) ??
+        String(user?.id)
+      : null;
+
+  // Chat threads: replies per message and which originals are on screen
+  const loadedMessageIds = new Set(messages.map((message) => message.id));
+  const replyCounts = getReplyCounts(messages);
+
   return (
     <div className="meeting-page">
       <WebContentReader />
@@ -1354,14 +3286,135 @@ const Meeting: React.FC = () => {
         onCancel={() => setShowLeaveModal(false)}
       />
 
+      <ConfirmationModal
+        isOpen={messageToDelete !== null}
+        title="Eliminar mensaje"
+        message={
+          messageToDelete && messageToDelete.userId !== String(user?.id)
+            ? `¿Eliminar este mensaje de ${getParticipantName(messageToDelete.userId)} para todos?`
+            : "¿Eliminar este mensaje para todos? Esta acción no se puede deshacer."
+        }
+        confirmText="Eliminar"
+        cancelText="Cancelar"
+        confirmButtonClass="btn-danger"
+        delaySeconds={0}
+        onConfirm={handleConfirmDeleteMessage}
+        onCancel={() => setMessageToDelete(null)}
+      />
+
+      <ConfirmationModal
+        isOpen={removeTargetId !== null}
+        title="Quitar de la reunión"
+        message={`¿Quieres quitar a ${
+          removeTargetId ? getParticipantName(removeTargetId) : ""
+        } de la reunión?`}
+        confirmText="Quitar"
+        cancelText="Cancelar"
+        confirmButtonClass="btn-danger"
+        delaySeconds={0}
+        onConfirm={() => {
+          if (removeTargetId) sendModerationAction("remove", removeTargetId);
+          setRemoveTargetId(null);
+        }}
+        onCancel={() => setRemoveTargetId(null)}
+      />
+
+      <ConfirmationModal
+        isOpen={showUnmuteRequest}
+        title="Activar micrófono"
+        message="El anfitrión te pide que actives tu micrófono. ¿Quieres activarlo?"
+        confirmText="Activar"
+        cancelText="Mantener silenciado"
+        confirmButtonClass="btn-confirm"
+        delaySeconds={0}
+        onConfirm={() => {
+          setShowUnmuteRequest(false);
+          if (!isMicOn) toggleMic();
+        }}
+        onCancel={() => setShowUnmuteRequest(false)}
+      />
+
+      <Modal
+        isOpen={showDeviceSettings}
+        onClose={() => setShowDeviceSettings(false)}
+        title="Configuración de audio y video"
+      >
+        <DeviceSettings
+          devices={availableDevices}
+          preferences={devicePreferences}
+          onChange={handleDeviceSelected}
+          disabled={isSwitchingDevice}
+        />
+      </Modal>
+
+      <Modal
+        isOpen={showBreakoutRooms}
+        onClose={() => setShowBreakoutRooms(false)}
+        title="Salas para grupos pequeños"
+      >
+        <BreakoutRooms
+          rooms={breakoutRooms}
+          participants={participants
+            .map((p) => String(p.userId))
+            .filter((id) => id !== String(user?.id))
+            .map((id) => ({ userId: id, name: getParticipantName(id) }))}
+          assignments={breakoutAssignments}
+          isBusy={isCreatingBreakouts}
+          isClosing={!!breakoutClosing}
+          onCreate={createBreakouts}
+          onAssign={assignBreakout}
+          onShuffle={shuffleBreakouts}
+          onOpen={openBreakouts}
+          onJoin={moveToRoom}
+          onBroadcast={broadcastToBreakouts}
+          onCallBack={callBackBreakouts}
+        />
+      </Modal>
+
       {/* Meeting Header */}
       <header className="meeting-header">
         <div className="meeting-info">
-          <h1 className="meeting-title">Reunión</h1>
+          <h1 className="meeting-title">
+            {room?.parentRoomId ? room.name : "Reunión"}
+          </h1>
           <span className="meeting-id">ID: {meetingId}</span>
+          {recordingUserId && (
+            <span
+              className="recording-indicator"
+              role="status"
+              title={
+                recordingUserId === String(user?.id)
+                  ? "Estás grabando esta reunión"
+                  : `${getParticipantName(recordingUserId)} está grabando`
+              }
+            >
+              <span className="recording-dot" aria-hidden="true" />
+              Grabando
+            </span>
+          )}
         </div>
 
         <div className="meeting-actions">
+          {room?.parentRoomId && (
+            <button
+              className="action-btn back-to-main"
+              onClick={() => moveToRoom(room.parentRoomId!)}
+              aria-label="Volver a la sala principal"
+              title="Volver a la sala principal"
+            >
+              <svg
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+              >
+                <path d="M19 12H5" />
+                <polyline points="12 19 5 12 12 5" />
+              </svg>
+              Sala principal
+            </button>
+          )}
+
           <button
             className="action-btn copy-link"
             onClick={handleCopyLink}
@@ -1396,7 +3449,34 @@ const Meeting: React.FC = () => {
             )}
           </button>
 
-          {isHost && (
+          {room?.scheduleAt && (
+            <button
+              className="action-btn copy-link"
+              onClick={() =>
+                downloadIcs(
+                  buildMeetingCalendar([room], window.location.origin),
+                  getIcsFileName(room.name)
+                )
+              }
+              aria-label="Descargar invitación de calendario"
+              title="Añadir al calendario (.ics)"
+            >
+              <svg
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+              >
+                <rect x="3" y="4" width="18" height="18" rx="2" ry="2" />
+                <line x1="16" y1="2" x2="16" y2="6" />
+                <line x1="8" y1="2" x2="8" y2="6" />
+                <line x1="3" y1="10" x2="21" y2="10" />
+              </svg>
+              Calendario
+            </button>
+          )}
+
+          {isModerator && (
             <button
               className="action-btn end-meeting"
               onClick={() => setShowFinalizeModal(true)}
@@ -1437,11 +3517,58 @@ const Meeting: React.FC = () => {
         </div>
       </header>
 
+      {breakoutClosing && (
+        <BreakoutCountdown
+          endsAt={breakoutClosing.endsAt}
+          message={
+            breakoutClosing.parentRoomId === meetingId
+              ? "Las salas para grupos pequeños se cerrarán en"
+              : "Volverás a la sala principal en"
+          }
+          onElapsed={handleBreakoutCountdownElapsed}
+        />
+      )}
+
       {/* Meeting Content */}
       <div className="meeting-content">
         {/* Main Video Area */}
         <div className="video-area">
-          <div className="video-grid">
+          {presenterId && (
+            <div
+              className="presentation-stage"
+              role="region"
+              aria-label={`Presentación de ${getParticipantName(presenterId)}`}
+            >
+              <video
+                ref={presentationVideoRef}
+                autoPlay
+                playsInline
+                muted
+                className="presentation-video"
+              />
+              <div className="presentation-label">
+                <svg
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  aria-hidden="true"
+                >
+                  <rect x="2" y="3" width="20" height="14" rx="2" ry="2" />
+                  <line x1="8" y1="21" x2="16" y2="21" />
+                  <line x1="12" y1="17" x2="12" y2="21" />
+                </svg>
+                {presenterId === String(user?.id)
+                  ? "Estás presentando"
+                  : `${getParticipantName(presenterId)} está presentando`}
+              </div>
+            </div>
+          )}
+          <div
+            className={`video-grid ${
+              presenterId ? "presenting" : mainSpeakerId ? "speaker-view" : ""
+            }`}
+          >
             {/* Video placeholder - can be replaced with actual video streams */}
             {participants.map((participant) => {
               // Ensure userId is string for consistent comparison
@@ -1498,8 +3625,34 @@ const Meeting: React.FC = () => {
                 `[MEETING] Video tile ${participantUserId}: mic=${micStates[participantUserId]}, camera=${cameraStates[participantUserId]}`
               );
 
+              const isSpeaking =
+                !!micStates[participantUserId] &&
+                speakingIds.includes(participantUserId);
+              const handPosition =
+                raisedHands.findIndex(
+                  (hand) => hand.userId === participantUserId
+                ) + 1;
+              const tileReactions = reactions.filter(
+                (reaction) => reaction.userId === participantUserId
+              );
+
               return (
-                <div key={participant.id} className="video-tile">
+                <div
+                  key={participant.id}
+                  className={`video-tile ${isSpeaking ? "speaking" : ""} ${
+                    mainSpeakerId === participantUserId ? "main-speaker" : ""
+                  }`}
+                >
+                  {peerStatuses[participantUserId] === "reconnecting" && (
+                    <div
+                      className="reconnecting-overlay"
+                      role="status"
+                      aria-live="polite"
+                    >
+                      <div className="reconnecting-spinner" aria-hidden="true" />
+                      <span>Reconectando...</span>
+                    </div>
+                  )}
                   {cameraStates[participantUserId] ? (
                     <video
                       id={`video-${participantUserId}`}
@@ -1512,12 +3665,47 @@ const Meeting: React.FC = () => {
                   ) : (
                     <div className="participant-avatar">{initial}</div>
                   )}
+                  {tileReactions.length > 0 && (
+                    <ReactionOverlay
+                      reactions={tileReactions}
+                      participantName={displayName}
+                    />
+                  )}
+                  {connectionInfoUserId === participantUserId && (
+                    <ConnectionInfoPanel
+                      participantName={displayName}
+                      stats={peerStats[participantUserId]}
+                      onClose={() => setConnectionInfoUserId(null)}
+                    />
+                  )}
                   <div className="participant-info">
                     <span className="participant-name">
                       {displayName}
                       {participant.userId === room?.creatorId && " (Anfitrión)"}
                     </span>
+                    {handPosition > 0 && (
+                      <span
+                        className="hand-badge"
+                        title={`Mano levantada (turno ${handPosition})`}
+                        aria-label={`Mano levantada, turno ${handPosition}`}
+                      >
+                        ✋ {handPosition}
+                      </span>
+                    )}
                     <div className="media-controls">
+                      {!isCurrentUser && (
+                        <SignalBars
+                          quality={peerStats[participantUserId]?.quality ?? 0}
+                          expanded={connectionInfoUserId === participantUserId}
+                          onClick={() =>
+                            setConnectionInfoUserId((prev) =>
+                              prev === participantUserId
+                                ? null
+                                : participantUserId
+                            )
+                          }
+                        />
+                      )}
                       <div
                         className={`media-icon ${
                           micStates[participantUserId] ? "active" : "inactive"
@@ -1645,11 +3833,198 @@ const Meeting: React.FC = () => {
                 )}
               </svg>
             </button>{" "}
+            <button
+              className={`control-btn ${isScreenSharing ? "active" : ""}`}
+              onClick={toggleScreenShare}
+              disabled={!!presenterId && presenterId !== String(user?.id)}
+              aria-pressed={isScreenSharing}
+              aria-label={
+                isScreenSharing ? "Dejar de compartir pantalla" : "Compartir pantalla"
+              }
+              title={
+                presenterId && presenterId !== String(user?.id)
+                  ? `${getParticipantName(presenterId)} está presentando`
+                  : isScreenSharing
+                  ? "Dejar de compartir"
+                  : "Compartir pantalla"
+              }
+            >
+              <svg
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+              >
+                <rect x="2" y="3" width="20" height="14" rx="2" ry="2" />
+                <line x1="8" y1="21" x2="16" y2="21" />
+                <line x1="12" y1="17" x2="12" y2="21" />
+                {isScreenSharing ? (
+                  <path d="M9 7l6 6M15 7l-6 6" />
+                ) : (
+                  <polyline points="9 10 12 7 15 10" />
+                )}
+              </svg>
+            </button>{" "}
+            <div className="reaction-control">
+              {showReactionPicker && (
+                <ReactionPicker
+                  onSelect={sendReaction}
+                  onClose={() => setShowReactionPicker(false)}
+                />
+              )}
+              <button
+                className={`control-btn ${showReactionPicker ? "active" : ""}`}
+                onClick={() => setShowReactionPicker((prev) => !prev)}
+                aria-expanded={showReactionPicker}
+                aria-label="Enviar una reacción"
+                title="Reacciones"
+              >
+                <svg
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                >
+                  <circle cx="12" cy="12" r="10" />
+                  <path d="M8 14s1.5 2 4 2 4-2 4-2" />
+                  <line x1="9" y1="9" x2="9.01" y2="9" />
+                  <line x1="15" y1="9" x2="15.01" y2="9" />
+                </svg>
+              </button>
+            </div>{" "}
+            <button
+              className={`control-btn ${isHandRaised ? "hand-raised" : ""}`}
+              onClick={toggleHand}
+              aria-pressed={isHandRaised}
+              aria-label={isHandRaised ? "Bajar la mano" : "Levantar la mano"}
+              title={isHandRaised ? "Bajar la mano" : "Levantar la mano"}
+            >
+              <svg
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="M18 11V6a2 2 0 0 0-4 0v5" />
+                <path d="M14 10V4a2 2 0 0 0-4 0v6" />
+                <path d="M10 10.5V6a2 2 0 0 0-4 0v8" />
+                <path d="M18 8a2 2 0 1 1 4 0v6a8 8 0 0 1-8 8h-2c-2.8 0-4.5-.86-5.99-2.34l-3.6-3.6a2 2 0 0 1 2.83-2.82L7 15" />
+              </svg>
+            </button>{" "}
+            {(isModerator || isRecording) && (
+              <>
+                <button
+                  className={`control-btn ${isRecording ? "recording" : ""}`}
+                  onClick={toggleRecording}
+                  aria-pressed={isRecording}
+                  aria-label={
+                    isRecording ? "Detener grabación" : "Grabar reunión"
+                  }
+                  title={isRecording ? "Detener grabación" : "Grabar reunión"}
+                >
+                  <svg
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                  >
+                    <circle cx="12" cy="12" r="9" />
+                    {isRecording ? (
+                      <rect
+                        x="9"
+                        y="9"
+                        width="6"
+                        height="6"
+                        fill="currentColor"
+                      />
+                    ) : (
+                      <circle cx="12" cy="12" r="4" fill="currentColor" />
+                    )}
+                  </svg>
+                </button>{" "}
+                {isModerator && !room?.parentRoomId && (
+                  <>
+                    <button
+                      className={`control-btn ${showBreakoutRooms ? "active" : ""}`}
+                      onClick={() => setShowBreakoutRooms(true)}
+                      aria-label="Salas para grupos pequeños"
+                      title="Salas para grupos pequeños"
+                    >
+                      <svg
+                        viewBox="0 0 24 24"
+                        fill="none"
+                        stroke="currentColor"
+                        strokeWidth="2"
+                      >
+                        <rect x="3" y="3" width="7" height="7" rx="1" />
+                        <rect x="14" y="3" width="7" height="7" rx="1" />
+                        <rect x="3" y="14" width="7" height="7" rx="1" />
+                        <rect x="14" y="14" width="7" height="7" rx="1" />
+                      </svg>
+                    </button>{" "}
+                  </>
+                )}
+              </>
+            )}
+            <button
+              className={`control-btn ${isSpeakerView ? "active" : ""}`}
+              onClick={() => setIsSpeakerView((prev) => !prev)}
+              aria-pressed={isSpeakerView}
+              aria-label={
+                isSpeakerView ? "Cambiar a vista de cuadrícula" : "Cambiar a vista de orador"
+              }
+              title={isSpeakerView ? "Vista de cuadrícula" : "Vista de orador"}
+            >
+              <svg
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+              >
+                {isSpeakerView ? (
+                  <>
+                    <rect x="3" y="3" width="7" height="7" rx="1" />
+                    <rect x="14" y="3" width="7" height="7" rx="1" />
+                    <rect x="3" y="14" width="7" height="7" rx="1" />
+                    <rect x="14" y="14" width="7" height="7" rx="1" />
+                  </>
+                ) : (
+                  <>
+                    <rect x="3" y="3" width="18" height="12" rx="1" />
+                    <rect x="3" y="18" width="5" height="3" rx="0.5" />
+                    <rect x="9.5" y="18" width="5" height="3" rx="0.5" />
+                    <rect x="16" y="18" width="5" height="3" rx="0.5" />
+                  </>
+                )}
+              </svg>
+            </button>{" "}
+            <button
+              className={`control-btn ${showDeviceSettings ? "active" : ""}`}
+              onClick={openDeviceSettings}
+              aria-label="Configurar cámara, micrófono y altavoz"
+              title="Configuración de dispositivos"
+            >
+              <svg
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+              >
+                <circle cx="12" cy="12" r="3" />
+                <path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 1 1-2.83 2.83l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 0 1-4 0v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 1 1-2.83-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 0 1 0-4h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 1 1 2.83-2.83l.06.06a1.65 1.65 0 0 0 1.82.33H9a1.65 1.65 0 0 0 1-1.51V3a2 2 0 0 1 4 0v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 1 1 2.83 2.83l-.06.06a1.65 1.65 0 0 0-.33 1.82V9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 0 1 0 4h-.09a1.65 1.65 0 0 0-1.51 1z" />
+              </svg>
+            </button>{" "}
             <button
               className={`control-btn ${showChat ? "active" : ""}`}
               onClick={() => {
                 setShowChat(!showChat);
-                if (!showChat) setShowParticipants(false);
+                if (!showChat) {
+                  setShowParticipants(false);
+                  setUnreadMentions(0);
+                }
               }}
               aria-label="Abrir chat"
               title="Chat"
@@ -1665,6 +4040,14 @@ const Meeting: React.FC = () => {
               {messages.length > 0 && (
                 <span className="badge">{messages.length}</span>
               )}
+              {unreadMentions > 0 && (
+                <span
+                  className="mention-badge"
+                  aria-label={`${unreadMentions} menciones sin leer`}
+                >
+                  @{unreadMentions}
+                </span>
+              )}
             </button>
             <button
               className={`control-btn ${showParticipants ? "active" : ""}`}
@@ -1719,6 +4102,38 @@ const Meeting: React.FC = () => {
                     </svg>
                   </button>
                 </div>
+                {isModerator && participants.length > 1 && (
+                  <div className="participants-actions">
+                    <button
+                      type="button"
+                      className="mute-all-btn"
+                      onClick={() => sendModerationAction("mute")}
+                    >
+                      Silenciar a todos
+                    </button>
+                  </div>
+                )}
+                {isModerator && (
+                  <WaitingRoomList
+                    users={waitingUsers}
+                    onAdmit={(userId) => respondToAdmission([userId], true)}
+                    onDeny={(userId) => respondToAdmission([userId], false)}
+                    onAdmitAll={() =>
+                      respondToAdmission(
+                        waitingUsers.map((waiting) => waiting.userId),
+                        true
+                      )
+                    }
+                  />
+                )}
+                {isModerator && (
+                  <HandRaiseQueue
+                    hands={raisedHands}
+                    getName={getParticipantName}
+                    onCallNext={callOnNextHand}
+                    onLower={(userId) => lowerHand(userId)}
+                  />
+                )}
                 <div className="participants-list">
                   {participants.map((participant) => {
                     const participantUserId = String(participant.userId);
@@ -1754,6 +4169,18 @@ const Meeting: React.FC = () => {
                           {participant.userId === room?.creatorId && (
                             <span className="host-badge">Anfitrión</span>
                           )}
+                          {room?.adminsId
+                            ?.map(String)
+                            .includes(participantUserId) && (
+                            <span className="host-badge">Coanfitrión</span>
+                          )}
+                          {raisedHands.some(
+                            (hand) => hand.userId === participantUserId
+                          ) && (
+                            <span className="hand-raised-badge">
+                              ✋ Mano levantada
+                            </span>
+                          )}
                         </div>
                         <div className="participant-media-status">
                           <div
@@ -1824,6 +4251,28 @@ const Meeting: React.FC = () => {
                             </svg>
                           </div>
                         </div>
+                        {isModerator && !isCurrentUser && (
+                          <ParticipantModeration
+                            name={displayName}
+                            micOn={!!micStates[participantUserId]}
+                            cameraOn={!!cameraStates[participantUserId]}
+                            isCoHost={
+                              !!room?.adminsId
+                                ?.map(String)
+                                .includes(participantUserId)
+                            }
+                            onToggleCoHost={
+                              isHost
+                                ? () => toggleCoHost(participantUserId)
+                                : undefined
+                            }
+                            onAction={(action) =>
+                              action === "remove"
+                                ? setRemoveTargetId(participantUserId)
+                                : sendModerationAction(action, participantUserId)
+                            }
+                          />
+                        )}
                       </div>
                     );
                   })}
@@ -1861,8 +4310,26 @@ const Meeting: React.FC = () => {
                     </svg>
                   </button>
                 </div>
-                <div className="chat-messages">
-                  {messages.map((message) => {
+                <div
+                  className="chat-messages"
+                  ref={chatMessagesRef}
+                  onScroll={handleChatScroll}
+                >
+                  <div className="chat-history-status" aria-live="polite">
+                    {isLoadingOlderMessages ? (
+                      "Cargando mensajes anteriores..."
+                    ) : hasOlderMessages ? (
+                      <button type="button" onClick={loadOlderMessages}>
+                        Cargar mensajes anteriores
+                      </button>
+                    ) : messages.length > 0 ? (
+                      "Inicio de la conversación"
+                    ) : null}
+                  </div>
+                  {messages.map((message, index) => {
+                    // Thread replies are listed under their original
+                    if (isShownInThread(message, loadedMessageIds)) return null;
+
                     const isOwnMessage = message.userId === user?.id;
 
                     // Try to resolve a friendly name for the author
@@ -1906,43 +4373,240 @@ const Meeting: React.FC = () => {
                     displayName = displayName || "Usuario";
                     const initial = displayName[0].toUpperCase();
 
+                    const isPrivate = message.visibility !== "public";
+                    const targetIds = getMessageTargetIds(message);
+                    let privacyLabel = "";
+                    if (message.visibility === "private") {
+                      privacyLabel = isOwnMessage
+                        ? `Privado para ${getParticipantName(targetIds[0] || "")}`
+                        : "Mensaje privado para ti";
+                    } else if (message.visibility === "group") {
+                      privacyLabel = `Grupo: ${targetIds
+                        .map((id) =>
+                          id === String(user?.id) ? "tú" : getParticipantName(id)
+                        )
+                        .join(", ")}`;
+                    }
+
+                    // Messages without a server ID can't be edited or deleted
+                    const isStored = !message.id.startsWith("srv-");
+
+                    const parentMessage = message.parentId
+                      ? messages.find((m) => m.id === message.parentId)
+                      : undefined;
+                    const threadReplies = getThreadReplies(messages, message.id);
+
+                    // Separate days, e.g. when history spans several sessions
+                    const sentAt = message.createdAt
+                      ? new Date(message.createdAt)
+                      : null;
+                    const previous = messages[index - 1];
+                    const showDaySeparator =
+                      !!sentAt &&
+                      (!previous?.createdAt ||
+                        !isSameDay(new Date(previous.createdAt), sentAt));
+
                     return (
-                      <div
-                        key={message.id}
-                        className={`chat-message ${
-                          isOwnMessage ? "own-message" : ""
-                        }`}
-                      >
-                        <div className="message-avatar">{initial}</div>
-                        <div className="message-content">
-                          <div className="message-header">
-                            <span className="message-author">
-                              {displayName}
-                            </span>
-                            <span className="message-time">
-                              {message.createdAt
-                                ? new Date(
-                                    message.createdAt
-                                  ).toLocaleTimeString("es-ES", {
-                                    hour: "2-digit",
-                                    minute: "2-digit",
-                                  })
-                                : ""}
-                            </span>
+                      <React.Fragment key={message.id}>
+                        {sentAt && showDaySeparator && (
+                          <div className="chat-date-separator" role="separator">
+                            <span>{formatMessageDay(sentAt)}</span>
+                          </div>
+                        )}
+                        <div
+                          id={`chat-message-${message.id}`}
+                          className={`chat-message ${
+                            isOwnMessage ? "own-message" : ""
+                          } ${isPrivate ? "private-message" : ""} ${
+                            highlightedMessageId === message.id
+                              ? "highlighted-message"
+                              : ""
+                          }`}
+                        >
+                          <div className="message-avatar">{initial}</div>
+                          <div className="message-content">
+                            {isPrivate && (
+                              <span className="message-privacy">
+                                <svg
+                                  viewBox="0 0 24 24"
+                                  fill="none"
+                                  stroke="currentColor"
+                                  strokeWidth="2"
+                                  aria-hidden="true"
+                                >
+                                  <rect x="3" y="11" width="18" height="11" rx="2" ry="2" />
+                                  <path d="M7 11V7a5 5 0 0 1 10 0v4" />
+                                </svg>
+                                {privacyLabel}
+                              </span>
+                            )}
+                            {message.parentId && (
+                              <MessageQuote
+                                author={
+                                  parentMessage
+                                    ? getMessageAuthorName(parentMessage)
+                                    : null
+                                }
+                                excerpt={
+                                  parentMessage
+                                    ? getQuoteExcerpt(parentMessage.content)
+                                    : null
+                                }
+                                onJump={() => jumpToMessage(message.parentId!)}
+                              />
+                            )}
+                            <div className="message-header">
+                              <span className="message-author">
+                                {displayName}
+                              </span>
+                              <span className="message-time">
+                                {message.createdAt
+                                  ? new Date(
+                                      message.createdAt
+                                    ).toLocaleTimeString("es-ES", {
+                                      hour: "2-digit",
+                                      minute: "2-digit",
+                                    })
+                                  : ""}
+                                {isMessageEdited(message) && (
+                                  <span className="message-edited"> (editado)</span>
+                                )}
+                              </span>
+                              {isStored && editingMessageId !== message.id && (
+                                <MessageActions
+                                  canEdit={isOwnMessage}
+                                  canDelete={isOwnMessage || isModerator}
+                                  onEdit={() => setEditingMessageId(message.id)}
+                                  onDelete={() => setMessageToDelete(message)}
+                                  onReply={() => startReply(message, "quote")}
+                                  onReplyInThread={() =>
+                                    startReply(message, "thread")
+                                  }
+                                />
+                              )}
+                            </div>
+                            {editingMessageId === message.id ? (
+                              <MessageEditForm
+                                initialContent={message.content}
+                                isSaving={isSavingMessage}
+                                onSave={(content) =>
+                                  handleSaveMessageEdit(message, content)
+                                }
+                                onCancel={() => setEditingMessageId(null)}
+                              />
+                            ) : (
+                              <RichText
+                                className="message-text"
+                                text={message.content}
+                                currentUserId={String(user?.id)}
+                              />
+                            )}
+                            <MessageThread
+                              replyCount={replyCounts.get(message.id) || 0}
+                              replies={threadReplies.map((reply) => ({
+                                id: reply.id,
+                                author: getMessageAuthorName(reply),
+                                time: reply.createdAt
+                                  ? new Date(reply.createdAt).toLocaleTimeString(
+                                      "es-ES",
+                                      { hour: "2-digit", minute: "2-digit" }
+                                    )
+                                  : "",
+                                edited: isMessageEdited(reply),
+                                body:
+                                  editingMessageId === reply.id ? (
+                                    <MessageEditForm
+                                      initialContent={reply.content}
+                                      isSaving={isSavingMessage}
+                                      onSave={(content) =>
+                                        handleSaveMessageEdit(reply, content)
+                                      }
+                                      onCancel={() => setEditingMessageId(null)}
+                                    />
+                                  ) : (
+                                    <RichText text={reply.content} currentUserId={String(user?.id)} />
+                                  ),
+                                actions: !reply.id.startsWith("srv-") &&
+                                  editingMessageId !== reply.id && (
+                                    <MessageActions
+                                      canEdit={reply.userId === String(user?.id)}
+                                      canDelete={
+                                        reply.userId === String(user?.id) ||
+                                        isModerator
+                                      }
+                                      onEdit={() => setEditingMessageId(reply.id)}
+                                      onDelete={() => setMessageToDelete(reply)}
+                                    />
+                                  ),
+                              }))}
+                              isOpen={openThreadIds.includes(message.id)}
+                              onToggle={() => toggleThread(message.id)}
+                              onReply={() => startReply(message, "thread")}
+                            />
                           </div>
-                          <p className="message-text">{message.content}</p>
                         </div>
-                      </div>
+                      </React.Fragment>
                     );
                   })}
                   <div ref={messagesEndRef} />
                 </div>
+                <ChatRecipientPicker
+                  participants={participants
+                    .map((p) => String(p.userId))
+                    .filter((id) => id !== String(user?.id))
+                    .map((id) => ({ userId: id, name: getParticipantName(id) }))}
+                  value={chatRecipients}
+                  onChange={setChatRecipients}
+                />
+                {replyTo && (
+                  <ReplyBanner
+                    author={getMessageAuthorName(replyTo.message)}
+                    excerpt={getQuoteExcerpt(replyTo.message.content)}
+                    mode={replyTo.mode}
+                    onModeChange={(mode) =>
+                      setReplyTo((prev) => (prev ? { ...prev, mode } : prev))
+                    }
+                    onCancel={() => setReplyTo(null)}
+                  />
+                )}
+                <div className="chat-composer-tools">
+                  <FormattingToolbar
+                    inputRef={chatInputRef}
+                    value={messageInput}
+                    onChange={setMessageInput}
+                    isPreviewing={isPreviewingMessage}
+                    onTogglePreview={() => setIsPreviewingMessage((prev) => !prev)}
+                  />
+                  {isPreviewingMessage && (
+                    <div className="rich-text-preview" aria-live="polite">
+                      {messageInput.trim() ? (
+                        <RichText
+                          text={encodeMentions(messageInput, draftMentions)}
+                          currentUserId={String(user?.id)}
+                        />
+                      ) : (
+                        <p className="rich-text-preview__empty">
+                          Nada que previsualizar
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
                 <div className="chat-input-container">
-                  <input
+                  <MentionAutocomplete
+                    inputRef={chatInputRef}
+                    getCandidates={getMentionCandidates}
+                    onSelect={handleMentionSelect}
+                  />
+                  <textarea
                     ref={chatInputRef}
-                    type="text"
+                    rows={Math.min(5, messageInput.split("\n").length)}
                     className="chat-input"
-                    placeholder="Escribe un mensaje..."
+                    placeholder={
+                      chatRecipients.visibility === "public"
+                        ? "Escribe un mensaje..."
+                        : "Escribe un mensaje privado..."
+                    }
                     value={messageInput}
                     onChange={(e) => setMessageInput(e.target.value)}
                     onKeyPress={(e) => {
@@ -1982,4 +4646,15 @@ const Meeting: React.FC = () => {
   );
 };
 
-export default Meeting;
+/**
+ * Route element for /meet/:meetingId
+ * Keyed by meeting ID so moving into a breakout room (or back) starts the
+ * page from a clean state instead of carrying over the previous room's
+ * chat, participants and peer connections
+ */
+const MeetingRoute: React.FC = () => {
+  const { meetingId } = useParams<{ meetingId: string }>();
+  return <Meeting key={meetingId} />;
+};
+
+export default MeetingRoute;
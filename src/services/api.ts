@@ -21,8 +21,20 @@ interface ApiResponse<T = any> {
   data?: T;
   error?: string;
   message?: string;
+  status?: number; // HTTP status of failed requests
+  retryAfter?: number; // Segundos indicados por la cabecera Retry-After
 }
 
+// Retry-After puede venir en segundos o como fecha HTTP
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+};
+
 // Configuración base para fetch
 const fetchWithConfig = async <T = any>(
   endpoint: string,
@@ -94,16 +106,19 @@ const fetchWithConfig = async <T = any>(
             data.error ||
             data.message ||
             "Token expirado o no autorizado. Por favor, inicia sesión nuevamente.",
+          status: response.status,
         };
       }
       if (response.status === 404) {
         return {
           error: data.error || data.message || "Recurso no encontrado",
+          status: response.status,
         };
       }
       if (response.status === 400) {
         return {
           error: data.error || data.message || "Solicitud inválida",
+          status: response.status,
         };
       }
       return {
@@ -111,6 +126,8 @@ const fetchWithConfig = async <T = any>(
           data.error ||
           data.message ||
           `Error en la petición (${response.status})`,
+        status: response.status,
+        retryAfter: parseRetryAfter(response.headers.get("Retry-After")),
       };
     }
 
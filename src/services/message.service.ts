@@ -9,7 +9,12 @@ export interface Message {
   roomId: string;
   content: string;
   visibility: "public" | "private" | "group";
-  target?: any;
+  /** Recipient user ID for private messages, list of IDs for group ones */
+  target?: string | string[] | null;
+  /** Message this one replies to */
+  parentId?: string | null;
+  /** Quoted inline reply, or reply inside the parent's thread */
+  replyMode?: "quote" | "thread" | null;
   createdAt?: string;
   updatedAt?: string;
   user?: {
@@ -25,7 +30,19 @@ export interface SendMessageData {
   roomId: string;
   content: string;
   visibility?: "public" | "private" | "group";
-  target?: any;
+  target?: string | string[] | null;
+  parentId?: string | null;
+  replyMode?: "quote" | "thread" | null;
+}
+
+/**
+ * Position in a room's history: the oldest message loaded so far.
+ * Pages fetched before it are not shifted by messages sent or deleted
+ * in the meantime, unlike offsets.
+ */
+export interface MessageCursor {
+  createdAt: string;
+  id: string;
 }
 
 /**
@@ -35,17 +52,22 @@ export interface SendMessageData {
  * @param {string} roomId - Room ID to fetch messages for
  * @param {number} [limit=50] - Maximum number of messages to fetch
  * @param {number} [offset=0] - Offset for pagination
+ * @param {MessageCursor} [before] - Only fetch messages older than this one
  * @returns {Promise<{data?: Message[], error?: string}>} Response with messages array or error
  */
 export const getRoomMessages = async (
   roomId: string,
   limit: number = 50,
-  offset: number = 0
+  offset: number = 0,
+  before?: MessageCursor
 ) => {
   try {
     console.log(`[MESSAGE-SERVICE] Fetching messages for room ${roomId}`);
+    const cursor = before
+      ? `&before=${encodeURIComponent(before.createdAt)}&beforeId=${before.id}`
+      : "";
     const response = await api.get(
-      `/message?roomId=${roomId}&limit=${limit}&offset=${offset}`
+      `/message?roomId=${roomId}&limit=${limit}&offset=${offset}${cursor}`
     );
 
     if (response.error) {
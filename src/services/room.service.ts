@@ -3,18 +3,35 @@
 
 import api from "./api";
 
+/**
+ * Change to a single occurrence of a recurring room, identified by the
+ * occurrence's original start time
+ */
+export interface RecurrenceException {
+  occurrenceId: string; // Original start (ISO) of the occurrence
+  cancelled?: boolean;
+  scheduleAt?: string;
+  durationMinutes?: number;
+  name?: string;
+}
+
 export interface Room {
   id: string;
   name: string;
   creatorId: string;
-  password?: string | null;
+  hasPassword?: boolean; // The password itself never leaves the server
   parentRoomId?: string | null;
   private?: boolean;
+  waitingRoom?: boolean;
   scheduleAt?: string | null;
+  durationMinutes?: number | null;
+  recurrence?: string | null; // RRULE, e.g. "FREQ=WEEKLY;BYDAY=MO,WE"
+  recurrenceTimeZone?: string | null; // IANA zone the RRULE is expanded in
+  recurrenceExceptions?: RecurrenceException[];
   deletedAt?: string | null;
   endedAt?: string | null;
   createdAt?: string;
-  subRooms?: any[];
+  subRooms?: Room[];
   connections?: any[];
   adminsId?: string[];
 }
@@ -24,9 +41,37 @@ export interface CreateRoomData {
   creatorId: string;
   password?: string | null;
   private?: boolean;
+  waitingRoom?: boolean;
   scheduleAt?: string | null;
+  durationMinutes?: number | null;
+  recurrence?: string | null;
+  recurrenceTimeZone?: string | null;
+  recurrenceExceptions?: RecurrenceException[];
+  parentRoomId?: string | null;
 }
 
+/**
+ * Schedule fields that can be changed after a room is created
+ */
+export interface RoomScheduleChanges {
+  name?: string;
+  private?: boolean;
+  scheduleAt?: string | null;
+  durationMinutes?: number | null;
+  recurrence?: string | null;
+  recurrenceTimeZone?: string | null;
+  recurrenceExceptions?: RecurrenceException[];
+}
+
+/**
+ * Why the server refused access to a password-protected room
+ */
+export type RoomAccessErrorCode =
+  | "password_required"
+  | "wrong_password"
+  | "too_many_attempts"
+  | "admission_required";
+
 export interface Participant {
   id: string;
   userId: string;
@@ -107,20 +152,244 @@ export const createRoom = async (roomData: CreateRoomData) => {
   }
 };
 
+/**
+ * Create breakout rooms under a meeting
+ * Creates `count` child rooms linked to the parent through `parentRoomId`.
+ * If one fails, the rooms created before it are deleted again; any that
+ * cannot be deleted are returned in `data` along with the error.
+ *
+ * @param {Room} parentRoom - Meeting the breakout rooms belong to
+ * @param {number} count - Number of rooms to create
+ * @param {string} creatorId - Host creating the rooms
+ * @returns {Promise<{data?: Room[], error?: string}>} Response with created rooms or error
+ */
+export const createBreakoutRooms = async (
+  parentRoom: Room,
+  count: number,
+  creatorId: string
+): Promise<{
+  data?: Room[];
+  error?: string;
+}> => {
+  const created: Room[] = [];
+  const rollBack = async (error: string) => {
+    const results = await Promise.all(created.map((room) => deleteRoom(room.id)));
+    const leftover = created.filter((_, index) => results[index].error);
+    return { data: leftover.length > 0 ? leftover : undefined, error };
+  };
+
+  try {
+    for (let index = 0; index < count; index++) {
+      const response = await createRoom({
+        name: `${parentRoom.name} · Sala ${index + 1}`,
+        creatorId,
+        parentRoomId: parentRoom.id,
+        private: parentRoom.private,
+      });
+
+      if (response.error || !response.data) {
+        return rollBack(response.error || "Error al crear salas para grupos");
+      }
+      created.push(response.data);
+    }
+
+    return { data: created };
+  } catch (error) {
+    console.error("[ROOM-SERVICE] Error in createBreakoutRooms:", error);
+    return rollBack((error as Error).message || "Error al crear salas para grupos");
+  }
+};
+
+/**
+ * Update the co-hosts of a room (creator only)
+ * Replaces the list of admins allowed to moderate the meeting
+ *
+ * @param {string} roomId - Room ID to update
+ * @param {string[]} adminsId - User IDs of the co-hosts
+ * @returns {Promise<{data?: Room, error?: string}>} Response with updated room or error
+ */
+export const updateRoomAdmins = async (roomId: string, adminsId: string[]) => {
+  try {
+    const response = await api.patch(`/room/${roomId}`, { adminsId });
+
+    if (response.error) {
+      return { error: response.error };
+    }
+
+    return { data: response.data as Room };
+  } catch (error) {
+    console.error("[ROOM-SERVICE] Error in updateRoomAdmins:", error);
+    return { error: (error as Error).message || "Error al actualizar coanfitriones" };
+  }
+};
+
+/**
+ * Update the schedule of a room (creator only)
+ * Used to edit a whole recurring series or, through
+ * `recurrenceExceptions`, to edit or cancel single occurrences
+ *
+ * @param {string} roomId - Room ID to update
+ * @param {RoomScheduleChanges} changes - Fields to change
+ * @returns {Promise<{data?: Room, error?: string}>} Response with updated room or error
+ */
+export const updateRoomSchedule = async (
+  roomId: string,
+  changes: RoomScheduleChanges
+) => {
+  try {
+    const response = await api.patch(`/room/${roomId}`, changes);
+
+    if (response.error) {
+      return { error: response.error };
+    }
+
+    return { data: response.data as Room };
+  } catch (error) {
+    console.error("[ROOM-SERVICE] Error in updateRoomSchedule:", error);
+    return { error: (error as Error).message || "Error al actualizar la reunión" };
+  }
+};
+
+/**
+ * Verify a room password on the server
+ * Exchanges the password for a short-lived join token that `joinRoom`
+ * sends along; the password is never compared in the browser
+ *
+ * @param {string} roomId - Room ID to unlock
+ * @param {string} password - Password typed by the user
+ * @returns {Promise<{data?: {joinToken: string}, error?: string, errorCode?: RoomAccessErrorCode, retryAfter?: number}>} Response with join token or error; after too many attempts, `retryAfter` is how many seconds the server asked to wait
+ */
+export const verifyRoomPassword = async (
+  roomId: string,
+  password: string
+): Promise<{
+  data?: { joinToken: string };
+  error?: string;
+  errorCode?: RoomAccessErrorCode;
+  retryAfter?: number;
+}> => {
+  try {
+    const response = await api.post(`/room/${roomId}/verify-password`, {
+      password,
+    });
+
+    if (response.error) {
+      if (response.status === 429) {
+        return {
+          error: "Demasiados intentos fallidos.",
+          errorCode: "too_many_attempts",
+          retryAfter: response.retryAfter,
+        };
+      }
+      if (response.status === 403) {
+        return { error: "Contraseña incorrecta", errorCode: "wrong_password" };
+      }
+      return { error: response.error };
+    }
+
+    return { data: response.data as { joinToken: string } };
+  } catch (error) {
+    console.error("[ROOM-SERVICE] Error in verifyRoomPassword:", error);
+    return {
+      error: (error as Error).message || "Error al verificar la contraseña",
+    };
+  }
+};
+
+/**
+ * Answer a waiting room request (host and co-hosts only)
+ * The server records the decision and rejects it from anyone else, so
+ * only users a moderator admitted can get an admission token
+ *
+ * @param {string} roomId - Room with the waiting room
+ * @param {string} userId - Waiting user
+ * @param {boolean} admitted - Admit or deny the user
+ * @returns {Promise<{data?: unknown, error?: string}>} Response or error
+ */
+export const answerAdmissionRequest = async (
+  roomId: string,
+  userId: string,
+  admitted: boolean
+) => {
+  try {
+    const response = await api.post(`/room/${roomId}/admission/${userId}`, {
+      admitted,
+    });
+
+    if (response.error) {
+      return { error: response.error };
+    }
+
+    return { data: response.data };
+  } catch (error) {
+    console.error("[ROOM-SERVICE] Error in answerAdmissionRequest:", error);
+    return {
+      error: (error as Error).message || "Error al responder la solicitud",
+    };
+  }
+};
+
+/**
+ * Get the admission token of a room with a waiting room
+ * Only issued to users a host or co-host admitted through
+ * `answerAdmissionRequest`; `joinRoom` has to present it
+ *
+ * @param {string} roomId - Room the user waited for
+ * @returns {Promise<{data?: {admissionToken: string}, error?: string, errorCode?: RoomAccessErrorCode}>} Response with admission token or error
+ */
+export const getAdmissionToken = async (
+  roomId: string
+): Promise<{
+  data?: { admissionToken: string };
+  error?: string;
+  errorCode?: RoomAccessErrorCode;
+}> => {
+  try {
+    const response = await api.post(`/room/${roomId}/admission-token`);
+
+    if (response.error) {
+      if (response.status === 403) {
+        return {
+          error: "Todavía no te han admitido en la reunión",
+          errorCode: "admission_required",
+        };
+      }
+      return { error: response.error };
+    }
+
+    return { data: response.data as { admissionToken: string } };
+  } catch (error) {
+    console.error("[ROOM-SERVICE] Error in getAdmissionToken:", error);
+    return {
+      error: (error as Error).message || "Error al obtener la admisión",
+    };
+  }
+};
+
 /**
  * Join a room by ID
- * Validates room existence and creates user connection
+ * Validates room existence and creates user connection. For rooms with a
+ * password the server expects the token from `verifyRoomPassword`, and
+ * for rooms with a waiting room the one from `getAdmissionToken`; users
+ * who already joined the room before (e.g. coming back from a breakout
+ * room) are let back in without them.
  *
  * @param {string} roomId - Room ID to join
  * @param {string} userId - User ID joining the room
- * @param {string} [password] - Optional room password if required
- * @returns {Promise<{data?: any, error?: string}>} Response with connection data or error
+ * @param {string} [joinToken] - Token from `verifyRoomPassword`, if required
+ * @param {string} [admissionToken] - Token from `getAdmissionToken`, if required
+ * @returns {Promise<{data?: any, error?: string, errorCode?: RoomAccessErrorCode}>} Response with connection data or error
  */
 export const joinRoom = async (
   roomId: string,
   userId: string,
-  password?: string
-) => {
+  joinToken?: string,
+  admissionToken?: string
+): Promise<{
+  data?: unknown;
+  error?: string;
+  errorCode?: RoomAccessErrorCode;
+}> => {
   try {
     // First check if room exists
     const roomResponse = await getRoomById(roomId);
@@ -135,18 +404,30 @@ export const joinRoom = async (
       return { error: "Esta reunión ya ha finalizado" };
     }
 
-    // Check password if room is private
-    if (room?.password && room.password !== password) {
-      return { error: "Contraseña incorrecta" };
-    }
-
-    // Create user connection
+    // Create user connection (the server checks both tokens)
     const response = await api.post("/connection", {
       userId,
       roomId,
+      joinToken,
+      admissionToken,
     });
 
     if (response.error) {
+      const isModerator =
+        String(room?.creatorId) === String(userId) ||
+        !!room?.adminsId?.map(String).includes(String(userId));
+      if (response.status === 403 && room?.waitingRoom && !isModerator && !admissionToken) {
+        return {
+          error: "Un anfitrión tiene que admitirte en la reunión",
+          errorCode: "admission_required",
+        };
+      }
+      if (response.status === 403 && room?.hasPassword) {
+        return {
+          error: "Esta reunión requiere contraseña",
+          errorCode: "password_required",
+        };
+      }
       return { error: response.error };
     }
 
@@ -256,6 +537,37 @@ export const getUserRooms = async (userId: string, page: number = 1, limit: numb
   }
 };
 
+/**
+ * Get user's scheduled meetings within a time range
+ * Returns rooms with a `scheduleAt` between `from` and `to` that the user
+ * created or was invited to, ordered by start time. Recurring rooms are
+ * returned when their series may have occurrences in the range; use
+ * `expandScheduledMeetings` to list those occurrences
+ *
+ * @param {string} userId - User ID to get meetings for
+ * @param {Date} from - Start of the range (inclusive)
+ * @param {Date} to - End of the range (exclusive)
+ * @returns {Promise<{data?: Room[], error?: string}>} Response with scheduled rooms or error
+ */
+export const getScheduledRooms = async (userId: string, from: Date, to: Date) => {
+  try {
+    const params = new URLSearchParams({
+      from: from.toISOString(),
+      to: to.toISOString(),
+    });
+    const response = await api.get(`/room/user/${userId}/scheduled?${params}`);
+
+    if (response.error) {
+      return { error: response.error };
+    }
+
+    return { data: response.data as Room[] };
+  } catch (error) {
+    console.error("[ROOM-SERVICE] Error in getScheduledRooms:", error);
+    return { error: (error as Error).message || "Error al obtener reuniones programadas" };
+  }
+};
+
 /**
  * Get user statistics
  * Returns total meetings this month, total duration, and active contacts
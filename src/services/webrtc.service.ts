@@ -0,0 +1,33 @@
+// src/services/webrtc.service.ts
+// Service for WebRTC-related API calls (ICE/TURN configuration)
+
+import api from "./api";
+
+export interface IceServerConfig {
+  iceServers: RTCIceServer[];
+  ttl?: number;
+  expiresAt?: string | null;
+}
+
+/**
+ * Get ICE servers from the backend
+ * Fetches STUN/TURN servers with short-lived TURN credentials
+ *
+ * @returns {Promise<{data?: IceServerConfig, error?: string}>} Response with ICE config or error
+ */
+export const getIceServerConfig = async () => {
+  try {
+    const response = await api.get<IceServerConfig>("/webrtc/ice-servers");
+
+    if (response.error) {
+      return { error: response.error };
+    }
+
+    return { data: response.data as IceServerConfig };
+  } catch (error) {
+    console.error("[WEBRTC-SERVICE] Error in getIceServerConfig:", error);
+    return {
+      error: (error as Error).message || "Error al obtener servidores ICE",
+    };
+  }
+};
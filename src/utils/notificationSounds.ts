@@ -77,6 +77,37 @@ class NotificationSounds {
     this.playTone(880, 120, 'sine'); // A5
   }
 
+  /**
+   * Mention sound - three quick rising tones, unlike a regular message
+   */
+  public mention(): void {
+    if (!this.audioContext) return;
+
+    this.playTone(783.99, 80, 'triangle'); // G5
+    setTimeout(() => this.playTone(987.77, 80, 'triangle'), 90); // B5
+    setTimeout(() => this.playTone(1174.66, 140, 'triangle'), 180); // D6
+  }
+
+  /**
+   * Hand raised sound - bright double chime
+   */
+  public handRaised(): void {
+    if (!this.audioContext) return;
+
+    this.playTone(987.77, 90, 'triangle'); // B5
+    setTimeout(() => this.playTone(1318.51, 140, 'triangle'), 110); // E6
+  }
+
+  /**
+   * Waiting room knock sound - two soft low taps
+   */
+  public knock(): void {
+    if (!this.audioContext) return;
+
+    this.playTone(392, 70, 'triangle'); // G4
+    setTimeout(() => this.playTone(392, 90, 'triangle'), 160); // G4
+  }
+
   /**
    * Error sound - lower, longer tone
    */